@@ -0,0 +1,37 @@
+import { lastValueFrom, of } from 'rxjs';
+import { delay, map } from 'rxjs/operators';
+import { EventContextInterceptor, EventContextMiddleware } from './event-context.interceptor';
+import { getEventContext } from './event-context';
+
+describe('EventContext interceptor and middleware', () => {
+  const createHttpContext = (request: any, response: any): any => ({
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request, getResponse: () => response })
+  });
+
+  it('should expose the request correlation id to asynchronous route handlers', async () => {
+    const response = { setHeader: jest.fn() };
+    const interceptor = new EventContextInterceptor();
+
+    const result$ = interceptor.intercept(
+      createHttpContext({ headers: { 'x-correlation-id': 'cor_client' } }, response),
+      { handle: () => of(null).pipe(delay(1), map(() => getEventContext())) }
+    );
+
+    expect(await lastValueFrom(result$)).toEqual({ correlationId: 'cor_client' });
+    expect(response.setHeader).toHaveBeenCalledWith('x-correlation-id', 'cor_client');
+  });
+
+  it('should generate a correlation id when the request has none', done => {
+    const response = { setHeader: jest.fn() };
+
+    new EventContextMiddleware().use({ headers: {} }, response, () => {
+      setTimeout(() => {
+        const context = getEventContext();
+        expect(context.correlationId).toMatch(/^cor_/);
+        expect(response.setHeader).toHaveBeenCalledWith('x-correlation-id', context.correlationId);
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor, NestMiddleware } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { CORRELATION_ID_HEADER, EventContext, createCorrelationId, runWithEventContext } from './event-context';
+
+/**
+ * Contexte d'une requête HTTP : reprend l'en-tête x-correlation-id s'il est fourni
+ */
+function createRequestContext(request: any): EventContext {
+    const header = request?.headers?.[CORRELATION_ID_HEADER];
+    const correlationId = Array.isArray(header) ? header[0] : header;
+
+    return { correlationId: correlationId || createCorrelationId() };
+}
+
+/**
+ * Renvoie l'ID de corrélation au client (Express et Fastify)
+ */
+function exposeCorrelationId(response: any, correlationId: string): void {
+    if (typeof response?.setHeader === 'function') {
+        response.setHeader(CORRELATION_ID_HEADER, correlationId);
+    } else if (typeof response?.header === 'function') {
+        response.header(CORRELATION_ID_HEADER, correlationId);
+    }
+}
+
+/**
+ * Intercepteur définissant un EventContext par requête
+ * Tous les événements émis pendant la requête partagent le même correlationId
+ */
+@Injectable()
+export class EventContextInterceptor implements NestInterceptor {
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const http = context.getType() === 'http' ? context.switchToHttp() : undefined;
+        const eventContext = createRequestContext(http?.getRequest());
+
+        if (http) {
+            exposeCorrelationId(http.getResponse(), eventContext.correlationId);
+        }
+
+        // Le handler est souscrit à l'intérieur du contexte pour que les callbacks asynchrones en héritent
+        return new Observable(subscriber =>
+            runWithEventContext(eventContext, () => next.handle().subscribe(subscriber))
+        );
+    }
+}
+
+/**
+ * Middleware équivalent à EventContextInterceptor
+ * Couvre aussi les guards, pipes et middlewares exécutés après lui
+ */
+@Injectable()
+export class EventContextMiddleware implements NestMiddleware {
+    use(request: any, response: any, next: (error?: any) => void): void {
+        const eventContext = createRequestContext(request);
+
+        exposeCorrelationId(response, eventContext.correlationId);
+        runWithEventContext(eventContext, () => next());
+    }
+}
@@ -0,0 +1,65 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventHandlerContext } from '../types/handler-queue.types';
+
+/**
+ * En-tête HTTP portant l'ID de corrélation (lu en entrée, renvoyé en réponse)
+ */
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+/**
+ * Contexte ambiant d'un flux d'événements
+ * Défini par requête (EventContextInterceptor / EventContextMiddleware) et par événement traité (handlers)
+ */
+export interface EventContext {
+    /** ID de corrélation hérité par toutes les émissions du flux */
+    correlationId: string;
+
+    /** Événement en cours de traitement : devient le causationId des événements émis */
+    eventId?: string;
+
+    /** Type de l'événement en cours de traitement */
+    eventType?: string;
+
+    /** Événement ayant causé l'événement en cours de traitement */
+    causationId?: string;
+
+    /** Tenant hérité par les émissions du flux */
+    tenantId?: string;
+}
+
+const storage = new AsyncLocalStorage<EventContext>();
+
+/**
+ * Exécute une fonction dans un contexte d'événement
+ * Les émissions faites (même de manière asynchrone) pendant son exécution héritent du contexte
+ */
+export function runWithEventContext<R>(context: EventContext, callback: () => R): R {
+    return storage.run(context, callback);
+}
+
+/**
+ * Contexte d'événement courant (undefined hors requête ou handler)
+ */
+export function getEventContext(): EventContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Génère un ID de corrélation unique
+ */
+export function createCorrelationId(): string {
+    return `cor_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Contexte ambiant pendant l'exécution d'un handler pour un événement
+ */
+export function toEventContext(context: EventHandlerContext): EventContext {
+    return {
+        correlationId: context.correlationId,
+        eventId: context.eventId,
+        eventType: context.eventType,
+        causationId: context.causationId,
+        tenantId: context.tenantId
+    };
+}
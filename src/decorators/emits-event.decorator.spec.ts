@@ -0,0 +1,100 @@
+import { EmitsEvent, EmitsEventRegistry, createEmitsEvent } from './emits-event.decorator';
+
+interface TestEvents {
+  'user.created': { userId: string; email: string };
+  'user.creation_failed': { email: string; reason: string };
+}
+
+const EmitsTestEvent = createEmitsEvent<TestEvents>();
+
+class UserService {
+  @EmitsTestEvent('user.created', {
+    map: (user: any) => ({ userId: user.id, email: user.email }),
+    emitOptions: { priority: 'high' }
+  })
+  async create(email: string) {
+    return { id: 'u1', email };
+  }
+
+  @EmitsTestEvent('user.creation_failed', {
+    when: 'error',
+    map: (error: Error, [email]: any[]) => ({ email, reason: error.message })
+  })
+  async createOrFail(email: string) {
+    throw new Error(`Email ${email} déjà utilisé`);
+  }
+
+  @EmitsEvent<TestEvents>('user.created')
+  async createRaw(email: string) {
+    return { userId: 'u2', email };
+  }
+}
+
+// Vérifications à la compilation : la valeur résolue doit correspondre à `map`, ou au payload sans `map`
+export class MistypedUserService {
+  // @ts-expect-error la méthode ne résout pas l'utilisateur attendu par map
+  @EmitsTestEvent('user.created', { map: (user: { id: string, email: string }) => ({ userId: user.id, email: user.email }) })
+  async create() {
+    return 42;
+  }
+
+  // @ts-expect-error la valeur résolue n'est pas le payload de user.created
+  @EmitsTestEvent('user.created')
+  async createRaw() {
+    return { id: 'u1' };
+  }
+
+  // @ts-expect-error type d'événement inconnu
+  @EmitsTestEvent('user.deleted')
+  async remove() {
+    return { userId: 'u1' };
+  }
+}
+
+describe('@EmitsEvent', () => {
+  let emitter: any;
+  let service: UserService;
+
+  beforeEach(() => {
+    emitter = { emitAsync: jest.fn().mockResolvedValue({ eventId: 'evt_1' }) };
+    EmitsEventRegistry.setEmitter(emitter);
+    service = new UserService();
+  });
+
+  afterEach(() => {
+    EmitsEventRegistry.clear();
+  });
+
+  it('should emit the mapped payload once the method resolves', async () => {
+    const user = await service.create('john@example.com');
+
+    expect(user).toEqual({ id: 'u1', email: 'john@example.com' });
+    expect(emitter.emitAsync).toHaveBeenCalledWith(
+      'user.created',
+      { userId: 'u1', email: 'john@example.com' },
+      { priority: 'high' }
+    );
+  });
+
+  it('should emit failure events and rethrow the original error', async () => {
+    await expect(service.createOrFail('john@example.com')).rejects.toThrow('déjà utilisé');
+
+    expect(emitter.emitAsync).toHaveBeenCalledWith(
+      'user.creation_failed',
+      { email: 'john@example.com', reason: 'Email john@example.com déjà utilisé' },
+      {}
+    );
+  });
+
+  it('should use the return value as payload by default', async () => {
+    await service.createRaw('jane@example.com');
+
+    expect(emitter.emitAsync).toHaveBeenCalledWith('user.created', { userId: 'u2', email: 'jane@example.com' }, {});
+  });
+
+  it('should not fail the method when the emission fails', async () => {
+    emitter.emitAsync.mockRejectedValue(new Error('Queue indisponible'));
+
+    await expect(service.create('john@example.com')).resolves.toEqual({ id: 'u1', email: 'john@example.com' });
+  });
+});
@@ -0,0 +1,180 @@
+import { Logger } from '@nestjs/common';
+import type { EventEmitterService } from '../services/event-emitter.service';
+import { EmitOptions, EventPayloads } from '../types/interfaces';
+
+/**
+ * Moment de l'émission : après résolution de la méthode ou lorsqu'elle échoue
+ */
+export type EmitsEventTrigger = 'success' | 'error';
+
+/**
+ * Options du décorateur @EmitsEvent
+ * P : payload de l'événement, R : valeur résolue par la méthode (ou erreur pour when: 'error'), A : ses arguments
+ */
+export interface EmitsEventOptions<P = any, R = any, A extends any[] = any[]> {
+    /** Déclencheur de l'émission (par défaut : success) */
+    when?: EmitsEventTrigger;
+
+    /**
+     * Construit le payload à partir de la valeur résolue (ou de l'erreur pour when: 'error') et des arguments
+     * Par défaut : la valeur résolue, ou `{ error: message }` en cas d'erreur
+     */
+    map?: (result: R, args: A) => P;
+
+    /** Options d'émission (mode de traitement, priorité, délai...) */
+    emitOptions?: EmitOptions;
+}
+
+/**
+ * Décorateur produit par @EmitsEvent, typé sur la méthode décorée :
+ * sa valeur résolue doit correspondre au paramètre `result` de `map`, ou au payload de l'événement sans `map`
+ */
+export type EmitsEventDecorator<R = any, A extends any[] = any[]> = <M extends (...args: A) => R | Promise<R>>(
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: TypedPropertyDescriptor<M>
+) => TypedPropertyDescriptor<M>;
+
+const logger = new Logger('EmitsEvent');
+
+/**
+ * Référence à l'EventEmitterService utilisée par les méthodes décorées
+ * Renseignée à l'initialisation du module EventNotificationsModule
+ */
+export class EmitsEventRegistry {
+    private static emitter?: EventEmitterService<any>;
+
+    static setEmitter(emitter: EventEmitterService<any>): void {
+        this.emitter = emitter;
+    }
+
+    static getEmitter(): EventEmitterService<any> | undefined {
+        return this.emitter;
+    }
+
+    static clear(emitter?: EventEmitterService<any>): void {
+        if (!emitter || this.emitter === emitter) {
+            this.emitter = undefined;
+        }
+    }
+}
+
+function emitsEvent(eventType: PropertyKey, options: EmitsEventOptions = {}): EmitsEventDecorator {
+    const when = options.when || 'success';
+
+    return (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+        const original = descriptor.value;
+        if (typeof original !== 'function') {
+            throw new Error(`@EmitsEvent ne peut décorer que des méthodes (${String(propertyKey)})`);
+        }
+
+        const emit = async (outcome: any, args: any[]): Promise<void> => {
+            const emitter = EmitsEventRegistry.getEmitter();
+            if (!emitter) {
+                logger.error(
+                    `Événement ${String(eventType)} non émis par ${target.constructor.name}.${String(propertyKey)} : ` +
+                    `EventNotificationsModule non initialisé`
+                );
+                return;
+            }
+
+            try {
+                const payload = options.map
+                    ? options.map(outcome, args)
+                    : when === 'error' ? { error: outcome?.message ?? String(outcome) } : outcome;
+
+                await emitter.emitAsync(eventType as string, payload, options.emitOptions || {});
+            } catch (error) {
+                logger.error(
+                    `Échec de l'émission de ${String(eventType)} par ${target.constructor.name}.${String(propertyKey)}: ${error.message}`
+                );
+            }
+        };
+
+        descriptor.value = async function (...args: any[]) {
+            let result: any;
+            try {
+                result = await original.apply(this, args);
+            } catch (error) {
+                if (when === 'error') {
+                    await emit(error, args);
+                }
+                throw error;
+            }
+
+            if (when === 'success') {
+                await emit(result, args);
+            }
+            return result;
+        };
+
+        // Conserve le nom et les métadonnées de la méthode (@Get, @MessagePattern... appliqués avant)
+        Object.defineProperty(descriptor.value, 'name', { value: original.name });
+        for (const key of Reflect.getMetadataKeys(original)) {
+            Reflect.defineMetadata(key, Reflect.getMetadata(key, original), descriptor.value);
+        }
+
+        return descriptor;
+    };
+}
+
+/**
+ * Signatures de @EmitsEvent pour la map de payloads T
+ */
+export interface TypedEmitsEvent<T> {
+    <K extends keyof T, A extends any[] = any[]>(
+        eventType: K,
+        options: EmitsEventOptions<T[K], any, A> & { when: 'error' }
+    ): EmitsEventDecorator<any, A>;
+    <K extends keyof T, R = any, A extends any[] = any[]>(
+        eventType: K,
+        options: EmitsEventOptions<T[K], R, A> & { when?: 'success', map: (result: R, args: A) => T[K] }
+    ): EmitsEventDecorator<R, A>;
+    <K extends keyof T>(
+        eventType: K,
+        options?: Omit<EmitsEventOptions<T[K]>, 'map'> & { when?: 'success' }
+    ): EmitsEventDecorator<T[K]>;
+}
+
+/**
+ * Signatures de @EmitsEvent, la map de payloads étant EventPayloads par défaut
+ */
+export interface EmitsEventFunction {
+    <T extends EventPayloads = EventPayloads, K extends keyof T = keyof T, A extends any[] = any[]>(
+        eventType: K,
+        options: EmitsEventOptions<T[K], any, A> & { when: 'error' }
+    ): EmitsEventDecorator<any, A>;
+    <T extends EventPayloads = EventPayloads, K extends keyof T = keyof T, R = any, A extends any[] = any[]>(
+        eventType: K,
+        options: EmitsEventOptions<T[K], R, A> & { when?: 'success', map: (result: R, args: A) => T[K] }
+    ): EmitsEventDecorator<R, A>;
+    <T extends EventPayloads = EventPayloads, K extends keyof T = keyof T>(
+        eventType: K,
+        options?: Omit<EmitsEventOptions<T[K]>, 'map'> & { when?: 'success' }
+    ): EmitsEventDecorator<T[K]>;
+}
+
+/**
+ * Décorateur de méthode émettant un événement à partir de sa valeur de retour
+ * La méthode décorée devient asynchrone. L'émission passe par EventEmitterService.emitAsync :
+ * le mode de traitement (immédiat ou queue) suit la configuration du module.
+ * Un échec d'émission est journalisé sans affecter le résultat de la méthode.
+ *
+ * Les types d'événements sont ceux d'EventPayloads (à compléter par `declare module`) ;
+ * pour une map d'événements propre à l'application, voir createEmitsEvent<T>().
+ */
+export const EmitsEvent: EmitsEventFunction = emitsEvent;
+
+/**
+ * Crée un décorateur @EmitsEvent typé pour une map d'événements
+ *
+ * ```typescript
+ * const EmitsAppEvent = createEmitsEvent<AppEvents>();
+ *
+ * @EmitsAppEvent('user.created', { map: (user: User) => ({ userId: user.id, email: user.email }) })
+ * async create(dto: CreateUserDto): Promise<User> { ... }
+ * ```
+ */
+export function createEmitsEvent<T extends EventPayloads>(): TypedEmitsEvent<T> {
+    return emitsEvent;
+}
@@ -0,0 +1,39 @@
+import { NotificationChannel } from '../types/interfaces';
+
+/**
+ * Envoi réussi d'un événement à un destinataire sur un canal
+ */
+export interface DeliveryRecord {
+    eventId: string;
+    channel: NotificationChannel;
+    recipientId: string;
+
+    /** Provider ayant effectué l'envoi */
+    provider: string;
+
+    deliveredAt: Date;
+}
+
+/**
+ * Registre des envois réussis, indexé par événement, canal et destinataire
+ * Consulté à chaque tentative : un destinataire déjà servi n'est pas renotifié sur ce canal.
+ * Pour des workers sur d'autres machines, fournir une implémentation partagée (Redis, base de données...)
+ */
+export interface DeliveryLedger {
+    /**
+     * Envois réussis d'un événement sur un canal
+     */
+    getDelivered(eventId: string, channel: NotificationChannel): Promise<DeliveryRecord[]>;
+
+    /**
+     * Enregistre des envois réussis (un envoi déjà enregistré est ignoré)
+     */
+    record(records: DeliveryRecord[]): Promise<void>;
+}
+
+/**
+ * Clé d'un envoi dans le registre
+ */
+export function getDeliveryKey(eventId: string, channel: NotificationChannel, recipientId: string): string {
+    return `${eventId}:${channel}:${recipientId}`;
+}
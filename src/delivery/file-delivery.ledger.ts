@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NotificationChannel } from '../types/interfaces';
+import { DeliveryLedger, DeliveryRecord, getDeliveryKey } from './delivery-ledger.interface';
+import { withFileLock } from '../utils/file-lock';
+
+/** Durée de conservation des envois (24h) */
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+/**
+ * Registre des envois basé sur un fichier JSON
+ * Partagé entre l'API et les workers utilisant le même répertoire de données (comme FileQueueProvider)
+ */
+@Injectable()
+export class FileDeliveryLedger implements DeliveryLedger {
+    private readonly logger = new Logger(FileDeliveryLedger.name);
+    private readonly filePath: string;
+    private readonly lockPath: string;
+
+    constructor(
+        ledgerName: string = 'notifications',
+        private readonly dataDir: string = './queue-data',
+        private readonly retention: number = DEFAULT_RETENTION
+    ) {
+        this.filePath = path.join(dataDir, `${ledgerName}-deliveries.json`);
+        this.lockPath = `${this.filePath}.lock`;
+    }
+
+    private async readRecords(): Promise<Record<string, DeliveryRecord>> {
+        try {
+            const data = await fs.readFile(this.filePath, 'utf8');
+            return JSON.parse(data, (key, value) => key === 'deliveredAt' ? new Date(value) : value);
+        } catch (error) {
+            // Fichier n'existe pas encore ou vide
+            return {};
+        }
+    }
+
+    private async writeRecords(records: Record<string, DeliveryRecord>): Promise<void> {
+        try {
+            await fs.writeFile(this.filePath, JSON.stringify(records));
+        } catch (error) {
+            this.logger.error(`Failed to write deliveries: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async getDelivered(eventId: string, channel: NotificationChannel): Promise<DeliveryRecord[]> {
+        const records = await this.readRecords();
+        return Object.values(records).filter(record => record.eventId === eventId && record.channel === channel);
+    }
+
+    async record(records: DeliveryRecord[]): Promise<void> {
+        if (records.length === 0) {
+            return;
+        }
+
+        await fs.mkdir(this.dataDir, { recursive: true });
+
+        await withFileLock(this.lockPath, async () => {
+            const existing = await this.readRecords();
+            const threshold = Date.now() - this.retention;
+
+            // Purge des envois trop anciens
+            for (const [key, record] of Object.entries(existing)) {
+                if (record.deliveredAt.getTime() < threshold) {
+                    delete existing[key];
+                }
+            }
+
+            for (const record of records) {
+                const key = getDeliveryKey(record.eventId, record.channel, record.recipientId);
+                existing[key] = existing[key] || record;
+            }
+
+            await this.writeRecords(existing);
+        });
+    }
+
+    /**
+     * Factory method to create FileDeliveryLedger
+     */
+    static create(ledgerName: string = 'notifications', dataDir: string = './queue-data'): FileDeliveryLedger {
+        return new FileDeliveryLedger(ledgerName, dataDir);
+    }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannel } from '../types/interfaces';
+import { DeliveryLedger, DeliveryRecord, getDeliveryKey } from './delivery-ledger.interface';
+
+/** Durée de conservation des envois (24h) */
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+/**
+ * Registre des envois en mémoire
+ * Ne voit que les envois du processus courant (modes api et hybrid sans worker séparé)
+ */
+@Injectable()
+export class InMemoryDeliveryLedger implements DeliveryLedger {
+    private readonly records = new Map<string, DeliveryRecord>();
+
+    constructor(private readonly retention: number = DEFAULT_RETENTION) {}
+
+    async getDelivered(eventId: string, channel: NotificationChannel): Promise<DeliveryRecord[]> {
+        return Array.from(this.records.values())
+            .filter(record => record.eventId === eventId && record.channel === channel)
+            .map(record => ({ ...record }));
+    }
+
+    async record(records: DeliveryRecord[]): Promise<void> {
+        this.purgeExpired();
+        for (const record of records) {
+            const key = getDeliveryKey(record.eventId, record.channel, record.recipientId);
+            if (!this.records.has(key)) {
+                this.records.set(key, { ...record });
+            }
+        }
+    }
+
+    /**
+     * Supprime les envois trop anciens pour borner la mémoire utilisée
+     */
+    private purgeExpired(): void {
+        const threshold = Date.now() - this.retention;
+        for (const [key, record] of this.records) {
+            if (record.deliveredAt.getTime() < threshold) {
+                this.records.delete(key);
+            }
+        }
+    }
+}
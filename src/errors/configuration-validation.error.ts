@@ -0,0 +1,15 @@
+import { ConfigurationIssue } from '../types/interfaces';
+
+/**
+ * Erreur levée au démarrage lorsque la configuration du module est incohérente
+ * Regroupe l'ensemble des problèmes bloquants, pas seulement le premier
+ */
+export class ConfigurationValidationError extends Error {
+    constructor(public readonly issues: ConfigurationIssue[]) {
+        super(
+            `Invalid event notifications configuration (${issues.length} issue(s)):\n` +
+            issues.map(issue => `  - ${issue.eventType ? `[${issue.eventType}] ` : ''}${issue.message}`).join('\n')
+        );
+        this.name = 'ConfigurationValidationError';
+    }
+}
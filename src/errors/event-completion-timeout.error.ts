@@ -0,0 +1,19 @@
+import { EventProcessingStatus } from '../status/event-status-store.interface';
+
+/**
+ * Erreur levée lorsqu'un événement n'est pas traité dans le délai d'attente
+ * L'événement reste en queue : il sera traité, seul l'appelant cesse d'attendre
+ */
+export class EventCompletionTimeoutError extends Error {
+    constructor(
+        public readonly eventId: string,
+        public readonly timeout: number,
+        public readonly lastStatus?: EventProcessingStatus
+    ) {
+        super(
+            `Event "${eventId}" did not complete within ${timeout}ms` +
+            (lastStatus ? ` (last status: ${lastStatus})` : '')
+        );
+        this.name = 'EventCompletionTimeoutError';
+    }
+}
@@ -0,0 +1,18 @@
+import { PayloadValidationIssue } from '../types/interfaces';
+
+/**
+ * Erreur levée lorsqu'un payload ne respecte pas le schéma de son type d'événement
+ * Liste l'ensemble des champs en erreur, pas seulement le premier
+ */
+export class EventPayloadValidationError extends Error {
+    constructor(
+        public readonly eventType: string,
+        public readonly issues: PayloadValidationIssue[]
+    ) {
+        super(
+            `Invalid payload for event "${eventType}": ` +
+            issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ')
+        );
+        this.name = 'EventPayloadValidationError';
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Erreur levée lorsqu'un lien de désinscription est falsifié, malformé ou expiré
+ */
+export class InvalidUnsubscribeTokenError extends Error {
+    constructor(reason: string) {
+        super(`Invalid unsubscribe token: ${reason}`);
+        this.name = 'InvalidUnsubscribeTokenError';
+    }
+}
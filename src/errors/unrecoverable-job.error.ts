@@ -0,0 +1,10 @@
+/**
+ * Erreur levée par un processor de job lorsqu'une nouvelle tentative ne peut pas réussir (ex: payload invalide)
+ * Les queue providers échouent alors le job sans le rejouer, quel que soit son nombre de tentatives restantes
+ */
+export class UnrecoverableJobError extends Error {
+    constructor(message: string, public readonly cause?: Error) {
+        super(message);
+        this.name = 'UnrecoverableJobError';
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * État d'une escalade
+ * - active : des étapes restent à déclencher faute d'acquittement
+ * - acknowledged : l'événement a été acquitté, l'escalade est arrêtée
+ * - completed : toutes les étapes ont été déclenchées sans acquittement
+ */
+export type EscalationStatus = 'active' | 'acknowledged' | 'completed';
+
+/**
+ * Suivi de l'escalade d'un événement
+ */
+export interface EscalationRecord {
+    eventId: string;
+    eventType: string;
+    status: EscalationStatus;
+
+    /** Dernière étape déclenchée (0 : envoi initial uniquement) */
+    level: number;
+
+    /** Date prévue de la prochaine étape */
+    nextEscalationAt?: Date;
+
+    /** Auteur de l'acquittement */
+    acknowledgedBy?: string;
+
+    acknowledgedAt?: Date;
+    startedAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Stockage des escalades, partagé entre l'API (acquittement) et les workers (étapes)
+ * Pour des workers sur d'autres machines, fournir une implémentation partagée (Redis, base de données...)
+ */
+export interface EscalationStore {
+    /**
+     * Récupère l'escalade d'un événement
+     */
+    get(eventId: string): Promise<EscalationRecord | undefined>;
+
+    /**
+     * Enregistre (ou remplace) l'escalade d'un événement
+     */
+    save(record: EscalationRecord): Promise<void>;
+
+    /**
+     * Remplace l'escalade uniquement si son état enregistré correspond à `expected` (compare-and-set)
+     * Retourne false si elle a changé entre-temps (acquittement, étape déjà déclenchée...)
+     */
+    update(record: EscalationRecord, expected: Pick<EscalationRecord, 'status' | 'level'>): Promise<boolean>;
+}
@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EscalationRecord, EscalationStore } from './escalation-store.interface';
+import { withFileLock } from '../utils/file-lock';
+
+/** Durée de conservation des escalades terminées (24h) */
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+const DATE_FIELDS = ['nextEscalationAt', 'acknowledgedAt', 'startedAt', 'updatedAt'];
+
+/**
+ * Escalades stockées dans un fichier JSON
+ * Partagé entre l'API et les workers utilisant le même répertoire de données (comme FileQueueProvider)
+ */
+@Injectable()
+export class FileEscalationStore implements EscalationStore {
+    private readonly logger = new Logger(FileEscalationStore.name);
+    private readonly filePath: string;
+    private readonly lockPath: string;
+
+    constructor(
+        storeName: string = 'notifications',
+        private readonly dataDir: string = './queue-data',
+        private readonly retention: number = DEFAULT_RETENTION
+    ) {
+        this.filePath = path.join(dataDir, `${storeName}-escalations.json`);
+        this.lockPath = `${this.filePath}.lock`;
+    }
+
+    private async readRecords(): Promise<Record<string, EscalationRecord>> {
+        try {
+            const data = await fs.readFile(this.filePath, 'utf8');
+            return JSON.parse(data, (key, value) => DATE_FIELDS.includes(key) && value ? new Date(value) : value);
+        } catch (error) {
+            // Fichier n'existe pas encore ou vide
+            return {};
+        }
+    }
+
+    private async writeRecords(records: Record<string, EscalationRecord>): Promise<void> {
+        try {
+            await fs.writeFile(this.filePath, JSON.stringify(records));
+        } catch (error) {
+            this.logger.error(`Failed to write escalations: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async get(eventId: string): Promise<EscalationRecord | undefined> {
+        const records = await this.readRecords();
+        return records[eventId];
+    }
+
+    async save(record: EscalationRecord): Promise<void> {
+        await fs.mkdir(this.dataDir, { recursive: true });
+
+        await withFileLock(this.lockPath, async () => {
+            const records = await this.readRecords();
+            const threshold = Date.now() - this.retention;
+
+            // Purge des escalades terminées depuis trop longtemps
+            for (const [eventId, existing] of Object.entries(records)) {
+                if (existing.status !== 'active' && existing.updatedAt.getTime() < threshold) {
+                    delete records[eventId];
+                }
+            }
+
+            records[record.eventId] = record;
+            await this.writeRecords(records);
+        });
+    }
+
+    async update(record: EscalationRecord, expected: Pick<EscalationRecord, 'status' | 'level'>): Promise<boolean> {
+        await fs.mkdir(this.dataDir, { recursive: true });
+
+        return withFileLock(this.lockPath, async () => {
+            const records = await this.readRecords();
+            const current = records[record.eventId];
+            if (!current || current.status !== expected.status || current.level !== expected.level) {
+                return false;
+            }
+
+            records[record.eventId] = record;
+            await this.writeRecords(records);
+            return true;
+        });
+    }
+
+    /**
+     * Factory method to create FileEscalationStore
+     */
+    static create(storeName: string = 'notifications', dataDir: string = './queue-data'): FileEscalationStore {
+        return new FileEscalationStore(storeName, dataDir);
+    }
+}
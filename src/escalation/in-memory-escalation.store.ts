@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { EscalationRecord, EscalationStore } from './escalation-store.interface';
+
+/** Durée de conservation des escalades terminées (24h) */
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+/**
+ * Escalades en mémoire
+ * Ne voit que les escalades du processus courant (modes api et hybrid sans worker séparé)
+ */
+@Injectable()
+export class InMemoryEscalationStore implements EscalationStore {
+    private readonly records = new Map<string, EscalationRecord>();
+
+    constructor(private readonly retention: number = DEFAULT_RETENTION) {}
+
+    async get(eventId: string): Promise<EscalationRecord | undefined> {
+        const record = this.records.get(eventId);
+        return record ? { ...record } : undefined;
+    }
+
+    async save(record: EscalationRecord): Promise<void> {
+        this.purgeExpired();
+        this.records.set(record.eventId, { ...record });
+    }
+
+    async update(record: EscalationRecord, expected: Pick<EscalationRecord, 'status' | 'level'>): Promise<boolean> {
+        const current = this.records.get(record.eventId);
+        if (!current || current.status !== expected.status || current.level !== expected.level) {
+            return false;
+        }
+
+        this.records.set(record.eventId, { ...record });
+        return true;
+    }
+
+    /**
+     * Supprime les escalades terminées depuis trop longtemps pour borner la mémoire utilisée
+     */
+    private purgeExpired(): void {
+        const threshold = Date.now() - this.retention;
+        for (const [eventId, record] of this.records) {
+            if (record.status !== 'active' && record.updatedAt.getTime() < threshold) {
+                this.records.delete(eventId);
+            }
+        }
+    }
+}
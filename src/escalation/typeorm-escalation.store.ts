@@ -0,0 +1,92 @@
+import { Injectable, Inject, Optional, forwardRef } from '@nestjs/common';
+import { DataSource, EntitySchema, Repository } from 'typeorm';
+import { PackageConfig } from '../types/interfaces';
+import { EscalationRecord, EscalationStore } from './escalation-store.interface';
+import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+
+const schemas = new Map<string, EntitySchema<EscalationRecord>>();
+
+/**
+ * Schéma TypeORM de la table des escalades (`${tablePrefix}notification_escalations`)
+ * À déclarer dans les `entities` de la DataSource de l'application.
+ */
+export function getEscalationEntitySchema(tablePrefix: string = ''): EntitySchema<EscalationRecord> {
+    const existing = schemas.get(tablePrefix);
+    if (existing) {
+        return existing;
+    }
+
+    const tableName = `${tablePrefix}notification_escalations`;
+    const schema = new EntitySchema<EscalationRecord>({
+        name: `${tablePrefix}NotificationEscalation`,
+        tableName,
+        columns: {
+            eventId: { type: String, primary: true, length: 64 },
+            eventType: { type: String, length: 255 },
+            status: { type: String, length: 16 },
+            level: { type: Number },
+            nextEscalationAt: { type: Date, nullable: true },
+            acknowledgedBy: { type: String, length: 255, nullable: true },
+            acknowledgedAt: { type: Date, nullable: true },
+            startedAt: { type: Date },
+            updatedAt: { type: Date }
+        }
+    });
+
+    schemas.set(tablePrefix, schema);
+    return schema;
+}
+
+/**
+ * EscalationStore TypeORM (SQLite, PostgreSQL, MySQL...)
+ * Partagé entre l'API et des workers sur d'autres machines (queue Bull/BullMQ).
+ * Utilise la DataSource de l'application et PackageConfig.tablePrefix
+ */
+@Injectable()
+export class TypeOrmEscalationStore implements EscalationStore {
+    private readonly repository: Repository<EscalationRecord>;
+
+    constructor(
+        dataSource: DataSource,
+        @Optional() @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) config?: PackageConfig
+    ) {
+        this.repository = dataSource.getRepository(getEscalationEntitySchema(config?.tablePrefix));
+    }
+
+    async get(eventId: string): Promise<EscalationRecord | undefined> {
+        const row = await this.repository.findOneBy({ eventId });
+        return row ? this.fromRow(row) : undefined;
+    }
+
+    async save(record: EscalationRecord): Promise<void> {
+        await this.repository.save(this.toRow(record));
+    }
+
+    async update(record: EscalationRecord, expected: Pick<EscalationRecord, 'status' | 'level'>): Promise<boolean> {
+        // UPDATE ... WHERE status/level : atomique côté base de données
+        const { eventId, ...changes } = this.toRow(record);
+        const result = await this.repository.update({ eventId, status: expected.status, level: expected.level }, changes);
+        return result.affected === 1;
+    }
+
+    /**
+     * Les champs absents sont écrits à NULL (TypeORM ignore les valeurs undefined)
+     */
+    private toRow(record: EscalationRecord): any {
+        return {
+            ...record,
+            nextEscalationAt: record.nextEscalationAt ?? null,
+            acknowledgedBy: record.acknowledgedBy ?? null,
+            acknowledgedAt: record.acknowledgedAt ?? null
+        };
+    }
+
+    private fromRow(row: any): EscalationRecord {
+        return {
+            ...row,
+            nextEscalationAt: row.nextEscalationAt ?? undefined,
+            acknowledgedBy: row.acknowledgedBy ?? undefined,
+            acknowledgedAt: row.acknowledgedAt ?? undefined
+        };
+    }
+}
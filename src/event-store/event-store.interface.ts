@@ -0,0 +1,72 @@
+import { QueuedEvent } from '../types/interfaces';
+
+/**
+ * Événement enregistré dans l'EventStore
+ */
+export interface StoredEvent extends QueuedEvent {
+    /** Date d'enregistrement dans le store */
+    recordedAt: Date;
+}
+
+/**
+ * Critères de recherche dans l'EventStore
+ * Les résultats sont triés par date de création croissante
+ */
+export interface EventStoreQuery {
+    /** Type(s) d'événement */
+    eventType?: string | string[];
+
+    /** ID de corrélation */
+    correlationId?: string;
+
+    /** Tenant */
+    tenantId?: string;
+
+    /** Créés à partir de cette date (incluse) */
+    from?: Date;
+
+    /** Créés avant cette date (exclue) */
+    to?: Date;
+
+    /** Nombre maximum de résultats */
+    limit?: number;
+
+    /** Nombre de résultats à ignorer (pagination) */
+    offset?: number;
+}
+
+/**
+ * Stockage persistant des événements émis
+ * Alimenté par le QueueManagerService pour chaque événement entrant dans le pipeline
+ */
+export interface EventStore {
+    /**
+     * Enregistre un ou plusieurs événements
+     */
+    append(events: QueuedEvent[]): Promise<void>;
+
+    /**
+     * Récupère un événement par son ID
+     */
+    get(eventId: string): Promise<StoredEvent | undefined>;
+
+    /**
+     * Recherche des événements
+     */
+    find(query?: EventStoreQuery): Promise<StoredEvent[]>;
+}
+
+/**
+ * Vérifie si un événement correspond aux critères (hors pagination)
+ */
+export function matchesEventStoreQuery(event: StoredEvent, query: EventStoreQuery = {}): boolean {
+    if (query.eventType) {
+        const types = Array.isArray(query.eventType) ? query.eventType : [query.eventType];
+        if (!types.includes(event.eventType)) return false;
+    }
+    if (query.correlationId && event.correlationId !== query.correlationId) return false;
+    if (query.tenantId && event.tenantId !== query.tenantId) return false;
+    if (query.from && event.createdAt < query.from) return false;
+    if (query.to && event.createdAt >= query.to) return false;
+    return true;
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { QueuedEvent } from '../types/interfaces';
+import { EventStore, EventStoreQuery, StoredEvent, matchesEventStoreQuery } from './event-store.interface';
+
+/**
+ * EventStore en mémoire
+ * Les événements sont perdus au redémarrage : réservé aux tests et au développement
+ */
+@Injectable()
+export class InMemoryEventStore implements EventStore {
+    private readonly events = new Map<string, StoredEvent>();
+
+    async append(events: QueuedEvent[]): Promise<void> {
+        const recordedAt = new Date();
+        for (const event of events) {
+            this.events.set(event.eventId, { ...event, recordedAt });
+        }
+    }
+
+    async get(eventId: string): Promise<StoredEvent | undefined> {
+        const event = this.events.get(eventId);
+        return event ? { ...event } : undefined;
+    }
+
+    async find(query: EventStoreQuery = {}): Promise<StoredEvent[]> {
+        const offset = query.offset || 0;
+        const matching = Array.from(this.events.values())
+            .filter(event => matchesEventStoreQuery(event, query))
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+        return matching
+            .slice(offset, query.limit ? offset + query.limit : undefined)
+            .map(event => ({ ...event }));
+    }
+}
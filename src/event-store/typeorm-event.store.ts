@@ -0,0 +1,100 @@
+import { Injectable, Inject, Optional, forwardRef } from '@nestjs/common';
+import { And, DataSource, EntitySchema, FindOptionsWhere, In, LessThan, MoreThanOrEqual, Repository } from 'typeorm';
+import { PackageConfig, QueuedEvent } from '../types/interfaces';
+import { EventStore, EventStoreQuery, StoredEvent } from './event-store.interface';
+import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+
+const schemas = new Map<string, EntitySchema<StoredEvent>>();
+
+/**
+ * Schéma TypeORM de la table de l'EventStore (`${tablePrefix}event_store`)
+ * À déclarer dans les `entities` de la DataSource de l'application.
+ */
+export function getEventStoreEntitySchema(tablePrefix: string = ''): EntitySchema<StoredEvent> {
+    const existing = schemas.get(tablePrefix);
+    if (existing) {
+        return existing;
+    }
+
+    const tableName = `${tablePrefix}event_store`;
+    const schema = new EntitySchema<StoredEvent>({
+        name: `${tablePrefix}StoredEvent`,
+        tableName,
+        columns: {
+            eventId: { type: String, primary: true, length: 64 },
+            eventType: { type: String, length: 255 },
+            payload: { type: 'simple-json' },
+            correlationId: { type: String, length: 64 },
+            causationId: { type: String, length: 64, nullable: true },
+            tenantId: { type: String, length: 64, nullable: true },
+            options: { type: 'simple-json', nullable: true },
+            attempt: { type: Number, nullable: true },
+            createdAt: { type: Date },
+            recordedAt: { type: Date }
+        },
+        indices: [
+            { name: `IDX_${tableName}_type_created`, columns: ['eventType', 'createdAt'] },
+            { name: `IDX_${tableName}_correlation`, columns: ['correlationId'] }
+        ]
+    });
+
+    schemas.set(tablePrefix, schema);
+    return schema;
+}
+
+/**
+ * EventStore TypeORM (SQLite, PostgreSQL, MySQL...)
+ * Utilise la DataSource de l'application et PackageConfig.tablePrefix
+ */
+@Injectable()
+export class TypeOrmEventStore implements EventStore {
+    private readonly repository: Repository<StoredEvent>;
+
+    constructor(
+        dataSource: DataSource,
+        @Optional() @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) config?: PackageConfig
+    ) {
+        this.repository = dataSource.getRepository(getEventStoreEntitySchema(config?.tablePrefix));
+    }
+
+    async append(events: QueuedEvent[]): Promise<void> {
+        if (events.length === 0) {
+            return;
+        }
+
+        const recordedAt = new Date();
+        await this.repository.save(events.map(event => ({ ...event, recordedAt })));
+    }
+
+    async get(eventId: string): Promise<StoredEvent | undefined> {
+        return (await this.repository.findOneBy({ eventId })) ?? undefined;
+    }
+
+    async find(query: EventStoreQuery = {}): Promise<StoredEvent[]> {
+        const where: FindOptionsWhere<StoredEvent> = {};
+
+        if (query.eventType) {
+            where.eventType = Array.isArray(query.eventType) ? In(query.eventType) : query.eventType;
+        }
+        if (query.correlationId) {
+            where.correlationId = query.correlationId;
+        }
+        if (query.tenantId) {
+            where.tenantId = query.tenantId;
+        }
+        if (query.from && query.to) {
+            where.createdAt = And(MoreThanOrEqual(query.from), LessThan(query.to));
+        } else if (query.from) {
+            where.createdAt = MoreThanOrEqual(query.from);
+        } else if (query.to) {
+            where.createdAt = LessThan(query.to);
+        }
+
+        return this.repository.find({
+            where,
+            order: { createdAt: 'ASC' },
+            skip: query.offset,
+            take: query.limit
+        });
+    }
+}
@@ -0,0 +1,32 @@
+import { EventTypesConfig } from '../types/interfaces';
+
+/**
+ * Source de la configuration des types d'événements
+ * Permet de modifier canaux et activation à l'exécution (base de données, service de configuration...)
+ */
+export interface EventTypeConfigSource {
+    /**
+     * Charge la configuration complète et à jour des types d'événements
+     */
+    load(): Promise<EventTypesConfig<any>>;
+
+    /**
+     * Intervalle de rechargement (en ms) ; sans valeur, la configuration n'est chargée qu'au démarrage
+     */
+    readonly refreshInterval?: number;
+}
+
+/**
+ * Nature d'une modification de configuration
+ */
+export type EventTypeConfigChangeKind = 'added' | 'updated' | 'removed';
+
+/**
+ * Modification détectée lors d'un rechargement (publiée en événement système config.updated)
+ */
+export interface EventTypeConfigChange {
+    eventType: string;
+    change: EventTypeConfigChangeKind;
+    enabled: boolean;
+    channels: string[];
+}
@@ -0,0 +1,23 @@
+import { EventTypesConfig } from '../types/interfaces';
+import { EventTypeConfigSource } from './event-type-config-source.interface';
+
+/** Intervalle de rechargement par défaut (en ms) */
+const DEFAULT_REFRESH_INTERVAL = 30000;
+
+/**
+ * Configuration rechargée périodiquement depuis une fonction de chargement (table EventType, API...)
+ */
+export class RefreshingEventTypeConfigSource implements EventTypeConfigSource {
+    constructor(
+        private readonly loader: () => Promise<EventTypesConfig<any>>,
+        readonly refreshInterval: number = DEFAULT_REFRESH_INTERVAL
+    ) {
+        if (refreshInterval <= 0) {
+            throw new Error('refreshInterval must be greater than 0');
+        }
+    }
+
+    async load(): Promise<EventTypesConfig<any>> {
+        return this.loader();
+    }
+}
@@ -0,0 +1,13 @@
+import { EventTypesConfig } from '../types/interfaces';
+import { EventTypeConfigSource } from './event-type-config-source.interface';
+
+/**
+ * Configuration fixe, définie au démarrage (comportement par défaut : PackageConfig.eventTypes)
+ */
+export class StaticEventTypeConfigSource implements EventTypeConfigSource {
+    constructor(private readonly eventTypes: EventTypesConfig<any>) {}
+
+    async load(): Promise<EventTypesConfig<any>> {
+        return this.eventTypes;
+    }
+}
@@ -0,0 +1,115 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EventEmissionResult } from '../types/interfaces';
+import { IdempotencyStore } from './idempotency-store.interface';
+import { withFileLock } from '../utils/file-lock';
+
+type IdempotencyEntries = Record<string, { result?: EventEmissionResult, expiresAt: number }>;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Store d'idempotence basé sur un fichier JSON
+ * Les clés survivent aux redémarrages et sont partagées entre processus
+ * utilisant le même répertoire de données (comme FileQueueProvider)
+ */
+@Injectable()
+export class FileIdempotencyStore implements IdempotencyStore {
+    private readonly logger = new Logger(FileIdempotencyStore.name);
+    private readonly filePath: string;
+    private readonly lockPath: string;
+
+    constructor(storeName: string = 'idempotency', private readonly dataDir: string = './queue-data') {
+        this.filePath = path.join(dataDir, `${storeName}-keys.json`);
+        this.lockPath = `${this.filePath}.lock`;
+    }
+
+    /**
+     * Lit les entrées depuis le fichier en restaurant les dates
+     */
+    private async readEntries(): Promise<IdempotencyEntries> {
+        try {
+            const data = await fs.readFile(this.filePath, 'utf8');
+            return JSON.parse(data, (_key, value) =>
+                typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+            );
+        } catch (error) {
+            // Fichier n'existe pas encore ou vide
+            return {};
+        }
+    }
+
+    private async writeEntries(entries: IdempotencyEntries): Promise<void> {
+        try {
+            await fs.writeFile(this.filePath, JSON.stringify(entries, null, 2));
+        } catch (error) {
+            this.logger.error(`Failed to write idempotency keys: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async get(key: string): Promise<EventEmissionResult | undefined> {
+        const entries = await this.readEntries();
+        const entry = entries[key];
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+
+        return entry.result;
+    }
+
+    async reserve(key: string, ttl: number): Promise<boolean> {
+        return this.updateEntries(entries => {
+            if (entries[key]) {
+                return false;
+            }
+
+            entries[key] = { expiresAt: Date.now() + ttl };
+            return true;
+        });
+    }
+
+    async set(key: string, result: EventEmissionResult, ttl: number): Promise<void> {
+        await this.updateEntries(entries => {
+            entries[key] = { result, expiresAt: Date.now() + ttl };
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.updateEntries(entries => {
+            delete entries[key];
+        });
+    }
+
+    /**
+     * Lecture-modification-écriture sous verrou, partagée entre processus
+     * Les clés expirées sont purgées à chaque écriture
+     */
+    private async updateEntries<R>(update: (entries: IdempotencyEntries) => R): Promise<R> {
+        await fs.mkdir(this.dataDir, { recursive: true });
+
+        return withFileLock(this.lockPath, async () => {
+            const entries = await this.readEntries();
+            const now = Date.now();
+
+            for (const [existingKey, entry] of Object.entries(entries)) {
+                if (entry.expiresAt <= now) {
+                    delete entries[existingKey];
+                }
+            }
+
+            const result = update(entries);
+            await this.writeEntries(entries);
+            return result;
+        });
+    }
+
+    /**
+     * Factory method to create FileIdempotencyStore
+     */
+    static create(storeName: string = 'idempotency', dataDir: string = './queue-data'): FileIdempotencyStore {
+        return new FileIdempotencyStore(storeName, dataDir);
+    }
+}
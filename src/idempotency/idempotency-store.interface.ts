@@ -0,0 +1,30 @@
+import { EventEmissionResult } from '../types/interfaces';
+
+/**
+ * Stockage des résultats d'émission indexés par clé d'idempotence
+ * Permet de renvoyer le résultat original lorsqu'une émission est rejouée
+ */
+export interface IdempotencyStore {
+    /**
+     * Récupère le résultat enregistré pour une clé (undefined si absent ou expiré)
+     */
+    get(key: string): Promise<EventEmissionResult | undefined>;
+
+    /**
+     * Réserve une clé de manière atomique avant l'émission (set-if-absent, marqueur « en cours » sans résultat)
+     * Retourne false si la clé existe déjà : résultat enregistré ou émission identique en cours
+     * @param ttl Durée de la réservation (en ms), remplacée par la fenêtre de déduplication une fois le résultat enregistré
+     */
+    reserve(key: string, ttl: number): Promise<boolean>;
+
+    /**
+     * Enregistre le résultat d'une émission pour la durée de la fenêtre de déduplication
+     * @param ttl Durée de conservation (en ms)
+     */
+    set(key: string, result: EventEmissionResult, ttl: number): Promise<void>;
+
+    /**
+     * Supprime une clé (optionnel) ; libère la réservation d'une émission en échec
+     */
+    delete?(key: string): Promise<void>;
+}
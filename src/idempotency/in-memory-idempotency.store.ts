@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { EventEmissionResult } from '../types/interfaces';
+import { IdempotencyStore } from './idempotency-store.interface';
+
+/**
+ * Store d'idempotence en mémoire
+ * Suffisant pour une instance unique, les clés sont perdues au redémarrage
+ */
+@Injectable()
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+    private readonly entries = new Map<string, { result?: EventEmissionResult, expiresAt: number }>();
+
+    async get(key: string): Promise<EventEmissionResult | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        return entry.result;
+    }
+
+    async reserve(key: string, ttl: number): Promise<boolean> {
+        this.purgeExpired();
+        if (this.entries.has(key)) {
+            return false;
+        }
+
+        // Aucun await entre la vérification et l'écriture : atomique dans le processus
+        this.entries.set(key, { expiresAt: Date.now() + ttl });
+        return true;
+    }
+
+    async set(key: string, result: EventEmissionResult, ttl: number): Promise<void> {
+        this.purgeExpired();
+        this.entries.set(key, { result, expiresAt: Date.now() + ttl });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Supprime les entrées expirées pour borner la mémoire utilisée
+     */
+    private purgeExpired(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+    }
+}
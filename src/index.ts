@@ -11,6 +11,17 @@ export { NotificationOrchestratorService } from './services/notification-orchest
 export { QueueManagerService } from './services/queue-manager.service';
 export { EventHandlerManagerService } from './services/event-handler-manager.service';
 export { HandlerQueueManagerService } from './services/handler-queue-manager.service';
+export { EventSchedulerService } from './services/event-scheduler.service';
+export { OutboxRelayService } from './services/outbox-relay.service';
+export { EventStoreService, EventReplayOptions, EventReplayResult } from './services/event-store.service';
+export { EventStatusService } from './services/event-status.service';
+export { SystemEventService, SystemEventListener } from './services/system-event.service';
+export { EventTypeConfigService } from './services/event-type-config.service';
+export { ConfigurationValidatorService } from './services/configuration-validator.service';
+export { ProviderHealthService } from './services/provider-health.service';
+export { PreferenceService, NotificationPreferenceUpdate } from './services/preference.service';
+export { UnsubscribeService } from './services/unsubscribe.service';
+export { EscalationService } from './services/escalation.service';
 
 // ========== QUEUE PROVIDERS ==========
 // Note: Bull et BullMQ providers ne sont pas exportés car ils nécessitent des dépendances
@@ -24,7 +35,8 @@ export { EventHandler } from './interfaces/event-handler.interface';
 export {
     HandlerQueueConfig,
     QueuedHandlerJob,
-    EventHandlerContext
+    EventHandlerContext,
+    HandlerExecutionResult
 } from './types/handler-queue.types';
 
 // Recipients
@@ -35,6 +47,123 @@ export {
     RecipientType
 } from './loaders/recipient-loader.interface';
 
+// ========== IDEMPOTENCE ==========
+export { IdempotencyStore } from './idempotency/idempotency-store.interface';
+export { InMemoryIdempotencyStore } from './idempotency/in-memory-idempotency.store';
+export { FileIdempotencyStore } from './idempotency/file-idempotency.store';
+
+// ========== PLANIFICATION ==========
+export {
+    EventSchedule,
+    ScheduleFilter,
+    ScheduleStore,
+    ScheduledPayloadFactory,
+    RecurringScheduleOptions
+} from './scheduling/schedule-store.interface';
+export { InMemoryScheduleStore } from './scheduling/in-memory-schedule.store';
+export { FileScheduleStore } from './scheduling/file-schedule.store';
+export { CronExpression } from './scheduling/cron-expression';
+export { DeliveryPreferences, isWithinDeliveryWindow, getNextDeliverySlot } from './scheduling/delivery-window';
+
+// ========== OUTBOX ==========
+export {
+    OutboxEventRecord,
+    OutboxEventStatus,
+    getOutboxEntitySchema,
+    getOutboxTableName
+} from './outbox/outbox-event.entity';
+
+// ========== EVENT STORE ==========
+export { EventStore, EventStoreQuery, StoredEvent } from './event-store/event-store.interface';
+export { InMemoryEventStore } from './event-store/in-memory-event.store';
+export { TypeOrmEventStore, getEventStoreEntitySchema } from './event-store/typeorm-event.store';
+
+// ========== SUIVI DES STATUTS ==========
+export {
+    EventStatusStore,
+    EventStatusRecord,
+    EventProcessingStatus,
+    isTerminalStatus
+} from './status/event-status-store.interface';
+export { InMemoryEventStatusStore } from './status/in-memory-event-status.store';
+export { FileEventStatusStore } from './status/file-event-status.store';
+
+// ========== REGISTRE DES ENVOIS ==========
+export { DeliveryLedger, DeliveryRecord } from './delivery/delivery-ledger.interface';
+export { InMemoryDeliveryLedger } from './delivery/in-memory-delivery.ledger';
+export { FileDeliveryLedger } from './delivery/file-delivery.ledger';
+
+// ========== PRÉFÉRENCES DE NOTIFICATION ==========
+export {
+    ANY_PREFERENCE,
+    NotificationPreference,
+    PreferenceStore,
+    getCategoryPreferenceKey,
+    resolvePreference
+} from './preferences/preference-store.interface';
+export { InMemoryPreferenceStore } from './preferences/in-memory-preference.store';
+export { TypeOrmPreferenceStore, getPreferenceEntitySchema } from './preferences/typeorm-preference.store';
+
+// ========== ESCALADE ==========
+export { EscalationRecord, EscalationStatus, EscalationStore } from './escalation/escalation-store.interface';
+export { InMemoryEscalationStore } from './escalation/in-memory-escalation.store';
+export { FileEscalationStore } from './escalation/file-escalation.store';
+export { TypeOrmEscalationStore, getEscalationEntitySchema } from './escalation/typeorm-escalation.store';
+
+// ========== DÉSINSCRIPTION ==========
+export {
+    UnsubscribeOptions,
+    UnsubscribeScope,
+    UnsubscribeTokenPayload,
+    UnsubscribeTokenSigner,
+    createUnsubscribeHelpers,
+    getUnsubscribeScope,
+    runWithUnsubscribeScope
+} from './unsubscribe/unsubscribe-token';
+export { UnsubscribeController } from './unsubscribe/unsubscribe.controller';
+
+// ========== CONTEXTE D'ÉVÉNEMENT ==========
+export {
+    EventContext,
+    CORRELATION_ID_HEADER,
+    runWithEventContext,
+    getEventContext,
+    createCorrelationId
+} from './context/event-context';
+export { EventContextInterceptor, EventContextMiddleware } from './context/event-context.interceptor';
+
+// ========== CONFIGURATION DYNAMIQUE ==========
+export {
+    EventTypeConfigSource,
+    EventTypeConfigChange,
+    EventTypeConfigChangeKind
+} from './event-types/event-type-config-source.interface';
+export { StaticEventTypeConfigSource } from './event-types/static-event-type-config.source';
+export { RefreshingEventTypeConfigSource } from './event-types/refreshing-event-type-config.source';
+
+// ========== MULTI-TENANT ==========
+export {
+    TenantConfig,
+    TenantConfigResolver,
+    TenantEventTypeOverride,
+    applyTenantOverrides
+} from './tenancy/tenant-config-resolver.interface';
+
+// ========== VALIDATION ==========
+export { validatePayload, assertValidPayload } from './validation/payload-validator';
+export { EventPayloadValidationError } from './errors/event-payload-validation.error';
+export { EventCompletionTimeoutError } from './errors/event-completion-timeout.error';
+export { ConfigurationValidationError } from './errors/configuration-validation.error';
+export { InvalidUnsubscribeTokenError } from './errors/invalid-unsubscribe-token.error';
+export { UnrecoverableJobError } from './errors/unrecoverable-job.error';
+
+// ========== NOUVELLES TENTATIVES ==========
+export { DEFAULT_RETRY_POLICY, resolveRetryPolicy, getRetryDelay } from './utils/retry-policy';
+
+// ========== CIRCUIT BREAKER ==========
+export { CircuitBreaker, CircuitStateListener, DEFAULT_CIRCUIT_BREAKER_OPTIONS, PROVIDER_ERROR_REASON } from './utils/circuit-breaker';
+export { RecipientDuplicate, deduplicateRecipients } from './utils/recipient-deduplication';
+
 // ========== PROVIDERS ==========
 export { BaseNotificationProvider } from './providers/base-notification-provider';
 
@@ -58,6 +187,18 @@ export {
 } from './decorators/injectable-notifier.decorator';
 export type { NotifierMetadata } from './decorators/injectable-notifier.decorator';
 
+// Emission Decorators
+export {
+    EmitsEvent,
+    EmitsEventDecorator,
+    EmitsEventFunction,
+    TypedEmitsEvent,
+    EmitsEventOptions,
+    EmitsEventTrigger,
+    EmitsEventRegistry,
+    createEmitsEvent
+} from './decorators/emits-event.decorator';
+
 // ========== TYPES ET INTERFACES ==========
 export {
     // Configuration principale
@@ -74,6 +215,20 @@ export {
     // Configuration avancée
     QueueConfig,
     RetryPolicy,
+    CircuitBreakerOptions,
+    CircuitState,
+    RecipientDeduplicationOptions,
+    NotificationRedelivery,
+    NotificationEscalation,
+    EscalationStep,
+
+    // Validation des payloads
+    EventPayloadSchema,
+    JsonSchema,
+    JsonSchemaType,
+    PayloadValidatorFunction,
+    PayloadValidationIssue,
+    ConfigurationIssue,
 
     // Émission et résultats
     EmitOptions,
@@ -81,6 +236,9 @@ export {
     EventEmissionResult,
     NotificationContext,
     QueuedEvent,
+    BatchEmitItem,
+    BatchEmissionResult,
+    BatchEmissionItemResult,
 
     // Provider interface
     NotificationProvider,
@@ -89,7 +247,17 @@ export {
     ProviderStats,
     SystemEvent,
 
-    QueueProvider
+    QueueProvider,
+    QueueBulkJob,
+    JobRemovalResult,
+    EventProcessingOptions,
+    EventCancellationResult,
+
+    // Dry-run
+    EmissionPlan,
+    ChannelPlan,
+    PlannedRecipient,
+    NotificationPreview
 } from './types/interfaces';
 
 // ========== TEMPLATE ENGINE ==========
@@ -101,7 +269,16 @@ export {
     EVENT_TYPES_CONFIG,
     PROVIDERS_CONFIG,
     QUEUE_PROVIDER_TOKEN,
-    RECIPIENT_LOADER_TOKEN
+    RECIPIENT_LOADER_TOKEN,
+    IDEMPOTENCY_STORE_TOKEN,
+    SCHEDULE_STORE_TOKEN,
+    EVENT_STORE_TOKEN,
+    EVENT_STATUS_STORE_TOKEN,
+    TENANT_CONFIG_RESOLVER_TOKEN,
+    EVENT_TYPE_CONFIG_SOURCE_TOKEN,
+    DELIVERY_LEDGER_TOKEN,
+    PREFERENCE_STORE_TOKEN,
+    ESCALATION_STORE_TOKEN
 } from './module/event-notifications.module';
 
 
@@ -1,3 +1,5 @@
+import type { NotificationContext } from '../types/interfaces';
+
 /**
  * Interface de base pour les destinataires
  */
@@ -6,8 +8,9 @@ export interface BaseRecipient {
     name: string;
     preferences?: {
         enabled: boolean;
-        schedule?: string; // cron expression pour planifier les notifications
-        timezone?: string;
+        schedule?: string; // cron expression des créneaux d'envoi autorisés
+        quietHours?: { start: string; end: string }; // plage sans notification (HH:mm), reportée à sa fin
+        timezone?: string; // fuseau IANA d'évaluation de schedule et quietHours (UTC par défaut)
     };
 }
 export enum RecipientType {
@@ -38,7 +41,8 @@ export interface RecipientLoader {
      * Charge les destinataires pour un événement donné
      * @param eventType Le type d'événement (ex: 'user.signup', 'system.error')
      * @param payload Les données de l'événement
+     * @param context Contexte de l'événement (tenantId, correlationId...)
      * @returns Les destinataires avec toutes leurs informations de contact
      */
-    load(eventType: string, payload: any): Promise<RecipientDistribution[]>;
+    load(eventType: string, payload: any, context?: NotificationContext): Promise<RecipientDistribution[]>;
 }
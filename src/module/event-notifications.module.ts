@@ -1,4 +1,4 @@
-import {DynamicModule, Module, forwardRef, Logger, Provider} from '@nestjs/common';
+import {DynamicModule, Module, forwardRef, Logger, Provider, Type} from '@nestjs/common';
 import {
     EventPayloads, NotificationModuleAsyncOptions, NotificationModuleOptions, NotificationModuleOptionsWithoutMode,
     PackageConfig,
@@ -11,6 +11,32 @@ import { QueueManagerService } from '../services/queue-manager.service';
 import { HandlerQueueManagerService } from '../services/handler-queue-manager.service';
 import { EventHandlerManagerService } from '../services/event-handler-manager.service';
 import { QueueProvider } from '../types/interfaces';
+import { EventSchedulerService } from '../services/event-scheduler.service';
+import { OutboxRelayService } from '../services/outbox-relay.service';
+import { EventStoreService } from '../services/event-store.service';
+import { EventStatusService } from '../services/event-status.service';
+import { InMemoryIdempotencyStore } from '../idempotency/in-memory-idempotency.store';
+import { FileScheduleStore } from '../scheduling/file-schedule.store';
+import { EventStore } from '../event-store/event-store.interface';
+import { EventStatusStore } from '../status/event-status-store.interface';
+import { InMemoryEventStatusStore } from '../status/in-memory-event-status.store';
+import { FileEventStatusStore } from '../status/file-event-status.store';
+import { TenantConfigResolver } from '../tenancy/tenant-config-resolver.interface';
+import { SystemEventService } from '../services/system-event.service';
+import { EventTypeConfigService } from '../services/event-type-config.service';
+import { StaticEventTypeConfigSource } from '../event-types/static-event-type-config.source';
+import { ConfigurationValidatorService } from '../services/configuration-validator.service';
+import { ProviderHealthService } from '../services/provider-health.service';
+import { DeliveryLedger } from '../delivery/delivery-ledger.interface';
+import { PreferenceStore } from '../preferences/preference-store.interface';
+import { PreferenceService } from '../services/preference.service';
+import { UnsubscribeService } from '../services/unsubscribe.service';
+import { UnsubscribeController } from '../unsubscribe/unsubscribe.controller';
+import { InMemoryDeliveryLedger } from '../delivery/in-memory-delivery.ledger';
+import { FileDeliveryLedger } from '../delivery/file-delivery.ledger';
+import { EscalationService } from '../services/escalation.service';
+import { EscalationStore } from '../escalation/escalation-store.interface';
+import { FileEscalationStore } from '../escalation/file-escalation.store';
 
 
 /**
@@ -21,6 +47,15 @@ export const EVENT_TYPES_CONFIG = Symbol('EVENT_TYPES_CONFIG');
 export const PROVIDERS_CONFIG = Symbol('PROVIDERS_CONFIG');
 export const QUEUE_PROVIDER_TOKEN = Symbol('QUEUE_PROVIDER_TOKEN');
 export const RECIPIENT_LOADER_TOKEN = Symbol('RECIPIENT_LOADER_TOKEN');
+export const IDEMPOTENCY_STORE_TOKEN = Symbol('IDEMPOTENCY_STORE_TOKEN');
+export const SCHEDULE_STORE_TOKEN = Symbol('SCHEDULE_STORE_TOKEN');
+export const EVENT_STORE_TOKEN = Symbol('EVENT_STORE_TOKEN');
+export const EVENT_STATUS_STORE_TOKEN = Symbol('EVENT_STATUS_STORE_TOKEN');
+export const TENANT_CONFIG_RESOLVER_TOKEN = Symbol('TENANT_CONFIG_RESOLVER_TOKEN');
+export const EVENT_TYPE_CONFIG_SOURCE_TOKEN = Symbol('EVENT_TYPE_CONFIG_SOURCE_TOKEN');
+export const DELIVERY_LEDGER_TOKEN = Symbol('DELIVERY_LEDGER_TOKEN');
+export const PREFERENCE_STORE_TOKEN = Symbol('PREFERENCE_STORE_TOKEN');
+export const ESCALATION_STORE_TOKEN = Symbol('ESCALATION_STORE_TOKEN');
 
 /**
  * Factory pour créer le QueueProvider selon la configuration
@@ -97,6 +132,74 @@ function createMockRecipientLoader(): any {
     };
 }
 
+/**
+ * Crée le provider d'un store configurable
+ * Accepte une classe injectable, une instance déjà construite, ou utilise l'implémentation par défaut
+ */
+function createStoreProvider<S>(
+    token: symbol,
+    store: Type<S> | S | undefined,
+    defaultFactory: (config: PackageConfig) => S
+): Provider {
+    if (!store) {
+        return { provide: token, useFactory: defaultFactory, inject: [EVENT_NOTIFICATIONS_CONFIG] };
+    }
+
+    return typeof store === 'function'
+        ? { provide: token, useClass: store as Type<S> }
+        : { provide: token, useValue: store };
+}
+
+/**
+ * Store de statuts par défaut
+ * Avec la queue fichier par défaut, un fichier partagé permet aux workers de publier leurs résultats.
+ * Une queue fournie par l'application (Bull/BullMQ) a des workers sur d'autres machines : hors mode 'api',
+ * l'option eventStatusStore doit alors désigner un store partagé, vérifié au démarrage.
+ */
+function createDefaultEventStatusStore(config: PackageConfig, appQueueProvider: boolean): EventStatusStore {
+    if (!config.queue) {
+        return new InMemoryEventStatusStore();
+    }
+
+    if (appQueueProvider) {
+        return (config.mode || 'api') === 'api' ? new InMemoryEventStatusStore() : null;
+    }
+
+    return FileEventStatusStore.create(config.queue.prefix || 'notifications', process.env.QUEUE_DATA_DIR || './queue-data');
+}
+
+/**
+ * Registre des envois par défaut
+ * Avec la queue fichier par défaut, un fichier partagé permet aux workers de voir les envois déjà effectués.
+ * Un fichier local ne protège pas des workers sur d'autres machines (queue fournie par l'application) :
+ * hors mode 'api', l'option deliveryLedger doit alors désigner un registre partagé, signalé au démarrage sinon.
+ */
+function createDefaultDeliveryLedger(config: PackageConfig, appQueueProvider: boolean): DeliveryLedger {
+    if (!config.queue) {
+        return new InMemoryDeliveryLedger();
+    }
+
+    if (appQueueProvider) {
+        return (config.mode || 'api') === 'api' ? new InMemoryDeliveryLedger() : null;
+    }
+
+    return FileDeliveryLedger.create(config.queue.prefix || 'notifications', process.env.QUEUE_DATA_DIR || './queue-data');
+}
+
+/**
+ * Suivi des escalades par défaut
+ * Avec la queue fichier par défaut, un fichier partagé permet aux workers de voir les acquittements de l'API.
+ * Une queue fournie par l'application (Bull/BullMQ) a des workers sur d'autres machines : l'option
+ * escalationStore doit alors désigner un store partagé (TypeOrmEscalationStore...), vérifié au démarrage.
+ */
+function createDefaultEscalationStore(config: PackageConfig): EscalationStore {
+    if (!config.queue) {
+        return null;
+    }
+
+    return FileEscalationStore.create(config.queue.prefix || 'notifications', process.env.QUEUE_DATA_DIR || './queue-data');
+}
+
 /**
  * Module principal pour les notifications d'événements
  * Architecture simplifiée avec drivers pré-configurés
@@ -140,6 +243,50 @@ export class EventNotificationsModule {
                     provide: EventEmitterService,
                     useClass: EventEmitterService,
                 },
+                {
+                    provide: EventSchedulerService,
+                    useClass: EventSchedulerService,
+                },
+                {
+                    provide: OutboxRelayService,
+                    useClass: OutboxRelayService,
+                },
+                {
+                    provide: EventStoreService,
+                    useClass: EventStoreService,
+                },
+                {
+                    provide: EventStatusService,
+                    useClass: EventStatusService,
+                },
+                {
+                    provide: SystemEventService,
+                    useClass: SystemEventService,
+                },
+                {
+                    provide: EventTypeConfigService,
+                    useClass: EventTypeConfigService,
+                },
+                {
+                    provide: ConfigurationValidatorService,
+                    useClass: ConfigurationValidatorService,
+                },
+                {
+                    provide: ProviderHealthService,
+                    useClass: ProviderHealthService,
+                },
+                {
+                    provide: PreferenceService,
+                    useClass: PreferenceService,
+                },
+                {
+                    provide: UnsubscribeService,
+                    useClass: UnsubscribeService,
+                },
+                {
+                    provide: EscalationService,
+                    useClass: EscalationService,
+                },
                 ...(options.queueProvider ?
                         [{provide: QUEUE_PROVIDER_TOKEN,useClass: options.queueProvider}] :
                     [{
@@ -152,17 +299,52 @@ export class EventNotificationsModule {
                 ...(options.recipientLoader ?
                         [{provide: RECIPIENT_LOADER_TOKEN, useClass: options.recipientLoader}]:
                         [{ provide: RECIPIENT_LOADER_TOKEN, useFactory: () =>  createMockRecipientLoader()}]
-                )
+                ),
+                createStoreProvider(IDEMPOTENCY_STORE_TOKEN, options.idempotencyStore, () => new InMemoryIdempotencyStore()),
+                createStoreProvider(SCHEDULE_STORE_TOKEN, options.scheduleStore, () =>
+                    FileScheduleStore.create('schedules', process.env.QUEUE_DATA_DIR || './queue-data')),
+                createStoreProvider<EventStore>(EVENT_STORE_TOKEN, options.eventStore, (): EventStore => null),
+                createStoreProvider<EventStatusStore>(EVENT_STATUS_STORE_TOKEN, options.eventStatusStore, config =>
+                    createDefaultEventStatusStore(config, !!options.queueProvider)),
+                createStoreProvider<TenantConfigResolver>(TENANT_CONFIG_RESOLVER_TOKEN, options.tenantConfigResolver, (): TenantConfigResolver => null),
+                createStoreProvider(EVENT_TYPE_CONFIG_SOURCE_TOKEN, options.eventTypeConfigSource, config =>
+                    new StaticEventTypeConfigSource(config.eventTypes)),
+                createStoreProvider<DeliveryLedger>(DELIVERY_LEDGER_TOKEN, options.deliveryLedger, config =>
+                    createDefaultDeliveryLedger(config, !!options.queueProvider)),
+                createStoreProvider<PreferenceStore>(PREFERENCE_STORE_TOKEN, options.preferenceStore, (): PreferenceStore => null),
+                createStoreProvider<EscalationStore>(ESCALATION_STORE_TOKEN, options.escalationStore,
+                    options.queueProvider ? (): EscalationStore => null : createDefaultEscalationStore)
             ],
             imports: options.imports,
+            controllers: options.unsubscribeController ? [UnsubscribeController] : [],
             exports: [
                 EventEmitterService,
                 NotificationOrchestratorService,
                 QueueManagerService,
                 HandlerQueueManagerService,
                 EventHandlerManagerService,
+                EventSchedulerService,
+                OutboxRelayService,
+                EventStoreService,
+                EventStatusService,
+                SystemEventService,
+                EventTypeConfigService,
+                ConfigurationValidatorService,
+                ProviderHealthService,
+                PreferenceService,
+                UnsubscribeService,
+                EscalationService,
                 EVENT_NOTIFICATIONS_CONFIG,
-                EVENT_TYPES_CONFIG
+                EVENT_TYPES_CONFIG,
+                IDEMPOTENCY_STORE_TOKEN,
+                SCHEDULE_STORE_TOKEN,
+                EVENT_STORE_TOKEN,
+                EVENT_STATUS_STORE_TOKEN,
+                TENANT_CONFIG_RESOLVER_TOKEN,
+                EVENT_TYPE_CONFIG_SOURCE_TOKEN,
+                DELIVERY_LEDGER_TOKEN,
+                PREFERENCE_STORE_TOKEN,
+                ESCALATION_STORE_TOKEN
             ],
             global: true
         };
@@ -175,6 +357,7 @@ export class EventNotificationsModule {
         return {
             module: EventNotificationsModule,
             imports: options.imports,
+            controllers: options.unsubscribeController ? [UnsubscribeController] : [],
             providers: [
                 {
                     provide: EVENT_NOTIFICATIONS_CONFIG,
@@ -197,6 +380,17 @@ export class EventNotificationsModule {
                 QueueManagerService,
                 HandlerQueueManagerService,
                 EventHandlerManagerService,
+                EventSchedulerService,
+                OutboxRelayService,
+                EventStoreService,
+                EventStatusService,
+                SystemEventService,
+                EventTypeConfigService,
+                ConfigurationValidatorService,
+                ProviderHealthService,
+                PreferenceService,
+                UnsubscribeService,
+                EscalationService,
                 ...(options.queueProvider ?
                         [{provide: QUEUE_PROVIDER_TOKEN,useClass: options.queueProvider}] :
                         [{
@@ -209,7 +403,21 @@ export class EventNotificationsModule {
                 ...(options.recipientLoader ?
                         [{provide: RECIPIENT_LOADER_TOKEN, useClass: options.recipientLoader}]:
                         [{ provide: RECIPIENT_LOADER_TOKEN, useFactory: () =>  createMockRecipientLoader()}]
-                )
+                ),
+                createStoreProvider(IDEMPOTENCY_STORE_TOKEN, options.idempotencyStore, () => new InMemoryIdempotencyStore()),
+                createStoreProvider(SCHEDULE_STORE_TOKEN, options.scheduleStore, () =>
+                    FileScheduleStore.create('schedules', process.env.QUEUE_DATA_DIR || './queue-data')),
+                createStoreProvider<EventStore>(EVENT_STORE_TOKEN, options.eventStore, (): EventStore => null),
+                createStoreProvider<EventStatusStore>(EVENT_STATUS_STORE_TOKEN, options.eventStatusStore, config =>
+                    createDefaultEventStatusStore(config, !!options.queueProvider)),
+                createStoreProvider<TenantConfigResolver>(TENANT_CONFIG_RESOLVER_TOKEN, options.tenantConfigResolver, (): TenantConfigResolver => null),
+                createStoreProvider(EVENT_TYPE_CONFIG_SOURCE_TOKEN, options.eventTypeConfigSource, config =>
+                    new StaticEventTypeConfigSource(config.eventTypes)),
+                createStoreProvider<DeliveryLedger>(DELIVERY_LEDGER_TOKEN, options.deliveryLedger, config =>
+                    createDefaultDeliveryLedger(config, !!options.queueProvider)),
+                createStoreProvider<PreferenceStore>(PREFERENCE_STORE_TOKEN, options.preferenceStore, (): PreferenceStore => null),
+                createStoreProvider<EscalationStore>(ESCALATION_STORE_TOKEN, options.escalationStore,
+                    options.queueProvider ? (): EscalationStore => null : createDefaultEscalationStore)
             ],
             exports: [
                 EventEmitterService,
@@ -217,8 +425,28 @@ export class EventNotificationsModule {
                 QueueManagerService,
                 HandlerQueueManagerService,
                 EventHandlerManagerService,
+                EventSchedulerService,
+                OutboxRelayService,
+                EventStoreService,
+                EventStatusService,
+                SystemEventService,
+                EventTypeConfigService,
+                ConfigurationValidatorService,
+                ProviderHealthService,
+                PreferenceService,
+                UnsubscribeService,
+                EscalationService,
                 EVENT_NOTIFICATIONS_CONFIG,
                 EVENT_TYPES_CONFIG,
+                IDEMPOTENCY_STORE_TOKEN,
+                SCHEDULE_STORE_TOKEN,
+                EVENT_STORE_TOKEN,
+                EVENT_STATUS_STORE_TOKEN,
+                TENANT_CONFIG_RESOLVER_TOKEN,
+                EVENT_TYPE_CONFIG_SOURCE_TOKEN,
+                DELIVERY_LEDGER_TOKEN,
+                PREFERENCE_STORE_TOKEN,
+                ESCALATION_STORE_TOKEN
             ],
             global: options.isGlobal ?? true
         };
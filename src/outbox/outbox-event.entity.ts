@@ -0,0 +1,70 @@
+import { EntitySchema } from 'typeorm';
+import { EmitOptions, NotificationContext } from '../types/interfaces';
+
+/**
+ * Statut d'une ligne de l'outbox
+ */
+export type OutboxEventStatus = 'pending' | 'processing' | 'dispatched' | 'failed';
+
+/**
+ * Événement écrit dans l'outbox au sein de la transaction de l'appelant
+ */
+export interface OutboxEventRecord {
+    id: string;
+    eventType: string;
+    payload: any;
+    context: NotificationContext;
+    options?: EmitOptions;
+    status: OutboxEventStatus;
+    attempts: number;
+    lastError?: string;
+    lockedUntil?: Date;
+    createdAt: Date;
+    dispatchedAt?: Date;
+}
+
+const schemas = new Map<string, EntitySchema<OutboxEventRecord>>();
+
+/**
+ * Nom de la table d'outbox pour un préfixe donné (PackageConfig.tablePrefix)
+ */
+export function getOutboxTableName(tablePrefix: string = ''): string {
+    return `${tablePrefix}event_outbox`;
+}
+
+/**
+ * Schéma TypeORM de la table d'outbox
+ * À déclarer dans les `entities` de la DataSource de l'application.
+ * Une seule instance est créée par préfixe afin que les repositories résolvent la même métadonnée.
+ */
+export function getOutboxEntitySchema(tablePrefix: string = ''): EntitySchema<OutboxEventRecord> {
+    const existing = schemas.get(tablePrefix);
+    if (existing) {
+        return existing;
+    }
+
+    const tableName = getOutboxTableName(tablePrefix);
+    const schema = new EntitySchema<OutboxEventRecord>({
+        name: `${tablePrefix}OutboxEvent`,
+        tableName,
+        columns: {
+            id: { type: String, primary: true, length: 64 },
+            eventType: { type: String, length: 255 },
+            payload: { type: 'simple-json' },
+            context: { type: 'simple-json' },
+            options: { type: 'simple-json', nullable: true },
+            status: { type: String, length: 20, default: 'pending' },
+            attempts: { type: Number, default: 0 },
+            lastError: { type: 'text', nullable: true },
+            lockedUntil: { type: Date, nullable: true },
+            createdAt: { type: Date },
+            dispatchedAt: { type: Date, nullable: true }
+        },
+        indices: [
+            { name: `IDX_${tableName}_status_created`, columns: ['status', 'createdAt'] }
+        ]
+    });
+
+    schemas.set(tablePrefix, schema);
+    return schema;
+}
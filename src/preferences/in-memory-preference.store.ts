@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { ANY_PREFERENCE, NotificationPreference, PreferenceStore, matchesPreference } from './preference-store.interface';
+
+/**
+ * PreferenceStore en mémoire
+ * Les préférences sont perdues au redémarrage : réservé aux tests et au développement
+ */
+@Injectable()
+export class InMemoryPreferenceStore implements PreferenceStore {
+    private readonly preferences = new Map<string, NotificationPreference>();
+
+    async find(recipientIds: string[], eventType?: string): Promise<NotificationPreference[]> {
+        const ids = new Set(recipientIds);
+        return Array.from(this.preferences.values())
+            .filter(preference => ids.has(preference.recipientId))
+            .filter(preference => !eventType || preference.eventType === eventType || preference.eventType === ANY_PREFERENCE)
+            .map(preference => ({ ...preference }));
+    }
+
+    async save(preferences: NotificationPreference[]): Promise<void> {
+        const updatedAt = new Date();
+        for (const preference of preferences) {
+            this.preferences.set(this.getKey(preference), { ...preference, updatedAt });
+        }
+    }
+
+    async remove(recipientId: string, eventType?: string, channel?: string): Promise<void> {
+        for (const [key, preference] of this.preferences) {
+            if (matchesPreference(preference, recipientId, eventType, channel)) {
+                this.preferences.delete(key);
+            }
+        }
+    }
+
+    private getKey(preference: NotificationPreference): string {
+        return `${preference.recipientId}:${preference.eventType}:${preference.channel}`;
+    }
+}
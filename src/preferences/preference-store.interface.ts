@@ -0,0 +1,86 @@
+/** Joker désignant tous les types d'événements ou tous les canaux */
+export const ANY_PREFERENCE = '*';
+
+/**
+ * Clé de préférence d'une catégorie de types d'événements (EventTypeConfig.category)
+ * Stockée à la place du type d'événement : désactiver 'category:marketing' couvre tous les événements de la catégorie.
+ */
+export function getCategoryPreferenceKey(category: string): string {
+    return `category:${category}`;
+}
+
+/**
+ * Préférence d'un destinataire pour un type d'événement et un canal
+ * eventType et channel acceptent le joker '*' : la préférence la plus précise l'emporte.
+ */
+export interface NotificationPreference {
+    recipientId: string;
+    eventType: string;
+    channel: string;
+    enabled: boolean;
+    updatedAt?: Date;
+}
+
+/**
+ * Stockage des préférences de notification des destinataires
+ * Consulté par l'orchestrateur avant chaque envoi ; modifiable via le PreferenceService
+ */
+export interface PreferenceStore {
+    /**
+     * Préférences des destinataires pour ce type d'événement ou le joker '*' (toutes si eventType est absent)
+     */
+    find(recipientIds: string[], eventType?: string): Promise<NotificationPreference[]>;
+
+    /**
+     * Crée ou remplace des préférences (clé : recipientId, eventType, channel)
+     */
+    save(preferences: NotificationPreference[]): Promise<void>;
+
+    /**
+     * Supprime les préférences d'un destinataire, éventuellement restreintes à un type d'événement et/ou un canal
+     */
+    remove(recipientId: string, eventType?: string, channel?: string): Promise<void>;
+}
+
+/**
+ * Résout la préférence applicable à un envoi, de la plus précise à la plus générale :
+ * (eventType, channel), (eventType, '*'), puis (catégorie, channel), (catégorie, '*') si le type d'événement
+ * a une catégorie, enfin ('*', channel), ('*', '*')
+ * Retourne undefined si aucune préférence ne s'applique.
+ */
+export function resolvePreference(
+    preferences: NotificationPreference[],
+    recipientId: string,
+    eventType: string,
+    channel: string,
+    category?: string
+): boolean | undefined {
+    const categoryKey = category ? getCategoryPreferenceKey(category) : undefined;
+    const candidates: Array<[string, string]> = [
+        [eventType, channel],
+        [eventType, ANY_PREFERENCE],
+        ...(categoryKey ? [[categoryKey, channel], [categoryKey, ANY_PREFERENCE]] as Array<[string, string]> : []),
+        [ANY_PREFERENCE, channel],
+        [ANY_PREFERENCE, ANY_PREFERENCE]
+    ];
+
+    for (const [candidateType, candidateChannel] of candidates) {
+        const preference = preferences.find(p =>
+            p.recipientId === recipientId && p.eventType === candidateType && p.channel === candidateChannel
+        );
+        if (preference) {
+            return preference.enabled;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Vérifie si une préférence correspond à une suppression (recipientId, eventType?, channel?)
+ */
+export function matchesPreference(preference: NotificationPreference, recipientId: string, eventType?: string, channel?: string): boolean {
+    return preference.recipientId === recipientId
+        && (eventType === undefined || preference.eventType === eventType)
+        && (channel === undefined || preference.channel === channel);
+}
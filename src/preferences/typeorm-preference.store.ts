@@ -0,0 +1,84 @@
+import { Injectable, Inject, Optional, forwardRef } from '@nestjs/common';
+import { DataSource, EntitySchema, FindOptionsWhere, In, Repository } from 'typeorm';
+import { PackageConfig } from '../types/interfaces';
+import { ANY_PREFERENCE, NotificationPreference, PreferenceStore } from './preference-store.interface';
+import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+
+const schemas = new Map<string, EntitySchema<NotificationPreference>>();
+
+/**
+ * Schéma TypeORM de la table des préférences (`${tablePrefix}notification_preferences`)
+ * À déclarer dans les `entities` de la DataSource de l'application.
+ */
+export function getPreferenceEntitySchema(tablePrefix: string = ''): EntitySchema<NotificationPreference> {
+    const existing = schemas.get(tablePrefix);
+    if (existing) {
+        return existing;
+    }
+
+    const tableName = `${tablePrefix}notification_preferences`;
+    const schema = new EntitySchema<NotificationPreference>({
+        name: `${tablePrefix}NotificationPreference`,
+        tableName,
+        columns: {
+            recipientId: { type: String, primary: true, length: 64 },
+            eventType: { type: String, primary: true, length: 255 },
+            channel: { type: String, primary: true, length: 64 },
+            enabled: { type: Boolean },
+            updatedAt: { type: Date }
+        }
+    });
+
+    schemas.set(tablePrefix, schema);
+    return schema;
+}
+
+/**
+ * PreferenceStore TypeORM (SQLite, PostgreSQL, MySQL...)
+ * Utilise la DataSource de l'application et PackageConfig.tablePrefix
+ */
+@Injectable()
+export class TypeOrmPreferenceStore implements PreferenceStore {
+    private readonly repository: Repository<NotificationPreference>;
+
+    constructor(
+        dataSource: DataSource,
+        @Optional() @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) config?: PackageConfig
+    ) {
+        this.repository = dataSource.getRepository(getPreferenceEntitySchema(config?.tablePrefix));
+    }
+
+    async find(recipientIds: string[], eventType?: string): Promise<NotificationPreference[]> {
+        if (recipientIds.length === 0) {
+            return [];
+        }
+
+        const where: FindOptionsWhere<NotificationPreference> = { recipientId: In(recipientIds) };
+        if (eventType) {
+            where.eventType = In([eventType, ANY_PREFERENCE]);
+        }
+
+        return this.repository.findBy(where);
+    }
+
+    async save(preferences: NotificationPreference[]): Promise<void> {
+        if (preferences.length === 0) {
+            return;
+        }
+
+        const updatedAt = new Date();
+        await this.repository.save(preferences.map(preference => ({ ...preference, updatedAt })));
+    }
+
+    async remove(recipientId: string, eventType?: string, channel?: string): Promise<void> {
+        const where: FindOptionsWhere<NotificationPreference> = { recipientId };
+        if (eventType !== undefined) {
+            where.eventType = eventType;
+        }
+        if (channel !== undefined) {
+            where.channel = channel;
+        }
+
+        await this.repository.delete(where);
+    }
+}
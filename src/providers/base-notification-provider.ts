@@ -1,6 +1,7 @@
 import { NotificationProvider, NotificationResult, NotificationContext } from '../types/interfaces';
 import {Recipient, RecipientDistribution} from '../loaders/recipient-loader.interface';
 import { getNotifierMetadata } from '../decorators/injectable-notifier.decorator';
+import { PROVIDER_ERROR_REASON } from '../utils/circuit-breaker';
 /**
  * Classe de base pour les providers de notification
  * Implémente les méthodes communes getChannelName() et getProviderName()
@@ -38,6 +39,22 @@ export abstract class BaseNotificationProvider<Channel extends string> implement
         return metadata?.channel || 'unknown';
     }
 
+    /**
+     * Configuration effective du provider pour un envoi
+     * Les valeurs du tenant (TenantConfig.providers[canal]) remplacent celles par défaut
+     */
+    protected getProviderConfig<C extends Record<string, any>>(context: NotificationContext, defaults: C): C {
+        return { ...defaults, ...context.metadata?.providerConfig };
+    }
+
+    /**
+     * En-têtes List-Unsubscribe et List-Unsubscribe-Post d'un destinataire, à ajouter à ses emails
+     * Renseignés par l'orchestrateur pour le type d'événement et le canal de l'envoi ({} sans option `unsubscribe`)
+     */
+    protected getListUnsubscribeHeaders(recipient: Recipient, context: NotificationContext): Record<string, string> {
+        return context.metadata?.unsubscribeHeaders?.[recipient.id] || {};
+    }
+
     /**
      * Filtre les recipients qui ont une adresse pour une propriété donnée
      */
@@ -72,7 +89,7 @@ export abstract class BaseNotificationProvider<Channel extends string> implement
             return false;
         }
 
-        // TODO: Vérifier l'horaire (schedule) si défini
+        // L'horaire (schedule, quietHours) est appliqué par l'orchestrateur, qui reporte l'envoi
         // TODO: Vérifier d'autres critères selon le type d'événement
 
         return true;
@@ -119,6 +136,18 @@ export abstract class BaseNotificationProvider<Channel extends string> implement
         return this.createNotificationResult('failed', context, metadata, error);
     }
 
+    /**
+     * Méthode utilitaire pour créer un résultat "failed" imputable au provider (service indisponible, erreur de transport)
+     * Contrairement à un échec propre au destinataire (adresse invalide...), il alimente le circuit breaker
+     */
+    protected createProviderErrorResult(
+        context: NotificationContext,
+        error: string,
+        metadata?: Record<string, any>
+    ): NotificationResult {
+        return this.createFailedResult(context, error, { ...metadata, reason: PROVIDER_ERROR_REASON });
+    }
+
     /**
      * Méthode utilitaire pour créer un résultat "sent" standard
      */
@@ -1,7 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue, Job } from 'bull';
-import { QueueProvider } from '../types/interfaces';
+import { QueueProvider, QueueBulkJob, JobRemovalResult } from '../types/interfaces';
+import { UnrecoverableJobError } from '../errors/unrecoverable-job.error';
 import { QueueConfig } from '../types/interfaces';
 
 /**
@@ -29,21 +30,28 @@ export class BullQueueProvider implements QueueProvider {
         return provider;
     }
 
+    /**
+     * Applique les options par défaut des jobs
+     */
+    private buildJobOptions(options?: any): any {
+        return {
+            attempts: 3,
+            backoff: {
+                type: 'exponential',
+                delay: 2000,
+            },
+            removeOnComplete: 100,
+            removeOnFail: 50,
+            ...options,
+        };
+    }
+
     /**
      * Add a job to the queue
      */
     async add(jobName: string, data: any, options?: any): Promise<Job> {
         try {
-            const jobOptions = {
-                attempts: 3,
-                backoff: {
-                    type: 'exponential',
-                    delay: 2000,
-                },
-                removeOnComplete: 100,
-                removeOnFail: 50,
-                ...options,
-            };
+            const jobOptions = this.buildJobOptions(options);
 
             const job = await this.queue.add(jobName, data, jobOptions);
 
@@ -56,6 +64,57 @@ export class BullQueueProvider implements QueueProvider {
         }
     }
 
+    /**
+     * Add several jobs to the queue in a single round-trip
+     */
+    async addBulk(jobs: QueueBulkJob[]): Promise<Job[]> {
+        try {
+            const added = await this.queue.addBulk(jobs.map(({ name, data, options }) => ({
+                name,
+                data,
+                opts: this.buildJobOptions(options),
+            })));
+
+            this.logger.debug(`${added.length} jobs added to Bull queue`);
+
+            return added;
+        } catch (error) {
+            this.logger.error(`Failed to add ${jobs.length} jobs to Bull queue: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a job that has not started yet
+     */
+    async remove(jobId: string): Promise<JobRemovalResult> {
+        try {
+            const job = await this.queue.getJob(jobId);
+            if (!job) {
+                return 'not_found';
+            }
+
+            const state = await job.getState();
+            if (!['waiting', 'delayed', 'paused'].includes(state)) {
+                return 'started';
+            }
+
+            try {
+                await job.remove();
+            } catch (error) {
+                // Le job a été pris par un worker entre-temps (verrouillé)
+                this.logger.debug(`Job ${jobId} could not be removed: ${error.message}`);
+                return 'started';
+            }
+
+            this.logger.debug(`Job ${jobId} removed from Bull queue`);
+            return 'removed';
+        } catch (error) {
+            this.logger.error(`Failed to remove job ${jobId} from Bull queue: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
      * Process jobs from the queue
      */
@@ -69,9 +128,7 @@ export class BullQueueProvider implements QueueProvider {
                 // process(jobName, processor)
                 const processorFunction = processorOrConcurrency;
 
-                this.queue.process(jobName, async (job: Job) => {
-                    return await processorFunction(job);
-                });
+                this.queue.process(jobName, (job: Job) => this.run(processorFunction, job));
 
                 this.logger.log(`Bull processor registered for job ${jobName}`);
             } else {
@@ -79,9 +136,7 @@ export class BullQueueProvider implements QueueProvider {
                 const concurrency = processorOrConcurrency;
 
                 if (processor) {
-                    this.queue.process(jobName, concurrency, async (job: Job) => {
-                        return await processor(job);
-                    });
+                    this.queue.process(jobName, concurrency, (job: Job) => this.run(processor, job));
 
                     this.logger.log(`Bull processor registered for job ${jobName} with concurrency ${concurrency}`);
                 }
@@ -92,6 +147,21 @@ export class BullQueueProvider implements QueueProvider {
         }
     }
 
+    /**
+     * Exécute le processor d'un job
+     * Sur UnrecoverableJobError, le job est abandonné (discard) : Bull ne le rejoue pas malgré ses tentatives restantes
+     */
+    private async run(processor: (job: Job) => Promise<any>, job: Job): Promise<any> {
+        try {
+            return await processor(job);
+        } catch (error) {
+            if (error instanceof UnrecoverableJobError) {
+                await job.discard();
+            }
+            throw error;
+        }
+    }
+
     /**
      * Check if the queue is healthy
      */
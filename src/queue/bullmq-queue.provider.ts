@@ -1,7 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
-import { Queue, Job, Worker } from 'bullmq';
-import { QueueProvider } from '../types/interfaces';
+import { Queue, Job, Worker, UnrecoverableError } from 'bullmq';
+import { QueueProvider, QueueBulkJob, JobRemovalResult } from '../types/interfaces';
+import { UnrecoverableJobError } from '../errors/unrecoverable-job.error';
 
 /**
  * BullMQ Queue Provider (Moderne - Compatible avec @nestjs/bullmq)
@@ -17,6 +18,7 @@ import { QueueProvider } from '../types/interfaces';
 export class BullMQQueueProvider implements QueueProvider {
     private readonly logger = new Logger(BullMQQueueProvider.name);
     private worker?: Worker;
+    private readonly processors = new Map<string, (job: Job) => Promise<any>>();
 
     constructor(
         @InjectQueue('notifications') private readonly queue: Queue
@@ -30,21 +32,28 @@ export class BullMQQueueProvider implements QueueProvider {
         return provider;
     }
 
+    /**
+     * Applique les options par défaut des jobs
+     */
+    private buildJobOptions(options?: any): any {
+        return {
+            attempts: 3,
+            backoff: {
+                type: 'exponential',
+                delay: 2000,
+            },
+            removeOnComplete: 100,
+            removeOnFail: 50,
+            ...options,
+        };
+    }
+
     /**
      * Add a job to the queue
      */
     async add(jobName: string, data: any, options?: any): Promise<Job> {
         try {
-            const jobOptions = {
-                attempts: 3,
-                backoff: {
-                    type: 'exponential',
-                    delay: 2000,
-                },
-                removeOnComplete: 100,
-                removeOnFail: 50,
-                ...options,
-            };
+            const jobOptions = this.buildJobOptions(options);
 
             const job = await this.queue.add(jobName, data, jobOptions);
             
@@ -57,6 +66,57 @@ export class BullMQQueueProvider implements QueueProvider {
         }
     }
 
+    /**
+     * Add several jobs to the queue in a single round-trip
+     */
+    async addBulk(jobs: QueueBulkJob[]): Promise<Job[]> {
+        try {
+            const added = await this.queue.addBulk(jobs.map(({ name, data, options }) => ({
+                name,
+                data,
+                opts: this.buildJobOptions(options),
+            })));
+
+            this.logger.debug(`${added.length} jobs added to BullMQ queue`);
+
+            return added;
+        } catch (error) {
+            this.logger.error(`Failed to add ${jobs.length} jobs to BullMQ queue: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a job that has not started yet
+     */
+    async remove(jobId: string): Promise<JobRemovalResult> {
+        try {
+            const job = await this.queue.getJob(jobId);
+            if (!job) {
+                return 'not_found';
+            }
+
+            const state = await job.getState();
+            if (!['waiting', 'delayed', 'prioritized', 'waiting-children'].includes(state)) {
+                return 'started';
+            }
+
+            try {
+                await job.remove();
+            } catch (error) {
+                // Le job a été pris par un worker entre-temps (verrouillé)
+                this.logger.debug(`Job ${jobId} could not be removed: ${error.message}`);
+                return 'started';
+            }
+
+            this.logger.debug(`Job ${jobId} removed from BullMQ queue`);
+            return 'removed';
+        } catch (error) {
+            this.logger.error(`Failed to remove job ${jobId} from BullMQ queue: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
      * Process jobs from the queue using BullMQ Worker
      */
@@ -79,18 +139,25 @@ export class BullMQQueueProvider implements QueueProvider {
                 processorFunction = processor!;
             }
 
-            // Create BullMQ Worker avec la même configuration Redis que la Queue
-            this.worker = new Worker(this.queue.name, async (job: Job) => {
-                if (job.name === jobName) {
-                    return await processorFunction(job);
-                }
-            }, {
-                connection: this.queue.opts.connection,
-                concurrency: concurrency,
-            });
+            this.processors.set(jobName, processorFunction);
+
+            if (!this.worker) {
+                // Un seul Worker par queue, qui aiguille chaque job vers le processor de son nom
+                // (un Worker par nom de job prendrait des jobs qu'il ne sait pas traiter)
+                this.worker = new Worker(this.queue.name, (job: Job) => this.dispatch(job), {
+                    connection: this.queue.opts.connection,
+                    concurrency: concurrency,
+                    autorun: false,
+                });
+                this.setupWorkerEvents();
 
-            // Setup worker event handlers
-            this.setupWorkerEvents(jobName);
+                // Démarré une fois les processors enregistrés à la suite de celui-ci
+                setImmediate(() => this.worker?.run().catch(error =>
+                    this.logger.error(`BullMQ Worker for ${this.queue.name} stopped: ${error.message}`)
+                ));
+            } else if (concurrency > this.worker.concurrency) {
+                this.worker.concurrency = concurrency;
+            }
 
             this.logger.log(`BullMQ Worker registered for job ${jobName} with concurrency ${concurrency}`);
         } catch (error) {
@@ -99,22 +166,40 @@ export class BullMQQueueProvider implements QueueProvider {
         }
     }
 
+    /**
+     * Transmet le job au processor enregistré pour son nom
+     * Un job sans processor échoue au lieu d'être marqué terminé sans traitement,
+     * un UnrecoverableJobError devient un UnrecoverableError (échec sans nouvelle tentative)
+     */
+    private async dispatch(job: Job): Promise<any> {
+        const processor = this.processors.get(job.name);
+        if (!processor) {
+            throw new Error(`No processor registered for job ${job.name} on BullMQ queue ${this.queue.name}`);
+        }
+
+        try {
+            return await processor(job);
+        } catch (error) {
+            throw error instanceof UnrecoverableJobError ? new UnrecoverableError(error.message) : error;
+        }
+    }
+
     /**
      * Setup worker event handlers
      */
-    private setupWorkerEvents(jobName: string): void {
+    private setupWorkerEvents(): void {
         if (!this.worker) return;
 
         this.worker.on('completed', (job: Job) => {
-            this.logger.debug(`BullMQ Worker completed job ${job.id} for ${jobName}`);
+            this.logger.debug(`BullMQ Worker completed job ${job.id} for ${job.name}`);
         });
 
         this.worker.on('failed', (job: Job, error: Error) => {
-            this.logger.error(`BullMQ Worker failed job ${job?.id} for ${jobName}: ${error.message}`);
+            this.logger.error(`BullMQ Worker failed job ${job?.id} for ${job?.name}: ${error.message}`);
         });
 
         this.worker.on('error', (error: Error) => {
-            this.logger.error(`BullMQ Worker error for ${jobName}: ${error.message}`);
+            this.logger.error(`BullMQ Worker error on ${this.queue.name}: ${error.message}`);
         });
     }
 
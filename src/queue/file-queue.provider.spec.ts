@@ -0,0 +1,63 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQueueProvider } from './file-queue.provider';
+import { UnrecoverableJobError } from '../errors/unrecoverable-job.error';
+
+describe('FileQueueProvider', () => {
+  let dataDir: string;
+  let provider: FileQueueProvider;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-queue-'));
+    provider = new FileQueueProvider('test', dataDir);
+  });
+
+  afterEach(async () => {
+    await provider.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const readJobs = async (): Promise<any[]> => JSON.parse(await fs.readFile(provider.getQueueFilePath(), 'utf8'));
+
+  it('should keep jobs added while a job is processed', async () => {
+    await provider.add('process-notification', { eventId: 'evt-1' });
+    (provider as any).processors.set('process-notification', async () => {
+      // Une nouvelle tentative programmée depuis le traitement du job
+      await provider.add('redeliver-notification', { eventId: 'evt-1' }, { delay: 60000 });
+      return { sent: 1 };
+    });
+
+    await (provider as any).processNextJob('process-notification');
+
+    const jobs = await readJobs();
+    expect(jobs.map(job => `${job.name}:${job.status}`))
+      .toEqual(['process-notification:completed', 'redeliver-notification:waiting']);
+    expect(jobs[0].result).toEqual({ sent: 1 });
+  });
+
+  it('should fail unrecoverable jobs without retry', async () => {
+    await provider.add('process-notification', { eventId: 'evt-1' }, { attempts: 3 });
+    (provider as any).processors.set('process-notification', async () => {
+      throw new UnrecoverableJobError('Invalid payload');
+    });
+
+    await (provider as any).processNextJob('process-notification');
+
+    expect(await readJobs()).toEqual([expect.objectContaining({ status: 'failed', attempts: 1, error: 'Invalid payload' })]);
+  });
+
+  it('should ignore a job whose id is already queued', async () => {
+    await provider.add('process-notification', { eventId: 'evt-1' }, { jobId: 'evt-1' });
+    const duplicate = await provider.add('process-notification', { eventId: 'evt-1', again: true }, { jobId: 'evt-1' });
+
+    expect(duplicate.data).toEqual({ eventId: 'evt-1' });
+    expect(await readJobs()).toHaveLength(1);
+  });
+
+  it('should not lose concurrent additions', async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, index) => provider.add('process-notification', { index })));
+
+    expect(await readJobs()).toHaveLength(10);
+  });
+});
@@ -1,7 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { QueueProvider } from '../types/interfaces';
+import { QueueProvider, QueueBulkJob, JobRemovalResult } from '../types/interfaces';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { withFileLock } from '../utils/file-lock';
+import { UnrecoverableJobError } from '../errors/unrecoverable-job.error';
 
 /**
  * File Queue Provider - Simple broker basé sur un fichier
@@ -16,12 +18,14 @@ import * as path from 'path';
 export class FileQueueProvider implements QueueProvider {
     private readonly logger = new Logger(FileQueueProvider.name);
     private readonly queueFilePath: string;
+    private readonly lockPath: string;
     private readonly processors = new Map<string, (job: any) => Promise<any>>();
     private readonly processingIntervals = new Map<string, NodeJS.Timeout>();
     private isProcessing = false;
 
     constructor(queueName: string = 'default', dataDir: string = './queue-data') {
         this.queueFilePath = path.join(dataDir, `${queueName}-queue.json`);
+        this.lockPath = `${this.queueFilePath}.lock`;
         this.ensureDataDirectory(dataDir);
         this.logger.log(`📁 File Queue Provider initialized: ${this.queueFilePath}`);
     }
@@ -62,25 +66,70 @@ export class FileQueueProvider implements QueueProvider {
         }
     }
 
+    /**
+     * Lecture-modification-écriture du fichier sous verrou
+     * Le fichier est relu à chaque modification : les jobs ajoutés entre-temps (par un processor en cours
+     * ou par un autre processus) ne sont jamais écrasés par une copie obsolète.
+     */
+    private async updateJobs<R>(update: (jobs: any[]) => R): Promise<R> {
+        return withFileLock(this.lockPath, async () => {
+            const jobs = await this.readJobs();
+            const result = update(jobs);
+            await this.writeJobs(jobs);
+            return result;
+        });
+    }
+
+    /**
+     * Met à jour un seul job, relu depuis le fichier
+     */
+    private async updateJob(jobId: string, changes: Record<string, any>): Promise<void> {
+        await this.updateJobs(jobs => {
+            const job = jobs.find(candidate => candidate.id === jobId);
+            if (job) {
+                Object.assign(job, changes);
+            }
+        });
+    }
+
+    /**
+     * Construit un job au format du fichier de queue
+     */
+    private createJob(jobName: string, data: any, options?: any): any {
+        return {
+            id: options?.jobId || `file-job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            name: jobName,
+            data,
+            options: options || {},
+            status: 'waiting',
+            createdAt: new Date().toISOString(),
+            availableAt: new Date(Date.now() + (options?.delay || 0)).toISOString(),
+            attempts: 0,
+            maxAttempts: options?.attempts || 3,
+        };
+    }
+
+    /**
+     * Ajoute les jobs dont l'ID n'est pas déjà dans la queue et retourne le job retenu pour chacun
+     * Comme Bull/BullMQ, un jobId déjà utilisé n'ajoute pas de second job
+     */
+    private addJobs(jobs: any[], newJobs: any[]): any[] {
+        return newJobs.map(job => {
+            const existing = jobs.find(candidate => candidate.id === job.id);
+            if (existing) {
+                return existing;
+            }
+            jobs.push(job);
+            return job;
+        });
+    }
+
     /**
      * Add a job to the queue
      */
     async add(jobName: string, data: any, options?: any): Promise<any> {
         try {
-            const job = {
-                id: `file-job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                name: jobName,
-                data,
-                options: options || {},
-                status: 'waiting',
-                createdAt: new Date().toISOString(),
-                attempts: 0,
-                maxAttempts: options?.attempts || 3,
-            };
-
-            const jobs = await this.readJobs();
-            jobs.push(job);
-            await this.writeJobs(jobs);
+            const [job] = await this.updateJobs(jobs => this.addJobs(jobs, [this.createJob(jobName, data, options)]));
 
             this.logger.debug(`📥 Job ${job.id} added to file queue: ${jobName}`);
             return job;
@@ -90,6 +139,53 @@ export class FileQueueProvider implements QueueProvider {
         }
     }
 
+    /**
+     * Add several jobs to the queue with a single file write
+     */
+    async addBulk(bulkJobs: QueueBulkJob[]): Promise<any[]> {
+        try {
+            const newJobs = await this.updateJobs(jobs =>
+                this.addJobs(jobs, bulkJobs.map(({ name, data, options }) => this.createJob(name, data, options)))
+            );
+
+            this.logger.debug(`📥 ${newJobs.length} jobs added to file queue`);
+            return newJobs;
+        } catch (error) {
+            this.logger.error(`Failed to add ${bulkJobs.length} jobs: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a waiting job from the queue
+     */
+    async remove(jobId: string): Promise<JobRemovalResult> {
+        try {
+            const result = await this.updateJobs((jobs): JobRemovalResult => {
+                const index = jobs.findIndex(job => job.id === jobId);
+
+                if (index === -1) {
+                    return 'not_found';
+                }
+
+                if (jobs[index].status !== 'waiting') {
+                    return 'started';
+                }
+
+                jobs.splice(index, 1);
+                return 'removed';
+            });
+
+            if (result === 'removed') {
+                this.logger.debug(`🗑️ Job ${jobId} removed from file queue`);
+            }
+            return result;
+        } catch (error) {
+            this.logger.error(`Failed to remove job ${jobId}: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
      * Process jobs from the queue
      */
@@ -148,61 +244,69 @@ export class FileQueueProvider implements QueueProvider {
 
     /**
      * Traite le prochain job en attente
+     * Le job est réservé sous verrou, traité hors verrou (le processor peut ajouter des jobs),
+     * puis seul son état est mis à jour.
      */
     private async processNextJob(jobName: string): Promise<void> {
-        const jobs = await this.readJobs();
-        const jobIndex = jobs.findIndex(
-            job => job.name === jobName && job.status === 'waiting'
-        );
-
-        if (jobIndex === -1) {
-            return; // Aucun job en attente
-        }
-
-        const job = jobs[jobIndex];
         const processor = this.processors.get(jobName);
 
         if (!processor) {
             return; // Aucun processor enregistré
         }
 
-        try {
-            // Marquer comme actif
-            job.status = 'active';
-            job.attempts++;
-            job.processingStartedAt = new Date().toISOString();
-            await this.writeJobs(jobs);
+        // Marquer comme actif
+        const job = await this.updateJobs(jobs => {
+            const next = jobs.find(
+                candidate => candidate.name === jobName && candidate.status === 'waiting' && this.isDue(candidate)
+            );
+            if (next) {
+                next.status = 'active';
+                next.attempts++;
+                next.processingStartedAt = new Date().toISOString();
+            }
+            return next && { ...next };
+        });
+
+        if (!job) {
+            return; // Aucun job en attente
+        }
 
+        try {
             this.logger.log(`⚙️ Processing job ${job.id} (${jobName}) - attempt ${job.attempts}`);
 
             // Traiter le job
             const result = await processor(job);
 
             // Marquer comme complété
-            job.status = 'completed';
-            job.result = result;
-            job.completedAt = new Date().toISOString();
-            await this.writeJobs(jobs);
+            await this.updateJob(job.id, {
+                status: 'completed',
+                result,
+                completedAt: new Date().toISOString()
+            });
 
             this.logger.log(`✅ Job ${job.id} completed successfully`);
 
         } catch (error) {
             this.logger.error(`❌ Job ${job.id} failed: ${error.message}`);
 
-            // Gérer l'échec
-            if (job.attempts >= job.maxAttempts) {
-                job.status = 'failed';
-                job.error = error.message;
-                job.failedAt = new Date().toISOString();
-            } else {
-                job.status = 'waiting'; // Retry
-                job.nextRetryAt = new Date(Date.now() + 5000).toISOString(); // Retry dans 5s
-            }
-
-            await this.writeJobs(jobs);
+            // Gérer l'échec (sans nouvelle tentative pour un UnrecoverableJobError)
+            await this.updateJob(job.id, job.attempts >= job.maxAttempts || error instanceof UnrecoverableJobError
+                ? { status: 'failed', error: error.message, failedAt: new Date().toISOString() }
+                : { status: 'waiting', nextRetryAt: new Date(Date.now() + 5000).toISOString() } // Retry dans 5s
+            );
         }
     }
 
+    /**
+     * Vérifie qu'un job n'est plus différé (delay ou attente avant retry)
+     */
+    private isDue(job: any): boolean {
+        const now = Date.now();
+        if (job.availableAt && Date.parse(job.availableAt) > now) return false;
+        if (job.nextRetryAt && Date.parse(job.nextRetryAt) > now) return false;
+        return true;
+    }
+
     /**
      * Check if the queue is healthy
      */
@@ -277,21 +381,24 @@ export class FileQueueProvider implements QueueProvider {
      */
     async clean(maxAge: number = 24 * 60 * 60 * 1000): Promise<void> {
         try {
-            const jobs = await this.readJobs();
             const cutoffTime = new Date(Date.now() - maxAge);
 
-            const cleanedJobs = jobs.filter(job => {
-                if (job.status === 'waiting' || job.status === 'active') {
-                    return true; // Garder les jobs actifs
-                }
+            const removedCount = await this.updateJobs(jobs => {
+                const cleanedJobs = jobs.filter(job => {
+                    if (job.status === 'waiting' || job.status === 'active') {
+                        return true; // Garder les jobs actifs
+                    }
+
+                    const jobDate = new Date(job.completedAt || job.failedAt || job.createdAt);
+                    return jobDate > cutoffTime;
+                });
 
-                const jobDate = new Date(job.completedAt || job.failedAt || job.createdAt);
-                return jobDate > cutoffTime;
+                const removed = jobs.length - cleanedJobs.length;
+                jobs.splice(0, jobs.length, ...cleanedJobs);
+                return removed;
             });
 
-            const removedCount = jobs.length - cleanedJobs.length;
             if (removedCount > 0) {
-                await this.writeJobs(cleanedJobs);
                 this.logger.log(`🧹 Cleaned ${removedCount} old jobs from file queue`);
             }
         } catch (error) {
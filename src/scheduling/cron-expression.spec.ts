@@ -0,0 +1,34 @@
+import { CronExpression } from './cron-expression';
+
+describe('CronExpression', () => {
+  it('should reject malformed expressions', () => {
+    expect(CronExpression.isValid('* * * *')).toBe(false);
+    expect(CronExpression.isValid('61 * * * *')).toBe(false);
+    expect(CronExpression.isValid('*/15 8-18 * JAN-MAR MON-FRI')).toBe(true);
+  });
+
+  it('should compute the next occurrence in UTC', () => {
+    const next = CronExpression.parse('30 9 * * *').next(new Date('2024-03-01T10:00:00Z'));
+    expect(next.toISOString()).toBe('2024-03-02T09:30:00.000Z');
+  });
+
+  it('should honour steps and day-of-week names', () => {
+    // 2024-03-01 est un vendredi
+    const next = CronExpression.parse('*/20 8 * * MON').next(new Date('2024-03-01T08:00:00Z'));
+    expect(next.toISOString()).toBe('2024-03-04T08:00:00.000Z');
+  });
+
+  it('should evaluate expressions in the requested timezone', () => {
+    const cron = CronExpression.parse('0 9 * * *');
+    // Heure d'hiver (UTC+1) puis heure d'été (UTC+2) à Paris
+    expect(cron.next(new Date('2024-03-01T00:00:00Z'), 'Europe/Paris').toISOString()).toBe('2024-03-01T08:00:00.000Z');
+    expect(cron.next(new Date('2024-04-01T00:00:00Z'), 'Europe/Paris').toISOString()).toBe('2024-04-01T07:00:00.000Z');
+  });
+
+  it('should match day-of-month or day-of-week when both are restricted', () => {
+    const cron = CronExpression.parse('0 0 13 * FRI');
+    expect(cron.matches(new Date('2024-03-13T00:00:00Z'))).toBe(true); // mercredi 13
+    expect(cron.matches(new Date('2024-03-15T00:00:00Z'))).toBe(true); // vendredi 15
+    expect(cron.matches(new Date('2024-03-14T00:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Expression cron à 5 champs (minute heure jour-du-mois mois jour-de-semaine)
+ * évaluée dans un fuseau horaire IANA (ex: 'Europe/Paris')
+ *
+ * Syntaxe supportée : *, valeurs, listes (1,15), plages (1-5), pas (*\/15, 8-18/2)
+ * et noms courts pour les mois (JAN-DEC) et jours (SUN-SAT). 0 et 7 désignent dimanche.
+ */
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** Nombre maximum de pas de recherche (environ 4 ans d'heures) */
+const MAX_SEARCH_STEPS = 4 * 366 * 24 + 60;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Composantes d'une date dans un fuseau horaire
+ */
+export interface ZonedDateParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number;
+}
+
+interface CronField {
+    values: Set<number>;
+    wildcard: boolean;
+}
+
+export class CronExpression {
+    private constructor(
+        readonly source: string,
+        private readonly minutes: CronField,
+        private readonly hours: CronField,
+        private readonly daysOfMonth: CronField,
+        private readonly months: CronField,
+        private readonly daysOfWeek: CronField
+    ) {}
+
+    /**
+     * Parse une expression cron, lève une erreur si elle est invalide
+     */
+    static parse(expression: string): CronExpression {
+        const fields = expression.trim().split(/\s+/);
+        if (fields.length !== 5) {
+            throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+        }
+
+        const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+        const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES, expression);
+        // 7 est un alias de dimanche
+        if (daysOfWeek.values.delete(7)) {
+            daysOfWeek.values.add(0);
+        }
+
+        return new CronExpression(
+            expression,
+            parseField(minute, 0, 59, [], expression),
+            parseField(hour, 0, 23, [], expression),
+            parseField(dayOfMonth, 1, 31, [], expression),
+            parseField(month, 1, 12, MONTH_NAMES, expression, 1),
+            daysOfWeek
+        );
+    }
+
+    /**
+     * Vérifie si une expression cron est valide
+     */
+    static isValid(expression: string): boolean {
+        try {
+            CronExpression.parse(expression);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Indique si la minute contenant `date` correspond à l'expression
+     */
+    matches(date: Date, timezone?: string): boolean {
+        const parts = getZonedParts(date, timezone);
+        return this.matchesDay(parts)
+            && this.hours.values.has(parts.hour)
+            && this.minutes.values.has(parts.minute);
+    }
+
+    /**
+     * Prochaine occurrence strictement postérieure à `from`
+     */
+    next(from: Date, timezone?: string): Date {
+        // Début de la minute suivante
+        let candidate = Math.floor(from.getTime() / 60000) * 60000 + 60000;
+
+        for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+            const parts = getZonedParts(new Date(candidate), timezone);
+
+            if (!this.matchesDay(parts) || !this.hours.values.has(parts.hour)) {
+                // Saut au début de l'heure suivante (robuste aux changements d'heure)
+                candidate += (60 - parts.minute) * 60000;
+                continue;
+            }
+
+            if (!this.minutes.values.has(parts.minute)) {
+                candidate += 60000;
+                continue;
+            }
+
+            return new Date(candidate);
+        }
+
+        throw new Error(`No occurrence found for cron expression "${this.source}"`);
+    }
+
+    /**
+     * Sémantique cron standard : si jour du mois ET jour de semaine sont restreints, l'un OU l'autre suffit
+     */
+    private matchesDay(parts: ZonedDateParts): boolean {
+        if (!this.months.values.has(parts.month)) {
+            return false;
+        }
+
+        const dayOfMonthMatch = this.daysOfMonth.values.has(parts.day);
+        const dayOfWeekMatch = this.daysOfWeek.values.has(parts.weekday);
+
+        if (this.daysOfMonth.wildcard || this.daysOfWeek.wildcard) {
+            return dayOfMonthMatch && dayOfWeekMatch;
+        }
+
+        return dayOfMonthMatch || dayOfWeekMatch;
+    }
+}
+
+/**
+ * Composantes d'une date dans le fuseau horaire donné (UTC par défaut)
+ */
+export function getZonedParts(date: Date, timezone: string = 'UTC'): ZonedDateParts {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            weekday: 'short'
+        });
+        formatters.set(timezone, formatter);
+    }
+
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase())
+    };
+}
+
+/**
+ * Parse un champ cron en ensemble de valeurs autorisées
+ */
+function parseField(
+    field: string,
+    min: number,
+    max: number,
+    names: string[],
+    expression: string,
+    nameOffset: number = 0
+): CronField {
+    const values = new Set<number>();
+    const invalid = () => new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+
+    const toNumber = (token: string): number => {
+        const nameIndex = names.indexOf(token.toUpperCase());
+        const value = nameIndex >= 0 ? nameIndex + nameOffset : Number(token);
+        if (!Number.isInteger(value) || value < min || value > max) {
+            throw invalid();
+        }
+        return value;
+    };
+
+    for (const part of field.split(',')) {
+        const [range, stepToken] = part.split('/');
+        const step = stepToken === undefined ? 1 : Number(stepToken);
+        if (!Number.isInteger(step) || step < 1) {
+            throw invalid();
+        }
+
+        let start: number;
+        let end: number;
+
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            start = toNumber(from);
+            end = toNumber(to);
+            if (start > end) {
+                throw invalid();
+            }
+        } else {
+            start = toNumber(range);
+            end = stepToken === undefined ? start : max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return { values, wildcard: field === '*' };
+}
@@ -0,0 +1,30 @@
+import { getNextDeliverySlot, isWithinDeliveryWindow } from './delivery-window';
+
+describe('delivery window', () => {
+  it('should allow any time without preferences', () => {
+    const now = new Date('2024-03-01T03:00:00Z');
+    expect(isWithinDeliveryWindow(undefined, now)).toBe(true);
+    expect(getNextDeliverySlot({ enabled: true }, now)).toBe(now);
+  });
+
+  it('should defer quiet hours spanning midnight to their end in the recipient timezone', () => {
+    const preferences = { enabled: true, quietHours: { start: '22:00', end: '07:00' }, timezone: 'Europe/Paris' };
+
+    // 23h30 à Paris (UTC+1)
+    expect(isWithinDeliveryWindow(preferences, new Date('2024-03-01T22:30:00Z'))).toBe(false);
+    expect(isWithinDeliveryWindow(preferences, new Date('2024-03-01T12:00:00Z'))).toBe(true);
+    expect(getNextDeliverySlot(preferences, new Date('2024-03-01T22:30:00Z')).toISOString()).toBe('2024-03-02T06:00:00.000Z');
+  });
+
+  it('should wait for the next slot allowed by both the schedule and quiet hours', () => {
+    // Jours ouvrés de 8h à 19h, sans notification avant 9h
+    const preferences = { enabled: true, schedule: '* 8-18 * * MON-FRI', quietHours: { start: '20:00', end: '09:00' } };
+
+    // 2024-03-01 est un vendredi
+    expect(getNextDeliverySlot(preferences, new Date('2024-03-01T19:30:00Z')).toISOString()).toBe('2024-03-04T09:00:00.000Z');
+  });
+
+  it('should reject malformed quiet hours', () => {
+    expect(() => isWithinDeliveryWindow({ enabled: true, quietHours: { start: '25:00', end: '07:00' } })).toThrow('HH:mm');
+  });
+});
@@ -0,0 +1,79 @@
+import { BaseRecipient } from '../loaders/recipient-loader.interface';
+import { CronExpression, getZonedParts } from './cron-expression';
+
+/**
+ * Préférences horaires d'un destinataire
+ * - schedule : expression cron des créneaux autorisés (ex: '* 8-19 * * MON-FRI')
+ * - quietHours : plage sans notification, pouvant passer minuit (ex: { start: '22:00', end: '07:00' })
+ * - timezone : fuseau horaire IANA d'évaluation (UTC par défaut)
+ */
+export type DeliveryPreferences = BaseRecipient['preferences'];
+
+/** Nombre maximum d'ajustements lors de la recherche du prochain créneau */
+const MAX_ADJUSTMENTS = 16;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Indique si une notification peut être envoyée au destinataire à cette date
+ */
+export function isWithinDeliveryWindow(preferences: DeliveryPreferences | undefined, date: Date = new Date()): boolean {
+    if (!preferences) {
+        return true;
+    }
+
+    const timezone = preferences.timezone || 'UTC';
+
+    if (preferences.quietHours && isInQuietHours(preferences.quietHours, date, timezone)) {
+        return false;
+    }
+
+    return !preferences.schedule || CronExpression.parse(preferences.schedule).matches(date, timezone);
+}
+
+/**
+ * Premier instant, à partir de `from`, où une notification peut être envoyée au destinataire
+ * Retourne `from` si l'envoi est déjà autorisé
+ */
+export function getNextDeliverySlot(preferences: DeliveryPreferences | undefined, from: Date = new Date()): Date {
+    const timezone = preferences?.timezone || 'UTC';
+    let candidate = from;
+
+    for (let step = 0; step < MAX_ADJUSTMENTS; step++) {
+        if (isWithinDeliveryWindow(preferences, candidate)) {
+            return candidate;
+        }
+
+        if (preferences.quietHours && isInQuietHours(preferences.quietHours, candidate, timezone)) {
+            // Fin de la plage silencieuse
+            const [hour, minute] = parseTime(preferences.quietHours.end);
+            candidate = CronExpression.parse(`${minute} ${hour} * * *`).next(candidate, timezone);
+        } else {
+            candidate = CronExpression.parse(preferences.schedule).next(candidate, timezone);
+        }
+    }
+
+    throw new Error(`No delivery slot found for schedule "${preferences.schedule}" and quiet hours`);
+}
+
+function isInQuietHours(quietHours: { start: string, end: string }, date: Date, timezone: string): boolean {
+    const { hour, minute } = getZonedParts(date, timezone);
+    const time = hour * 60 + minute;
+    const [startHour, startMinute] = parseTime(quietHours.start);
+    const [endHour, endMinute] = parseTime(quietHours.end);
+    const start = startHour * 60 + startMinute;
+    const end = endHour * 60 + endMinute;
+
+    // Une plage qui passe minuit (22:00 → 07:00) couvre la fin et le début de journée
+    return start <= end
+        ? time >= start && time < end
+        : time >= start || time < end;
+}
+
+function parseTime(value: string): [number, number] {
+    const match = TIME_PATTERN.exec(value);
+    if (!match) {
+        throw new Error(`Invalid time "${value}": expected HH:mm`);
+    }
+    return [Number(match[1]), Number(match[2])];
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileScheduleStore } from './file-schedule.store';
+import { EventSchedule } from './schedule-store.interface';
+
+describe('FileScheduleStore', () => {
+  let dataDir: string;
+  let store: FileScheduleStore;
+
+  const createSchedule = (id: string): EventSchedule => ({
+    id,
+    eventType: 'report.daily',
+    kind: 'once',
+    payload: { id },
+    status: 'active',
+    nextRunAt: new Date('2024-03-01T09:00:00Z'),
+    runCount: 0,
+    createdAt: new Date('2024-03-01T08:00:00Z'),
+    updatedAt: new Date('2024-03-01T08:00:00Z')
+  });
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-schedules-'));
+    store = new FileScheduleStore('schedules', dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist schedules without leaving temporary files', async () => {
+    await store.save(createSchedule('s1'));
+    await store.save(createSchedule('s2'));
+
+    expect(await fs.readdir(dataDir)).toEqual(['schedules.json']);
+    expect((await new FileScheduleStore('schedules', dataDir).get('s1')).nextRunAt).toEqual(new Date('2024-03-01T09:00:00Z'));
+  });
+
+  it('should refuse to overwrite an unreadable file', async () => {
+    await store.save(createSchedule('s1'));
+    const filePath = path.join(dataDir, 'schedules.json');
+    const partial = (await fs.readFile(filePath, 'utf8')).slice(0, 40);
+    await fs.writeFile(filePath, partial);
+
+    await expect(store.save(createSchedule('s2'))).rejects.toThrow(SyntaxError);
+    expect(await fs.readFile(filePath, 'utf8')).toBe(partial);
+  });
+});
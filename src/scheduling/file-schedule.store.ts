@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+    EventSchedule,
+    ScheduleFilter,
+    ScheduleStore,
+    applyScheduleClaim,
+    applyScheduleRelease,
+    matchesScheduleFilter
+} from './schedule-store.interface';
+import { withFileLock } from '../utils/file-lock';
+
+const DATE_FIELDS: Array<keyof EventSchedule> = ['nextRunAt', 'lastRunAt', 'createdAt', 'updatedAt'];
+
+/**
+ * Store de planifications basé sur un fichier JSON
+ * Les planifications survivent aux redémarrages. Les écritures sont protégées par un verrou fichier,
+ * ce qui permet à plusieurs workers partageant le répertoire de se coordonner via claim().
+ */
+@Injectable()
+export class FileScheduleStore implements ScheduleStore {
+    private readonly logger = new Logger(FileScheduleStore.name);
+    private readonly filePath: string;
+    private readonly lockPath: string;
+
+    constructor(storeName: string = 'schedules', private readonly dataDir: string = './queue-data') {
+        this.filePath = path.join(dataDir, `${storeName}.json`);
+        this.lockPath = `${this.filePath}.lock`;
+    }
+
+    /**
+     * Lit les planifications depuis le fichier en restaurant les dates
+     * Seule l'absence du fichier équivaut à aucune planification : un fichier illisible lève une erreur
+     * plutôt que d'être écrasé par une liste vide à la prochaine écriture
+     */
+    private async readSchedules(): Promise<Record<string, EventSchedule>> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return {};
+            }
+            throw error;
+        }
+
+        const data = JSON.parse(content);
+        for (const schedule of Object.values<any>(data)) {
+            for (const field of DATE_FIELDS) {
+                if (schedule[field]) {
+                    schedule[field] = new Date(schedule[field]);
+                }
+            }
+        }
+        return data;
+    }
+
+    /**
+     * Écrit dans un fichier temporaire renommé ensuite : un arrêt en cours d'écriture laisse le fichier précédent intact
+     */
+    private async writeSchedules(schedules: Record<string, EventSchedule>): Promise<void> {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        try {
+            await fs.writeFile(tempPath, JSON.stringify(schedules, null, 2));
+            await fs.rename(tempPath, this.filePath);
+        } catch (error) {
+            this.logger.error(`Failed to write schedules: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Lecture-modification-écriture sous verrou
+     */
+    private async update<R>(mutate: (schedules: Record<string, EventSchedule>) => R): Promise<R> {
+        await fs.mkdir(this.dataDir, { recursive: true });
+
+        return withFileLock(this.lockPath, async () => {
+            const schedules = await this.readSchedules();
+            const result = mutate(schedules);
+            await this.writeSchedules(schedules);
+            return result;
+        });
+    }
+
+    async save(schedule: EventSchedule): Promise<void> {
+        await this.update(schedules => {
+            schedules[schedule.id] = schedule;
+        });
+    }
+
+    async get(id: string): Promise<EventSchedule | undefined> {
+        const schedules = await this.readSchedules();
+        return schedules[id];
+    }
+
+    async list(filter?: ScheduleFilter): Promise<EventSchedule[]> {
+        const schedules = await this.readSchedules();
+        return Object.values(schedules).filter(schedule => matchesScheduleFilter(schedule, filter));
+    }
+
+    async claim(id: string, runAt: Date, nextRunAt: Date | undefined): Promise<boolean> {
+        return this.update(schedules => {
+            const schedule = schedules[id];
+            if (!schedule || schedule.status !== 'active' || schedule.nextRunAt?.getTime() !== runAt.getTime()) {
+                return false;
+            }
+
+            schedules[id] = applyScheduleClaim(schedule, runAt, nextRunAt);
+            return true;
+        });
+    }
+
+    async release(claimed: EventSchedule, runAt: Date): Promise<boolean> {
+        return this.update(schedules => {
+            const schedule = schedules[claimed.id];
+            const released = schedule && applyScheduleRelease(schedule, claimed, runAt);
+            if (!released) {
+                return false;
+            }
+
+            schedules[claimed.id] = released;
+            return true;
+        });
+    }
+
+    /**
+     * Factory method to create FileScheduleStore
+     */
+    static create(storeName: string = 'schedules', dataDir: string = './queue-data'): FileScheduleStore {
+        return new FileScheduleStore(storeName, dataDir);
+    }
+}
@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import {
+    EventSchedule,
+    ScheduleFilter,
+    ScheduleStore,
+    applyScheduleClaim,
+    applyScheduleRelease,
+    matchesScheduleFilter
+} from './schedule-store.interface';
+
+/**
+ * Store de planifications en mémoire
+ * Les planifications sont perdues au redémarrage : réservé aux tests et aux instances uniques
+ */
+@Injectable()
+export class InMemoryScheduleStore implements ScheduleStore {
+    private readonly schedules = new Map<string, EventSchedule>();
+
+    async save(schedule: EventSchedule): Promise<void> {
+        this.schedules.set(schedule.id, { ...schedule });
+    }
+
+    async get(id: string): Promise<EventSchedule | undefined> {
+        const schedule = this.schedules.get(id);
+        return schedule ? { ...schedule } : undefined;
+    }
+
+    async list(filter?: ScheduleFilter): Promise<EventSchedule[]> {
+        return Array.from(this.schedules.values())
+            .filter(schedule => matchesScheduleFilter(schedule, filter))
+            .map(schedule => ({ ...schedule }));
+    }
+
+    async claim(id: string, runAt: Date, nextRunAt: Date | undefined): Promise<boolean> {
+        const schedule = this.schedules.get(id);
+        if (!schedule || schedule.status !== 'active' || schedule.nextRunAt?.getTime() !== runAt.getTime()) {
+            return false;
+        }
+
+        this.schedules.set(id, applyScheduleClaim(schedule, runAt, nextRunAt));
+        return true;
+    }
+
+    async release(claimed: EventSchedule, runAt: Date): Promise<boolean> {
+        const schedule = this.schedules.get(claimed.id);
+        const released = schedule && applyScheduleRelease(schedule, claimed, runAt);
+        if (!released) {
+            return false;
+        }
+
+        this.schedules.set(claimed.id, released);
+        return true;
+    }
+}
@@ -0,0 +1,183 @@
+import { EmitOptions, NotificationRedelivery } from '../types/interfaces';
+
+/**
+ * Émission planifiée (ponctuelle ou récurrente) ou nouvel envoi différé d'un canal
+ */
+export interface EventSchedule {
+    /** ID unique de la planification */
+    id: string;
+
+    /** Type d'événement à émettre */
+    eventType: string;
+
+    /** once : émission unique à runAt, recurring : selon l'expression cron, redelivery : nouvel envoi d'un canal */
+    kind: 'once' | 'recurring' | 'redelivery';
+
+    /** Payload figé (planification ponctuelle uniquement) */
+    payload?: any;
+
+    /** Nouvel envoi à effectuer (planification 'redelivery' uniquement) */
+    redelivery?: NotificationRedelivery;
+
+    /** Expression cron (planification récurrente uniquement) */
+    cron?: string;
+
+    /** Fuseau horaire IANA d'évaluation du cron (UTC par défaut) */
+    timezone?: string;
+
+    /** Options d'émission appliquées à chaque occurrence */
+    options?: EmitOptions;
+
+    /** Statut de la planification */
+    status: 'active' | 'paused' | 'completed' | 'cancelled';
+
+    /** Prochaine occurrence prévue */
+    nextRunAt?: Date;
+
+    /** Dernière occurrence déclenchée */
+    lastRunAt?: Date;
+
+    /** Nombre d'occurrences déclenchées */
+    runCount: number;
+
+    /** Date de création */
+    createdAt: Date;
+
+    /** Date de dernière modification */
+    updatedAt: Date;
+}
+
+/**
+ * Filtre de recherche des planifications
+ */
+export interface ScheduleFilter {
+    eventType?: string;
+    status?: EventSchedule['status'] | Array<EventSchedule['status']>;
+    kind?: EventSchedule['kind'];
+    /** ID de corrélation passé dans les options d'émission */
+    correlationId?: string;
+    /** Planifications dont la prochaine occurrence est antérieure ou égale à cette date */
+    dueBefore?: Date;
+}
+
+/**
+ * Stockage persistant des planifications
+ */
+export interface ScheduleStore {
+    /**
+     * Crée ou remplace une planification
+     */
+    save(schedule: EventSchedule): Promise<void>;
+
+    /**
+     * Récupère une planification par son ID
+     */
+    get(id: string): Promise<EventSchedule | undefined>;
+
+    /**
+     * Liste les planifications correspondant au filtre
+     */
+    list(filter?: ScheduleFilter): Promise<EventSchedule[]>;
+
+    /**
+     * Réclame l'occurrence prévue à `runAt` de manière atomique (compare-and-set sur nextRunAt)
+     * Une seule instance obtient true pour une occurrence donnée, ce qui garantit qu'elle n'est déclenchée qu'une fois.
+     * En cas de succès, la planification avance à `nextRunAt` (ou passe à 'completed' si undefined).
+     */
+    claim(id: string, runAt: Date, nextRunAt: Date | undefined): Promise<boolean>;
+
+    /**
+     * Annule la réclamation de l'occurrence `runAt` dont le déclenchement a échoué : elle redevient due
+     * `claimed` est la planification telle qu'avant la réclamation. Retourne false si la planification
+     * a évolué depuis (annulation, mise en pause, autre occurrence).
+     */
+    release(claimed: EventSchedule, runAt: Date): Promise<boolean>;
+}
+
+/**
+ * Applique un filtre sur une liste de planifications (utilitaire partagé par les stores)
+ */
+export function matchesScheduleFilter(schedule: EventSchedule, filter: ScheduleFilter = {}): boolean {
+    if (filter.eventType && schedule.eventType !== filter.eventType) {
+        return false;
+    }
+
+    if (filter.kind && schedule.kind !== filter.kind) {
+        return false;
+    }
+
+    if (filter.correlationId && schedule.options?.correlationId !== filter.correlationId) {
+        return false;
+    }
+
+    if (filter.status) {
+        const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+        if (!statuses.includes(schedule.status)) {
+            return false;
+        }
+    }
+
+    if (filter.dueBefore && (!schedule.nextRunAt || schedule.nextRunAt.getTime() > filter.dueBefore.getTime())) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Applique le résultat d'une réclamation réussie à une planification
+ */
+export function applyScheduleClaim(schedule: EventSchedule, runAt: Date, nextRunAt: Date | undefined): EventSchedule {
+    return {
+        ...schedule,
+        lastRunAt: runAt,
+        nextRunAt,
+        runCount: schedule.runCount + 1,
+        status: nextRunAt ? schedule.status : 'completed',
+        updatedAt: new Date()
+    };
+}
+
+/**
+ * Applique l'annulation d'une réclamation à une planification (undefined si elle a évolué depuis la réclamation)
+ */
+export function applyScheduleRelease(current: EventSchedule, claimed: EventSchedule, runAt: Date): EventSchedule | undefined {
+    const unchanged = current.lastRunAt?.getTime() === runAt.getTime()
+        && current.runCount === claimed.runCount + 1
+        && (current.status === 'active' || current.status === 'completed');
+    if (!unchanged) {
+        return undefined;
+    }
+
+    return {
+        ...current,
+        lastRunAt: claimed.lastRunAt,
+        nextRunAt: runAt,
+        runCount: claimed.runCount,
+        status: 'active',
+        updatedAt: new Date()
+    };
+}
+
+/**
+ * Fonction produisant le payload de chaque occurrence d'une planification récurrente
+ */
+export type ScheduledPayloadFactory<P = any> = (occurrence: Date) => P | Promise<P>;
+
+/**
+ * Options d'une planification récurrente
+ */
+export interface RecurringScheduleOptions {
+    /**
+     * ID stable de la planification
+     * Les fonctions ne pouvant pas être persistées, rappeler scheduleRecurring() avec le même ID
+     * au démarrage ré-associe le payloadFactory à la planification existante.
+     */
+    id?: string;
+
+    /** Fuseau horaire IANA d'évaluation du cron (UTC par défaut) */
+    timezone?: string;
+
+    /** Options d'émission appliquées à chaque occurrence */
+    emitOptions?: EmitOptions;
+}
@@ -0,0 +1,153 @@
+import { ConfigurationValidatorService } from './configuration-validator.service';
+import { NotifierRegistry } from '../decorators/injectable-notifier.decorator';
+import { ConfigurationValidationError } from '../errors/configuration-validation.error';
+import { EventStatusService } from './event-status.service';
+import { InMemoryEventStatusStore } from '../status/in-memory-event-status.store';
+import { InMemoryDeliveryLedger } from '../delivery/in-memory-delivery.ledger';
+
+describe('ConfigurationValidatorService', () => {
+  class EmailProvider {
+    send = jest.fn();
+    healthCheck = jest.fn().mockResolvedValue(true);
+    validateConfig = jest.fn().mockReturnValue(true);
+  }
+
+  class SmsProvider {
+    send = jest.fn();
+    healthCheck = jest.fn().mockResolvedValue(true);
+    validateConfig = jest.fn().mockReturnValue(['apiKey manquante']);
+  }
+
+  class UserLoader {}
+
+  let instances: Map<any, any>;
+  let moduleRef: any;
+
+  const createValidator = (config: any, escalation?: any, statusService?: any, deliveryLedger: any = new InMemoryDeliveryLedger()) =>
+    new ConfigurationValidatorService(config, moduleRef, undefined, escalation, statusService, deliveryLedger);
+
+  beforeEach(() => {
+    NotifierRegistry.clear();
+    NotifierRegistry.register(EmailProvider, { channel: 'email' });
+    NotifierRegistry.register(SmsProvider, { channel: 'sms' });
+
+    instances = new Map<any, any>([[EmailProvider, new EmailProvider()], [UserLoader, new UserLoader()]]);
+    moduleRef = {
+      get: jest.fn((token: any) => {
+        if (!instances.has(token)) throw new Error('not found');
+        return instances.get(token);
+      })
+    };
+  });
+
+  afterEach(() => {
+    NotifierRegistry.clear();
+  });
+
+  it('should accept a coherent configuration', async () => {
+    const validator = createValidator({
+      mode: 'api',
+      eventTypes: { 'user.created': { description: 'User created', channels: ['email'], loader: UserLoader } }
+    });
+
+    await expect(validator.validate()).resolves.toEqual([]);
+    await expect(validator.onApplicationBootstrap()).resolves.toBeUndefined();
+  });
+
+  it('should report every problem in a single error', async () => {
+    instances.set(SmsProvider, new SmsProvider());
+    const validator = createValidator({
+      mode: 'worker',
+      eventTypes: {
+        'user.created': { description: 'User created', channels: ['emial', 'sms'], loader: Symbol('MISSING_LOADER') },
+        'order.created': { description: 'Order created', channels: ['email'], fallbackChannels: ['push'] }
+      }
+    });
+
+    const error: ConfigurationValidationError = await validator.onApplicationBootstrap().catch(e => e);
+
+    expect(error).toBeInstanceOf(ConfigurationValidationError);
+    expect(error.issues.map(issue => issue.message)).toEqual([
+      "Le mode 'worker' nécessite une configuration de queue",
+      "Aucun provider @InjectableNotifier pour le canal 'emial' (canaux disponibles : [email, sms])",
+      "Aucun provider @InjectableNotifier pour le canal 'push' (canaux disponibles : [email, sms])",
+      "Le loader Symbol(MISSING_LOADER) n'est pas enregistré dans le module",
+      'SmsProvider : apiKey manquante'
+    ]);
+    expect(error.message).toContain("[user.created] Aucun provider @InjectableNotifier pour le canal 'emial'");
+  });
+
+  it('should report providers missing from the module and skip channels marked as dynamic', async () => {
+    const validator = createValidator({
+      mode: 'hybrid',
+      eventTypes: {
+        'user.created': { description: 'User created', channels: ['sms'] },
+        'custom.event': { description: 'Custom', channels: ['slack'], validateChannels: false, defaultProcessing: 'async' }
+      }
+    });
+
+    const issues = await validator.validate();
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', eventType: 'custom.event' }),
+      expect.objectContaining({ severity: 'error', channel: 'sms', message: expect.stringContaining("SmsProvider (canal 'sms') n'est pas enregistré") })
+    ]);
+  });
+
+  it('should require a queue and a shared store for escalation steps', async () => {
+    const config = {
+      mode: 'api',
+      eventTypes: {
+        'incident.critical': { channels: ['email'], escalation: [{ after: 60000, channels: ['email'] }] }
+      }
+    };
+    const escalation = { getUnavailabilityReason: jest.fn().mockReturnValue("l'escalade nécessite une queue") };
+
+    expect(await createValidator(config, escalation).validate()).toEqual([
+      { severity: 'error', eventType: 'incident.critical', message: "Étapes d'escalade inutilisables : l'escalade nécessite une queue" }
+    ]);
+
+    escalation.getUnavailabilityReason.mockReturnValue(undefined);
+    expect(await createValidator(config, escalation).validate()).toEqual([]);
+  });
+
+  it('should validate the channels and loaders of escalation steps', async () => {
+    const escalation = { getUnavailabilityReason: jest.fn().mockReturnValue(undefined) };
+    const validator = createValidator({
+      mode: 'worker',
+      queue: {},
+      eventTypes: {
+        'incident.critical': {
+          channels: ['email'],
+          escalation: [{ after: 60000, channels: ['smss'] }, { after: 60000, channels: ['email'], loader: Symbol('ON_CALL') }]
+        }
+      }
+    }, escalation);
+
+    expect((await validator.validate()).map(issue => issue.message)).toEqual([
+      "Aucun provider @InjectableNotifier pour le canal 'smss' (canaux disponibles : [email, sms])",
+      "Le loader Symbol(ON_CALL) (étape d'escalade 2) n'est pas enregistré dans le module"
+    ]);
+  });
+
+  it('should require a shared status store with an application queue provider', async () => {
+    const config = { mode: 'hybrid', queue: {}, eventTypes: {} };
+
+    expect(await createValidator(config, undefined, new EventStatusService(undefined)).validate()).toEqual([{
+      severity: 'error',
+      message: "Suivi des statuts inutilisable : une queue fournie par l'application nécessite un eventStatusStore partagé avec les workers"
+    }]);
+    expect(await createValidator(config, undefined, new EventStatusService(new InMemoryEventStatusStore())).validate()).toEqual([]);
+  });
+
+  it('should warn when queue workers have no delivery ledger', async () => {
+    const config = { mode: 'worker', queue: {}, eventTypes: {} };
+
+    expect(await createValidator(config, undefined, undefined, null).validate()).toEqual([{
+      severity: 'warning',
+      message: 'Aucun deliveryLedger partagé avec les workers : un job relancé peut renotifier les destinataires déjà servis'
+    }]);
+    expect(await createValidator({ ...config, mode: 'api' }, undefined, undefined, null).validate())
+      .toEqual([{ severity: 'warning', message: "La configuration de queue est ignorée en mode 'api'" }]);
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, Logger, Inject, Optional, OnApplicationBootstrap, forwardRef } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { ConfigurationIssue, EventTypeConfig, EventTypesConfig, NotificationProvider, PackageConfig } from '../types/interfaces';
+import { DELIVERY_LEDGER_TOKEN, EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+import { DeliveryLedger } from '../delivery/delivery-ledger.interface';
+import { NotifierRegistry } from '../decorators/injectable-notifier.decorator';
+import { ConfigurationValidationError } from '../errors/configuration-validation.error';
+import { EventTypeConfigService } from './event-type-config.service';
+import { EscalationService } from './escalation.service';
+import { EventStatusService } from './event-status.service';
+
+/**
+ * Validation de la configuration au démarrage de l'application
+ *
+ * Vérifie, pour tous les types d'événements :
+ * - que chaque canal (y compris de fallback et d'escalade) a un provider @InjectableNotifier
+ * - que chaque loader (y compris d'escalade) se résout dans le container
+ * - que validateConfig() accepte la configuration de chaque provider utilisé
+ * - que le mode de fonctionnement est cohérent avec la configuration de queue
+ * - que les types d'événements avec escalade disposent d'une queue et d'un EscalationStore partagé
+ * - qu'une queue fournie par l'application dispose d'un EventStatusStore partagé avec les workers
+ * - que les workers d'une queue disposent d'un DeliveryLedger (avertissement)
+ *
+ * Les erreurs sont regroupées dans une seule ConfigurationValidationError qui interrompt le démarrage.
+ */
+@Injectable()
+export class ConfigurationValidatorService implements OnApplicationBootstrap {
+    protected readonly logger = new Logger(ConfigurationValidatorService.name);
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
+        private readonly moduleRef: ModuleRef,
+        @Optional() @Inject(forwardRef(() => EventTypeConfigService)) private readonly eventTypeConfigs?: EventTypeConfigService,
+        @Optional() @Inject(forwardRef(() => EscalationService)) private readonly escalation?: EscalationService,
+        @Optional() @Inject(forwardRef(() => EventStatusService)) private readonly statusService?: EventStatusService,
+        @Optional() @Inject(forwardRef(() => DELIVERY_LEDGER_TOKEN)) private readonly deliveryLedger?: DeliveryLedger
+    ) {}
+
+    async onApplicationBootstrap() {
+        const issues = await this.validate();
+        const errors = issues.filter(issue => issue.severity === 'error');
+
+        for (const warning of issues.filter(issue => issue.severity === 'warning')) {
+            this.logger.warn(`${warning.eventType ? `[${warning.eventType}] ` : ''}${warning.message}`);
+        }
+
+        if (errors.length > 0) {
+            throw new ConfigurationValidationError(errors);
+        }
+
+        this.logger.log('✅ Configuration des notifications validée');
+    }
+
+    /**
+     * Retourne l'ensemble des problèmes de configuration détectés, sans lever d'erreur
+     */
+    async validate(): Promise<ConfigurationIssue[]> {
+        const eventTypes: EventTypesConfig<any> = this.eventTypeConfigs?.getAll() ?? this.config.eventTypes ?? {};
+
+        return [
+            ...this.validateMode(eventTypes),
+            ...this.validateChannels(eventTypes),
+            ...this.validateLoaders(eventTypes),
+            ...this.validateProviders(eventTypes),
+            ...this.validateEscalation(eventTypes),
+            ...this.validateStatusStore(),
+            ...this.validateDeliveryLedger()
+        ];
+    }
+
+    private validateMode(eventTypes: EventTypesConfig<any>): ConfigurationIssue[] {
+        const issues: ConfigurationIssue[] = [];
+        const mode = this.config.mode || 'api';
+
+        if (mode === 'worker' && !this.config.queue) {
+            issues.push({ severity: 'error', message: `Le mode 'worker' nécessite une configuration de queue` });
+        }
+
+        if (mode === 'api' && this.config.queue) {
+            issues.push({ severity: 'warning', message: `La configuration de queue est ignorée en mode 'api'` });
+        }
+
+        for (const [eventType, eventConfig] of Object.entries(eventTypes)) {
+            if (eventConfig.defaultProcessing === 'async' && (mode === 'api' || !this.config.queue)) {
+                issues.push({
+                    severity: 'warning',
+                    eventType,
+                    message: `defaultProcessing 'async' sans queue disponible (mode '${mode}') : traitement immédiat`
+                });
+            }
+        }
+
+        return issues;
+    }
+
+    private validateChannels(eventTypes: EventTypesConfig<any>): ConfigurationIssue[] {
+        if (this.config.global?.validateChannels === false) {
+            return [];
+        }
+
+        const issues: ConfigurationIssue[] = [];
+        const available = NotifierRegistry.getChannels();
+
+        for (const [eventType, eventConfig] of Object.entries(eventTypes)) {
+            if (eventConfig.validateChannels === false) continue;
+
+            for (const channel of this.getChannels(eventConfig)) {
+                if (!NotifierRegistry.getProviderByChannel(channel)) {
+                    issues.push({
+                        severity: 'error',
+                        eventType,
+                        channel,
+                        message: `Aucun provider @InjectableNotifier pour le canal '${channel}' ` +
+                            `(canaux disponibles : [${available.join(', ')}])`
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    private validateLoaders(eventTypes: EventTypesConfig<any>): ConfigurationIssue[] {
+        const issues: ConfigurationIssue[] = [];
+
+        for (const [eventType, eventConfig] of Object.entries(eventTypes)) {
+            const loaders = [
+                { token: eventConfig.loader, label: '' },
+                ...(eventConfig.escalation || []).map((step, index) => ({ token: step.loader, label: ` (étape d'escalade ${index + 1})` }))
+            ];
+
+            for (const { token, label } of loaders) {
+                if (!token) continue;
+
+                try {
+                    this.moduleRef.get(token, { strict: false });
+                } catch (error) {
+                    issues.push({
+                        severity: 'error',
+                        eventType,
+                        message: `Le loader ${this.describeToken(token)}${label} n'est pas enregistré dans le module`
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Appelle validateConfig() sur les providers des canaux utilisés, avec la configuration du module
+     */
+    private validateProviders(eventTypes: EventTypesConfig<any>): ConfigurationIssue[] {
+        const issues: ConfigurationIssue[] = [];
+        const channels = new Set(Object.values(eventTypes).flatMap(eventConfig => this.getChannels(eventConfig)));
+
+        for (const channel of channels) {
+            const ProviderClass = NotifierRegistry.getProviderByChannel(channel);
+            if (!ProviderClass) continue;
+
+            let provider: NotificationProvider;
+            try {
+                provider = this.moduleRef.get(ProviderClass, { strict: false });
+            } catch (error) {
+                issues.push({
+                    severity: 'error',
+                    channel,
+                    message: `Le provider ${ProviderClass.name} (canal '${channel}') n'est pas enregistré dans le module`
+                });
+                continue;
+            }
+
+            try {
+                const result = provider.validateConfig(this.config);
+                const messages = Array.isArray(result)
+                    ? result
+                    : result === false ? ['configuration invalide'] : [];
+
+                for (const message of messages) {
+                    issues.push({ severity: 'error', channel, message: `${ProviderClass.name} : ${message}` });
+                }
+            } catch (error) {
+                issues.push({ severity: 'error', channel, message: `${ProviderClass.name} : ${error.message}` });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Les étapes d'escalade sont des jobs différés : sans queue ni store partagé, elles ne seraient jamais déclenchées
+     */
+    private validateEscalation(eventTypes: EventTypesConfig<any>): ConfigurationIssue[] {
+        const issues: ConfigurationIssue[] = [];
+        const unavailable = this.escalation
+            ? this.escalation.getUnavailabilityReason()
+            : `l'escalade nécessite l'EscalationService`;
+
+        for (const [eventType, eventConfig] of Object.entries(eventTypes)) {
+            if (eventConfig.escalation?.length && unavailable) {
+                issues.push({ severity: 'error', eventType, message: `Étapes d'escalade inutilisables : ${unavailable}` });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Les statuts publiés par les workers doivent être lisibles par l'API : sinon waitForResult
+     * et waitForCompletion expireraient sans jamais voir la fin du traitement
+     */
+    private validateStatusStore(): ConfigurationIssue[] {
+        const unavailable = this.statusService?.getUnavailabilityReason();
+        return unavailable ? [{ severity: 'error', message: `Suivi des statuts inutilisable : ${unavailable}` }] : [];
+    }
+
+    /**
+     * Sans registre partagé, un job relancé sur un autre worker renotifie les destinataires déjà servis
+     */
+    private validateDeliveryLedger(): ConfigurationIssue[] {
+        if ((this.config.mode || 'api') === 'api' || !this.config.queue || this.deliveryLedger) {
+            return [];
+        }
+
+        return [{
+            severity: 'warning',
+            message: `Aucun deliveryLedger partagé avec les workers : un job relancé peut renotifier les destinataires déjà servis`
+        }];
+    }
+
+    private getChannels(eventConfig: EventTypeConfig): string[] {
+        return [
+            ...(eventConfig.channels || []),
+            ...(eventConfig.fallbackChannels || []),
+            ...(eventConfig.escalation || []).flatMap(step => step.channels || [])
+        ];
+    }
+
+    private describeToken(token: any): string {
+        return typeof token === 'function' ? token.name : String(token);
+    }
+}
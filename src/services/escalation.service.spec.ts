@@ -0,0 +1,85 @@
+import { EscalationService } from './escalation.service';
+import { InMemoryEscalationStore } from '../escalation/in-memory-escalation.store';
+import { EscalationStep, NotificationContext, PackageConfig } from '../types/interfaces';
+
+describe('EscalationService', () => {
+  const escalation: EscalationStep[] = [
+    { after: 10 * 60 * 1000, channels: ['sms'], distributions: ['team-leads'] },
+    { after: 30 * 60 * 1000, channels: ['email'], distributions: ['directors'] }
+  ];
+  const config = {
+    mode: 'hybrid',
+    eventTypes: { 'incident.critical': { channels: ['telegram'], escalation } }
+  } as unknown as PackageConfig;
+  const context: NotificationContext = { eventId: 'evt-1', correlationId: 'corr-1', eventType: 'incident.critical', attempt: 1 };
+
+  let store: InMemoryEscalationStore;
+  let orchestrator: { processEscalationStep: jest.Mock };
+  let queueProvider: { add: jest.Mock };
+  let service: EscalationService;
+
+  beforeEach(() => {
+    store = new InMemoryEscalationStore();
+    orchestrator = { processEscalationStep: jest.fn().mockResolvedValue([{ channel: 'sms', provider: 'SmsProvider', status: 'sent' }]) };
+    queueProvider = { add: jest.fn().mockResolvedValue({ id: 'job-1' }) };
+    service = new EscalationService(config, orchestrator as any, store, queueProvider as any);
+  });
+
+  it('should escalate step by step until the last step', async () => {
+    await service.start('incident.critical', { id: 42 }, context);
+
+    expect(queueProvider.add).toHaveBeenCalledWith('escalate-notification', expect.objectContaining({ level: 1 }), {
+      delay: 10 * 60 * 1000,
+      attempts: 1,
+      jobId: 'evt-1:escalation:1'
+    });
+
+    await service.escalate(queueProvider.add.mock.calls[0][1]);
+    expect(orchestrator.processEscalationStep).toHaveBeenCalledWith('incident.critical', { id: 42 },
+      expect.objectContaining({ eventId: 'evt-1', metadata: { escalationLevel: 1 } }),
+      escalation[0]);
+    expect(queueProvider.add.mock.calls[1][1].level).toBe(2);
+
+    await service.escalate(queueProvider.add.mock.calls[1][1]);
+    expect((await service.getEscalation('evt-1'))).toMatchObject({ status: 'completed', level: 2 });
+
+    // Nouvelle livraison du job d'une étape déjà déclenchée
+    await service.escalate(queueProvider.add.mock.calls[1][1]);
+    expect(orchestrator.processEscalationStep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop escalating once acknowledged', async () => {
+    await service.start('incident.critical', { id: 42 }, context);
+    // Départ idempotent lors d'une nouvelle tentative du job initial
+    await service.start('incident.critical', { id: 42 }, context);
+    expect(queueProvider.add).toHaveBeenCalledTimes(1);
+
+    const record = await service.acknowledge('evt-1', 'on-call@acme.io');
+    expect(record).toMatchObject({ status: 'acknowledged', level: 0, acknowledgedBy: 'on-call@acme.io' });
+
+    expect(await service.escalate(queueProvider.add.mock.calls[0][1])).toEqual([]);
+    expect(orchestrator.processEscalationStep).not.toHaveBeenCalled();
+    expect(await service.acknowledge('unknown')).toBeUndefined();
+  });
+
+  it('should keep an acknowledgement received during a step', async () => {
+    await service.start('incident.critical', { id: 42 }, context);
+    orchestrator.processEscalationStep.mockImplementation(async () => {
+      await service.acknowledge('evt-1', 'lead@acme.io');
+      return [];
+    });
+
+    await service.escalate(queueProvider.add.mock.calls[0][1]);
+
+    expect(await service.getEscalation('evt-1')).toMatchObject({ status: 'acknowledged', level: 1, acknowledgedBy: 'lead@acme.io' });
+    expect(queueProvider.add).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require a queue processed by workers', async () => {
+    service = new EscalationService({ ...config, mode: 'api' }, orchestrator as any, store, queueProvider as any);
+
+    expect(service.getUnavailabilityReason()).toContain('queue');
+    await expect(service.start('incident.critical', { id: 42 }, context)).rejects.toThrow('cannot start');
+    expect(await service.getEscalation('evt-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,234 @@
+import { Injectable, Logger, Inject, Optional, forwardRef } from '@nestjs/common';
+import {
+    EscalationStep,
+    EventTypeConfig,
+    NotificationContext,
+    NotificationEscalation,
+    NotificationResult,
+    PackageConfig,
+    QueueProvider
+} from '../types/interfaces';
+import { ESCALATION_STORE_TOKEN, EVENT_NOTIFICATIONS_CONFIG, QUEUE_PROVIDER_TOKEN } from '../module/event-notifications.module';
+import { EscalationRecord, EscalationStore } from '../escalation/escalation-store.interface';
+import { NotificationOrchestratorService } from './notification-orchestrator.service';
+import { EventTypeConfigService } from './event-type-config.service';
+import { SystemEventService } from './system-event.service';
+
+/** Nombre de relectures lorsque l'escalade change pendant un acquittement */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Escalade des événements non acquittés
+ *
+ * Après l'envoi initial d'un type d'événement doté d'étapes `escalation`, chaque étape est déclenchée
+ * à l'issue de son délai `after` tant que l'événement n'a pas été acquitté via acknowledge(eventId).
+ * Les délais sont des jobs différés 'escalate-notification' : l'escalade nécessite une queue traitée par des workers
+ * (modes 'worker' et 'hybrid') et un EscalationStore partagé avec eux, vérifiés au démarrage.
+ */
+@Injectable()
+export class EscalationService {
+    protected readonly logger = new Logger(EscalationService.name);
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
+        @Inject(forwardRef(() => NotificationOrchestratorService)) private readonly orchestrator: NotificationOrchestratorService,
+        @Optional() @Inject(forwardRef(() => ESCALATION_STORE_TOKEN)) private readonly escalationStore?: EscalationStore,
+        @Optional() @Inject(forwardRef(() => QUEUE_PROVIDER_TOKEN)) private readonly queueProvider?: QueueProvider,
+        @Optional() @Inject(forwardRef(() => EventTypeConfigService)) private readonly eventTypeConfigs?: EventTypeConfigService,
+        @Optional() @Inject(forwardRef(() => SystemEventService)) private readonly systemEvents?: SystemEventService
+    ) {}
+
+    /**
+     * Raison pour laquelle l'escalade ne peut pas fonctionner avec cette configuration, undefined sinon
+     */
+    getUnavailabilityReason(): string | undefined {
+        if (!this.queueProvider || (this.config.mode || 'api') === 'api') {
+            return `l'escalade nécessite une queue traitée par des workers (mode '${this.config.mode || 'api'}')`;
+        }
+        if (!this.escalationStore) {
+            return `l'escalade nécessite un escalationStore partagé avec les workers (ex. TypeOrmEscalationStore)`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Démarre l'escalade d'un événement après son envoi initial
+     * Sans effet si le type d'événement n'a pas d'étapes ou si l'escalade a déjà démarré (nouvelle tentative du job)
+     */
+    async start(eventType: string, payload: any, context: NotificationContext): Promise<EscalationRecord | undefined> {
+        const steps = this.getSteps(eventType);
+        if (steps.length === 0) {
+            return undefined;
+        }
+
+        const unavailable = this.getUnavailabilityReason();
+        if (unavailable) {
+            throw new Error(`Escalation of ${eventType} cannot start: ${unavailable}`);
+        }
+
+        const existing = await this.escalationStore.get(context.eventId);
+        if (existing) {
+            return existing;
+        }
+
+        const now = new Date();
+        const record: EscalationRecord = {
+            eventId: context.eventId,
+            eventType,
+            status: 'active',
+            level: 0,
+            nextEscalationAt: new Date(now.getTime() + steps[0].after),
+            startedAt: now,
+            updatedAt: now
+        };
+
+        await this.escalationStore.save(record);
+        await this.schedule({ eventType, payload, level: 1, context: this.toEscalationContext(context) }, steps[0].after);
+
+        this.logger.log(`Escalade de l'événement ${context.eventId} (${eventType}) : ${steps.length} étape(s), première dans ${steps[0].after}ms`);
+        return record;
+    }
+
+    /**
+     * Acquitte un événement : les étapes d'escalade restantes ne sont pas déclenchées
+     * Retourne undefined si l'événement n'a pas d'escalade
+     */
+    async acknowledge(eventId: string, acknowledgedBy?: string): Promise<EscalationRecord | undefined> {
+        // L'étape en cours peut faire avancer l'escalade entre la lecture et l'écriture : on relit alors l'état
+        for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+            const record = await this.getStore().get(eventId);
+            if (!record || record.status === 'acknowledged') {
+                return record;
+            }
+
+            const now = new Date();
+            const acknowledged: EscalationRecord = {
+                ...record,
+                status: 'acknowledged',
+                nextEscalationAt: undefined,
+                acknowledgedBy,
+                acknowledgedAt: now,
+                updatedAt: now
+            };
+            if (!await this.getStore().update(acknowledged, record)) {
+                continue;
+            }
+
+            this.logger.log(`Événement ${eventId} acquitté${acknowledgedBy ? ` par ${acknowledgedBy}` : ''} (étape ${record.level})`);
+            this.systemEvents?.publish('escalation.acknowledged', {
+                eventId,
+                eventType: record.eventType,
+                level: record.level,
+                acknowledgedBy
+            });
+
+            return acknowledged;
+        }
+
+        throw new Error(`Escalation of event ${eventId} changed concurrently, acknowledgement not recorded`);
+    }
+
+    /**
+     * Suivi de l'escalade d'un événement
+     */
+    async getEscalation(eventId: string): Promise<EscalationRecord | undefined> {
+        return this.getStore().get(eventId);
+    }
+
+    /**
+     * Déclenche une étape d'escalade si l'événement n'a pas été acquitté, puis programme la suivante
+     * Utilisé par le job 'escalate-notification' et par les étapes programmées en mémoire
+     */
+    async escalate(escalation: NotificationEscalation): Promise<NotificationResult[]> {
+        const { eventType, payload, level, context } = escalation;
+        const store = this.getStore();
+        const record = await store.get(context.eventId);
+
+        if (!record || record.status !== 'active' || record.level >= level) {
+            this.logger.debug(`Étape ${level} de l'escalade ${context.eventId} ignorée (${record?.status ?? 'inconnue'})`);
+            return [];
+        }
+
+        const steps = this.getSteps(eventType);
+        const step = steps[level - 1];
+        if (!step) {
+            await store.update({ ...record, status: 'completed', nextEscalationAt: undefined, updatedAt: new Date() }, record);
+            return [];
+        }
+
+        // L'étape est réservée avant l'envoi : un acquittement concurrent ou un doublon du job l'emporte
+        const next = steps[level];
+        const now = new Date();
+        const escalated: EscalationRecord = {
+            ...record,
+            level,
+            nextEscalationAt: next ? new Date(now.getTime() + next.after) : undefined,
+            updatedAt: now
+        };
+        if (!await store.update(escalated, record)) {
+            this.logger.debug(`Étape ${level} de l'escalade ${context.eventId} ignorée (modifiée entre-temps)`);
+            return [];
+        }
+
+        this.logger.warn(`Événement ${context.eventId} non acquitté : étape d'escalade ${level}/${steps.length} sur [${step.channels.join(', ')}]`);
+
+        const results = await this.orchestrator.processEscalationStep(eventType, payload, {
+            ...context,
+            metadata: { ...context.metadata, escalationLevel: level }
+        }, step);
+
+        this.systemEvents?.publish('escalation.escalated', {
+            eventId: context.eventId,
+            eventType,
+            level,
+            channels: step.channels,
+            sent: results.filter(result => result.status === 'sent').length
+        }, next ? 'warning' : 'error');
+
+        // Un acquittement reçu pendant l'envoi n'est pas écrasé et arrête l'escalade
+        if (!next) {
+            await store.update({ ...escalated, status: 'completed', updatedAt: new Date() }, escalated);
+        } else if ((await store.get(context.eventId))?.status === 'active') {
+            await this.schedule({ ...escalation, level: level + 1 }, next.after);
+        }
+
+        return results;
+    }
+
+    private getSteps(eventType: string): EscalationStep[] {
+        const eventConfig: EventTypeConfig | undefined = this.eventTypeConfigs
+            ? this.eventTypeConfigs.get(eventType)
+            : (this.config.eventTypes as any)?.[eventType];
+        return eventConfig?.escalation || [];
+    }
+
+    /**
+     * Met l'étape en queue (job différé 'escalate-notification') : elle survit aux redémarrages et déploiements
+     */
+    private async schedule(escalation: NotificationEscalation, delay: number): Promise<void> {
+        await this.queueProvider.add('escalate-notification', escalation, {
+            delay,
+            attempts: 1,
+            jobId: `${escalation.context.eventId}:escalation:${escalation.level}`
+        });
+    }
+
+    private toEscalationContext(context: NotificationContext): NotificationContext {
+        return {
+            eventId: context.eventId,
+            correlationId: context.correlationId,
+            causationId: context.causationId,
+            tenantId: context.tenantId,
+            eventType: context.eventType,
+            priority: context.priority,
+            attempt: 1
+        };
+    }
+
+    private getStore(): EscalationStore {
+        if (!this.escalationStore) {
+            throw new Error('EscalationStore not configured. Provide the "escalationStore" module option.');
+        }
+        return this.escalationStore;
+    }
+}
@@ -0,0 +1,233 @@
+import { EventEmitterService } from './event-emitter.service';
+import { InMemoryIdempotencyStore } from '../idempotency/in-memory-idempotency.store';
+import { EventPayloadValidationError } from '../errors/event-payload-validation.error';
+import { EmissionPlan, PackageConfig } from '../types/interfaces';
+import { runWithEventContext } from '../context/event-context';
+
+describe('EventEmitterService', () => {
+  const config: PackageConfig = {
+    mode: 'api',
+    eventTypes: {
+      'order.created': {
+        description: 'Order created',
+        channels: ['email'],
+        schema: { type: 'object', required: ['id'] }
+      }
+    } as any
+  };
+
+  let queueManager: any;
+  let emitter: EventEmitterService<any>;
+
+  beforeEach(() => {
+    queueManager = {
+      processEvent: jest.fn().mockImplementation(async (_eventType, _payload, context) => ({
+        eventId: context.eventId,
+        correlationId: context.correlationId,
+        causationId: context.causationId,
+        mode: 'sync',
+        waitedForResult: true,
+        results: []
+      }))
+    };
+    emitter = new EventEmitterService(config.eventTypes, queueManager, config, new InMemoryIdempotencyStore());
+  });
+
+  it('should reject invalid payloads before processing', async () => {
+    await expect(emitter.emitAsync('order.created', {})).rejects.toThrow(EventPayloadValidationError);
+    expect(queueManager.processEvent).not.toHaveBeenCalled();
+  });
+
+  it('should return the original result for a duplicate idempotency key', async () => {
+    const first = await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-1' });
+    const second = await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-1' });
+
+    expect(queueManager.processEvent).toHaveBeenCalledTimes(1);
+    expect(second.eventId).toBe(first.eventId);
+    expect(second.metadata).toEqual(expect.objectContaining({ duplicate: true, idempotencyKey: 'req-1' }));
+  });
+
+  it('should deduplicate concurrent emissions sharing a key', async () => {
+    const [first, second] = await Promise.all([
+      emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-2' }),
+      emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-2' })
+    ]);
+
+    expect(queueManager.processEvent).toHaveBeenCalledTimes(1);
+    expect(second.eventId).toBe(first.eventId);
+  });
+
+  it('should deduplicate emissions from instances sharing a store', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const first = new EventEmitterService<any>(config.eventTypes, queueManager, config, store);
+    const second = new EventEmitterService<any>(config.eventTypes, queueManager, config, store);
+    const processEvent = queueManager.processEvent.getMockImplementation();
+    queueManager.processEvent.mockImplementation(async (...args: any[]) => {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      return processEvent(...args);
+    });
+
+    const [original, duplicate] = await Promise.all([
+      first.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-5' }),
+      second.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-5' })
+    ]);
+
+    expect(queueManager.processEvent).toHaveBeenCalledTimes(1);
+    expect(duplicate.eventId).toBe(original.eventId);
+    expect(duplicate.metadata).toEqual(expect.objectContaining({ duplicate: true }));
+  });
+
+  it('should release the key when the emission fails', async () => {
+    queueManager.processEvent.mockRejectedValueOnce(new Error('queue unavailable'));
+
+    await expect(emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-6' })).rejects.toThrow('queue unavailable');
+    await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-6' });
+
+    expect(queueManager.processEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should isolate idempotency keys per tenant', async () => {
+    const acme = await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-4', tenantId: 'acme' });
+    const globex = await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-4', tenantId: 'globex' });
+
+    expect(queueManager.processEvent).toHaveBeenCalledTimes(2);
+    expect(globex.eventId).not.toBe(acme.eventId);
+    expect(queueManager.processEvent.mock.calls[1][2]).toEqual(expect.objectContaining({ tenantId: 'globex' }));
+  });
+
+  it('should ignore emissions of a disabled event type', async () => {
+    emitter = new EventEmitterService(
+      { 'order.created': { description: 'Order created', channels: ['email'], enabled: false } } as any,
+      queueManager,
+      config
+    );
+
+    const result = await emitter.emitAsync('order.created', { id: 'o1' });
+
+    expect(queueManager.processEvent).not.toHaveBeenCalled();
+    expect(result.metadata).toEqual({ disabled: true });
+  });
+
+  it('should process again once the dedup window has expired', async () => {
+    await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-3', idempotencyWindow: -1 });
+    await emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'req-3' });
+
+    expect(queueManager.processEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return a plan without processing on dry-run', async () => {
+    const plan: EmissionPlan = { eventType: 'order.created', distributions: [], channels: [], skipped: [] };
+    const orchestrator: any = { planEvent: jest.fn().mockResolvedValue(plan) };
+    emitter = new EventEmitterService(config.eventTypes, queueManager, config, new InMemoryIdempotencyStore(), undefined, undefined, orchestrator);
+
+    const result = await emitter.emitAsync('order.created', { id: 'o1' }, { dryRun: true, idempotencyKey: 'req-4' });
+
+    expect(result.plan).toBe(plan);
+    expect(result.metadata).toEqual({ dryRun: true });
+    expect(queueManager.processEvent).not.toHaveBeenCalled();
+    expect(orchestrator.planEvent).toHaveBeenCalledWith('order.created', { id: 'o1' }, expect.objectContaining({ eventType: 'order.created' }));
+  });
+
+  describe('ambient event context', () => {
+    it('should start a new correlation chain outside any context', async () => {
+      const result = await emitter.emitAsync('order.created', { id: 'o1' });
+
+      expect(result.correlationId).toMatch(/^cor_/);
+      expect(result.causationId).toBeUndefined();
+    });
+
+    it('should inherit the correlation and record the parent event as cause', async () => {
+      const result = await runWithEventContext(
+        { correlationId: 'cor_request', eventId: 'evt_parent', eventType: 'user.created' },
+        async () => {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return emitter.emitAsync('order.created', { id: 'o1' });
+        }
+      );
+
+      expect(result.correlationId).toBe('cor_request');
+      expect(result.causationId).toBe('evt_parent');
+      expect(queueManager.processEvent).toHaveBeenCalledWith(
+        'order.created',
+        { id: 'o1' },
+        expect.objectContaining({ correlationId: 'cor_request', causationId: 'evt_parent' }),
+        {}
+      );
+    });
+
+    it('should let explicit options override the ambient context', async () => {
+      const result = await runWithEventContext({ correlationId: 'cor_request' }, () =>
+        emitter.emitAsync('order.created', { id: 'o1' }, { correlationId: 'cor_custom', causationId: 'evt_other' })
+      );
+
+      expect(result.correlationId).toBe('cor_custom');
+      expect(result.causationId).toBe('evt_other');
+    });
+  });
+
+  describe('emitBatch', () => {
+    beforeEach(() => {
+      queueManager.processEventBatch = jest.fn().mockImplementation(async (events: any[]) =>
+        events.map(event => event.payload.id === 'boom'
+          ? { error: new Error('queue unavailable') }
+          : { result: { eventId: event.context.eventId, correlationId: event.context.correlationId, mode: 'async', waitedForResult: false } }
+        )
+      );
+    });
+
+    it('should validate every item up front and report partial failures', async () => {
+      const result = await emitter.emitBatch([
+        { eventType: 'order.created', payload: { id: 'o1' } },
+        { eventType: 'order.created', payload: {} },
+        { eventType: 'order.created', payload: { id: 'boom' } }
+      ]);
+
+      expect(queueManager.processEventBatch).toHaveBeenCalledTimes(1);
+      expect(queueManager.processEventBatch.mock.calls[0][0]).toHaveLength(2);
+      expect(result).toEqual(expect.objectContaining({ total: 3, emitted: 1, rejected: 1, failed: 1 }));
+      expect(result.items.map(item => item.status)).toEqual(['emitted', 'rejected', 'failed']);
+      expect(result.items[1].validationIssues).toEqual([{ path: 'id', message: 'is required' }]);
+    });
+
+    it('should emit items sharing an idempotency key only once', async () => {
+      const result = await emitter.emitBatch([
+        { eventType: 'order.created', payload: { id: 'o1' }, options: { idempotencyKey: 'k1' } },
+        { eventType: 'order.created', payload: { id: 'o1' }, options: { idempotencyKey: 'k1' } }
+      ]);
+
+      expect(queueManager.processEventBatch.mock.calls[0][0]).toHaveLength(1);
+      expect(result.items[1].result.eventId).toBe(result.items[0].result.eventId);
+      expect(result.items[1].result.metadata.duplicate).toBe(true);
+    });
+
+    it('should dispatch a key shared by concurrent batches only once', async () => {
+      const [first, second] = await Promise.all([
+        emitter.emitBatch([{ eventType: 'order.created', payload: { id: 'o1' }, options: { idempotencyKey: 'k2' } }]),
+        emitter.emitBatch([{ eventType: 'order.created', payload: { id: 'o1' }, options: { idempotencyKey: 'k2' } }])
+      ]);
+
+      expect(queueManager.processEventBatch).toHaveBeenCalledTimes(1);
+      expect(second.items[0].result.eventId).toBe(first.items[0].result.eventId);
+      expect(second.items[0].result.metadata.duplicate).toBe(true);
+    });
+
+    it('should share the reservation of a batch item with a concurrent emission', async () => {
+      const [batch, single] = await Promise.all([
+        emitter.emitBatch([{ eventType: 'order.created', payload: { id: 'o1' }, options: { idempotencyKey: 'k3' } }]),
+        emitter.emitAsync('order.created', { id: 'o1' }, { idempotencyKey: 'k3' })
+      ]);
+
+      expect(queueManager.processEventBatch).toHaveBeenCalledTimes(1);
+      expect(queueManager.processEvent).not.toHaveBeenCalled();
+      expect(single.eventId).toBe(batch.items[0].result.eventId);
+    });
+
+    it('should release the key of a failed batch item', async () => {
+      const failed = await emitter.emitBatch([{ eventType: 'order.created', payload: { id: 'boom' }, options: { idempotencyKey: 'k4' } }]);
+      await emitter.emitAsync('order.created', { id: 'boom' }, { idempotencyKey: 'k4' });
+
+      expect(failed.items[0].status).toBe('failed');
+      expect(queueManager.processEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,27 +1,71 @@
-import {Injectable, Logger, Inject, Optional, forwardRef} from '@nestjs/common';
+import {Injectable, Logger, Inject, Optional, forwardRef, OnModuleInit, OnModuleDestroy} from '@nestjs/common';
+import { EntityManager } from 'typeorm';
 import {
     EventPayloads,
     EventTypesConfig,
     EmitOptions,
     EventEmissionResult,
-    NotificationContext
+    NotificationContext,
+    PackageConfig,
+    BatchEmitItem,
+    BatchEmissionResult,
+    BatchEmissionItemResult,
+    EventCancellationResult,
+    EventTypeConfig
 } from '../types/interfaces';
-import {EVENT_TYPES_CONFIG} from "../module/event-notifications.module";
+import {EVENT_NOTIFICATIONS_CONFIG, EVENT_TYPES_CONFIG, IDEMPOTENCY_STORE_TOKEN} from "../module/event-notifications.module";
 import { QueueManagerService } from './queue-manager.service';
+import { NotificationOrchestratorService } from './notification-orchestrator.service';
+import { EventSchedulerService } from './event-scheduler.service';
+import { EventStatusService } from './event-status.service';
+import { assertValidPayload, validatePayload } from '../validation/payload-validator';
+import { EventPayloadValidationError } from '../errors/event-payload-validation.error';
+import { IdempotencyStore } from '../idempotency/idempotency-store.interface';
+import { OutboxEventRecord, getOutboxEntitySchema } from '../outbox/outbox-event.entity';
+import { EventStatusRecord } from '../status/event-status-store.interface';
+import { EventSchedule, RecurringScheduleOptions, ScheduledPayloadFactory } from '../scheduling/schedule-store.interface';
+import { createCorrelationId, getEventContext } from '../context/event-context';
+import { EmitsEventRegistry } from '../decorators/emits-event.decorator';
+import { EventTypeConfigService } from './event-type-config.service';
+
+/** Fenêtre de déduplication par défaut des clés d'idempotence (24h) */
+const DEFAULT_IDEMPOTENCY_WINDOW = 24 * 60 * 60 * 1000;
+
+/** Durée de réservation d'une clé d'idempotence pendant l'émission (en ms) */
+const IDEMPOTENCY_RESERVATION_TTL = 60 * 1000;
+
+/** Intervalle de consultation du résultat d'une émission identique en cours (en ms) */
+const IDEMPOTENCY_POLL_INTERVAL = 100;
 
 /**
  * Service principal pour l'émission d'événements avec type safety
  * Version simplifiée sans routing ni queue complexe
  */
 @Injectable()
-export class EventEmitterService<T extends EventPayloads = EventPayloads> {
+export class EventEmitterService<T extends EventPayloads = EventPayloads> implements OnModuleInit, OnModuleDestroy {
     protected readonly logger = new Logger(EventEmitterService.name);
+    private readonly inFlightEmissions = new Map<string, Promise<EventEmissionResult>>();
 
     constructor(
         @Inject(forwardRef(() => EVENT_TYPES_CONFIG)) private readonly eventConfig: EventTypesConfig<T>,
-        @Inject(forwardRef(() => QueueManagerService)) private readonly queueManager: QueueManagerService
+        @Inject(forwardRef(() => QueueManagerService)) private readonly queueManager: QueueManagerService,
+        @Optional() @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config?: PackageConfig<T>,
+        @Optional() @Inject(forwardRef(() => IDEMPOTENCY_STORE_TOKEN)) private readonly idempotencyStore?: IdempotencyStore,
+        @Optional() @Inject(forwardRef(() => EventSchedulerService)) private readonly scheduler?: EventSchedulerService,
+        @Optional() @Inject(forwardRef(() => EventStatusService)) private readonly statusService?: EventStatusService,
+        @Optional() @Inject(forwardRef(() => NotificationOrchestratorService)) private readonly orchestrator?: NotificationOrchestratorService,
+        @Optional() @Inject(forwardRef(() => EventTypeConfigService)) private readonly eventTypeConfigs?: EventTypeConfigService
     ) {}
 
+    onModuleInit(): void {
+        // Rend le service disponible aux méthodes décorées avec @EmitsEvent
+        EmitsEventRegistry.setEmitter(this);
+    }
+
+    onModuleDestroy(): void {
+        EmitsEventRegistry.clear(this);
+    }
+
     /**
      * Émet un événement de manière asynchrone
      */
@@ -30,23 +74,143 @@ export class EventEmitterService<T extends EventPayloads = EventPayloads> {
         payload: T[K],
         options: EmitOptions = {}
     ): Promise<EventEmissionResult> {
-        const eventId = this.generateEventId();
-        const correlationId = options.correlationId || this.generateCorrelationId();
+        return this.emit(eventType, payload, options, 'async');
+    }
+
+    /**
+     * Émet un événement de manière synchrone et attend le résultat
+     */
+    async emitSync<K extends keyof T>(
+        eventType: K,
+        payload: T[K],
+        options: EmitOptions = {}
+    ): Promise<EventEmissionResult> {
+        // Force le mode sync pour emitSync
+        return this.emit(eventType, payload, { ...options, mode: 'sync' }, 'sync');
+    }
+
+    /**
+     * Chemin d'émission commun à emitAsync et emitSync
+     */
+    private async emit<K extends keyof T>(
+        eventType: K,
+        payload: T[K],
+        options: EmitOptions,
+        kind: 'async' | 'sync'
+    ): Promise<EventEmissionResult> {
+        this.validatePayload(eventType, payload);
+
+        if (options.dryRun) {
+            return this.dryRun(eventType.toString(), payload, options);
+        }
+
+        if (this.isDisabled(eventType.toString())) {
+            return this.createDisabledResult(eventType.toString(), options);
+        }
+
+        if (!options.idempotencyKey) {
+            return this.dispatch(eventType, payload, options, kind);
+        }
+
+        return this.emitIdempotent(eventType, payload, options, kind);
+    }
+
+    /**
+     * Émission protégée par une clé d'idempotence
+     * Une émission rejouée dans la fenêtre de déduplication renvoie le résultat original sans retraitement
+     */
+    private async emitIdempotent<K extends keyof T>(
+        eventType: K,
+        payload: T[K],
+        options: EmitOptions,
+        kind: 'async' | 'sync'
+    ): Promise<EventEmissionResult> {
+        const key = this.getIdempotencyKey(eventType.toString(), options);
+
+        // Émission identique déjà en cours dans ce processus
+        const inFlight = this.inFlightEmissions.get(key);
+        if (inFlight) {
+            return this.markAsReplay(await inFlight, options.idempotencyKey);
+        }
+
+        let replayed = false;
+        const emission = (async () => {
+            if (!this.idempotencyStore) {
+                return this.dispatch(eventType, payload, options, kind);
+            }
+
+            const existing = await this.reserveIdempotencyKey(key, options);
+            if (existing) {
+                this.logger.debug(`Duplicate emission ignored for ${eventType.toString()} (key: ${options.idempotencyKey})`);
+                replayed = true;
+                return existing;
+            }
+
+            let result: EventEmissionResult;
+            try {
+                result = await this.dispatch(eventType, payload, options, kind);
+            } catch (error) {
+                // Libère la réservation : une nouvelle tentative pourra émettre
+                await this.idempotencyStore.delete?.(key);
+                throw error;
+            }
+
+            await this.idempotencyStore.set(key, result, this.getIdempotencyWindow(options));
+            return result;
+        })();
+
+        // Enregistré avant tout await pour couvrir les émissions concurrentes
+        this.inFlightEmissions.set(key, emission);
+
+        try {
+            const result = await emission;
+            return replayed ? this.markAsReplay(result, options.idempotencyKey) : result;
+        } finally {
+            this.inFlightEmissions.delete(key);
+        }
+    }
+
+    /**
+     * Réserve la clé avant l'émission, ou attend le résultat d'une émission identique en cours
+     * sur une autre instance (ou d'un retry arrivé avant la fin de la première émission)
+     * Retourne le résultat original pour un doublon, undefined si la clé est réservée par cet appel
+     */
+    private async reserveIdempotencyKey(key: string, options: EmitOptions): Promise<EventEmissionResult | undefined> {
+        const deadline = Date.now() + IDEMPOTENCY_RESERVATION_TTL;
+
+        while (!await this.idempotencyStore.reserve(key, IDEMPOTENCY_RESERVATION_TTL)) {
+            const existing = await this.idempotencyStore.get(key);
+            if (existing) {
+                return existing;
+            }
+
+            if (Date.now() >= deadline) {
+                throw new Error(`Emission with idempotency key ${options.idempotencyKey} is still in progress`);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, IDEMPOTENCY_POLL_INTERVAL));
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Construit le contexte et délègue le traitement au QueueManager
+     */
+    private async dispatch<K extends keyof T>(
+        eventType: K,
+        payload: T[K],
+        options: EmitOptions,
+        kind: 'async' | 'sync'
+    ): Promise<EventEmissionResult> {
+        const context = this.createContext(eventType.toString(), options);
 
-        this.logger.debug(`Emitting async event: ${eventType.toString()}`, {
-            eventId,
-            correlationId,
+        this.logger.debug(`Emitting ${kind} event: ${eventType.toString()}`, {
+            eventId: context.eventId,
+            correlationId: context.correlationId,
             payload
         });
 
-        const context: NotificationContext = {
-            eventId,
-            correlationId,
-            attempt: 1,
-            eventType: eventType.toString(),
-            metadata: options.metadata || {}
-        };
-
         // Délègue au QueueManager qui décidera du traitement (immédiat ou queue)
         if (!this.queueManager) {
             throw new Error('QueueManager not available. Module may not be properly configured.');
@@ -61,41 +225,327 @@ export class EventEmitterService<T extends EventPayloads = EventPayloads> {
     }
 
     /**
-     * Émet un événement de manière synchrone et attend le résultat
+     * Simule une émission : retourne le plan d'envoi sans rien envoyer
+     * Ni queue, ni handlers, ni enregistrement (idempotence, EventStore, statuts)
      */
-    async emitSync<K extends keyof T>(
+    private async dryRun(eventType: string, payload: any, options: EmitOptions): Promise<EventEmissionResult> {
+        if (!this.orchestrator) {
+            throw new Error('NotificationOrchestrator not available. Module may not be properly configured.');
+        }
+
+        const startTime = Date.now();
+        const context = this.createContext(eventType, options);
+        const plan = await this.orchestrator.planEvent(eventType, payload, context);
+
+        this.logger.debug(`Dry-run for ${eventType}: ${plan.channels.length} channel(s), ${plan.skipped.length} skipped`);
+
+        return {
+            eventId: context.eventId,
+            correlationId: context.correlationId,
+            causationId: context.causationId,
+            mode: 'sync',
+            waitedForResult: true,
+            results: [],
+            processedAt: new Date(),
+            processingDuration: Date.now() - startTime,
+            metadata: { dryRun: true },
+            plan
+        };
+    }
+
+    /**
+     * Émet un lot d'événements
+     * Tous les payloads sont validés avant le moindre traitement, puis les éléments valides
+     * sont mis en queue en un seul appel. Un élément en échec n'empêche pas l'émission des autres.
+     * Les options du lot servent de valeurs par défaut (hors idempotencyKey, propre à chaque élément).
+     * Les clés d'idempotence sont réservées comme pour emit() : une émission concurrente partageant
+     * une clé (lot ou émission unitaire) reprend le résultat de la première.
+     */
+    async emitBatch(events: BatchEmitItem<T>[], options: EmitOptions = {}): Promise<BatchEmissionResult> {
+        const batchOptions: EmitOptions = { ...options, idempotencyKey: undefined };
+        const items: BatchEmissionItemResult[] = new Array(events.length);
+        const pending: Array<{ index: number, eventType: string, payload: any, context: NotificationContext, options: EmitOptions, key?: string }> = [];
+        const duplicates = new Map<number, number>();
+        const firstIndexByKey = new Map<string, number>();
+        const reservations = new Map<string, (outcome: { result?: EventEmissionResult, error?: Error }) => Promise<void>>();
+
+        try {
+            // 1. Validation, déduplication et réservation des clés de tout le lot avant traitement
+            for (const [index, event] of events.entries()) {
+                const eventType = event.eventType.toString();
+                const itemOptions: EmitOptions = { ...batchOptions, ...event.options };
+
+                const schema = this.getTypeConfig(eventType)?.schema;
+                const issues = schema ? validatePayload(schema, event.payload) : [];
+                if (issues.length > 0) {
+                    items[index] = {
+                        index,
+                        eventType,
+                        status: 'rejected',
+                        error: new EventPayloadValidationError(eventType, issues).message,
+                        validationIssues: issues
+                    };
+                    continue;
+                }
+
+                if (itemOptions.dryRun) {
+                    items[index] = { index, eventType, status: 'emitted', result: await this.dryRun(eventType, event.payload, itemOptions) };
+                    continue;
+                }
+
+                if (this.isDisabled(eventType)) {
+                    items[index] = { index, eventType, status: 'emitted', result: this.createDisabledResult(eventType, itemOptions) };
+                    continue;
+                }
+
+                const key = itemOptions.idempotencyKey ? this.getIdempotencyKey(eventType, itemOptions) : undefined;
+                if (key) {
+                    if (firstIndexByKey.has(key)) {
+                        duplicates.set(index, firstIndexByKey.get(key));
+                        continue;
+                    }
+                    firstIndexByKey.set(key, index);
+
+                    let existing: EventEmissionResult | undefined;
+                    try {
+                        existing = await this.reserveBatchKey(key, itemOptions, reservations);
+                    } catch (error) {
+                        items[index] = { index, eventType, status: 'failed', error: error.message };
+                        continue;
+                    }
+
+                    if (existing) {
+                        items[index] = { index, eventType, status: 'emitted', result: this.markAsReplay(existing, itemOptions.idempotencyKey) };
+                        continue;
+                    }
+                }
+
+                pending.push({ index, eventType, payload: event.payload, context: this.createContext(eventType, itemOptions), options: itemOptions, key });
+            }
+
+            // 2. Traitement groupé des éléments valides
+            if (pending.length > 0) {
+                if (!this.queueManager) {
+                    throw new Error('QueueManager not available. Module may not be properly configured.');
+                }
+
+                this.logger.debug(`Emitting batch of ${pending.length} event(s)`);
+                const outcomes = await this.queueManager.processEventBatch(pending);
+
+                for (const [position, entry] of pending.entries()) {
+                    const outcome = outcomes[position];
+                    if (outcome.error) {
+                        items[entry.index] = { index: entry.index, eventType: entry.eventType, status: 'failed', error: outcome.error.message };
+                    } else {
+                        items[entry.index] = { index: entry.index, eventType: entry.eventType, status: 'emitted', result: outcome.result };
+                    }
+
+                    if (entry.key) {
+                        await reservations.get(entry.key)?.(outcome);
+                    }
+                }
+            }
+        } catch (error) {
+            // Libère les clés encore réservées : une nouvelle tentative pourra émettre
+            for (const release of reservations.values()) {
+                await release({ error });
+            }
+            throw error;
+        }
+
+        // 3. Les doublons internes au lot reprennent le résultat du premier élément
+        for (const [index, firstIndex] of duplicates) {
+            const first = items[firstIndex];
+            items[index] = {
+                ...first,
+                index,
+                result: first.result ? this.markAsReplay(first.result, events[index].options?.idempotencyKey) : undefined
+            };
+        }
+
+        return {
+            total: events.length,
+            emitted: items.filter(item => item.status === 'emitted').length,
+            rejected: items.filter(item => item.status === 'rejected').length,
+            failed: items.filter(item => item.status === 'failed').length,
+            items
+        };
+    }
+
+    /**
+     * Réserve la clé d'un élément de lot (même protocole qu'emitIdempotent)
+     * Retourne le résultat original pour un doublon ; sinon la clé est enregistrée comme émission en cours
+     * et `reservations` reçoit la fonction qui enregistre son issue (résultat conservé, ou clé libérée en cas d'échec)
+     */
+    private async reserveBatchKey(
+        key: string,
+        options: EmitOptions,
+        reservations: Map<string, (outcome: { result?: EventEmissionResult, error?: Error }) => Promise<void>>
+    ): Promise<EventEmissionResult | undefined> {
+        const inFlight = this.inFlightEmissions.get(key);
+        if (inFlight) {
+            return inFlight;
+        }
+
+        if (this.idempotencyStore) {
+            const existing = await this.reserveIdempotencyKey(key, options);
+            if (existing) {
+                return existing;
+            }
+        }
+
+        let settle: (outcome: { result?: EventEmissionResult, error?: Error }) => void;
+        const emission = new Promise<EventEmissionResult>((resolve, reject) => {
+            settle = outcome => outcome.error ? reject(outcome.error) : resolve(outcome.result);
+        });
+        // Le rejet n'est observé que par d'éventuelles émissions concurrentes
+        emission.catch((): void => undefined);
+        this.inFlightEmissions.set(key, emission);
+
+        reservations.set(key, async outcome => {
+            reservations.delete(key);
+            try {
+                if (outcome.error) {
+                    await this.idempotencyStore?.delete?.(key);
+                } else {
+                    await this.idempotencyStore?.set(key, outcome.result, this.getIdempotencyWindow(options));
+                }
+            } finally {
+                this.inFlightEmissions.delete(key);
+                settle(outcome);
+            }
+        });
+
+        return undefined;
+    }
+
+    /**
+     * Émet un événement via l'outbox transactionnel
+     * L'événement est écrit dans la table d'outbox avec l'EntityManager de la transaction en cours :
+     * il n'est relayé au QueueManager qu'après commit, et jamais en cas de rollback.
+     */
+    async emitInTransaction<K extends keyof T>(
+        manager: EntityManager,
         eventType: K,
         payload: T[K],
         options: EmitOptions = {}
     ): Promise<EventEmissionResult> {
-        const eventId = this.generateEventId();
-        const correlationId = options.correlationId || this.generateCorrelationId();
+        this.validatePayload(eventType, payload);
 
-        this.logger.debug(`Emitting sync event: ${eventType.toString()}`, {
-            eventId,
-            correlationId,
-            payload
+        const context = this.createContext(eventType.toString(), options);
+        const queuedAt = new Date();
+
+        const record: OutboxEventRecord = {
+            id: context.eventId,
+            eventType: eventType.toString(),
+            payload,
+            context,
+            options,
+            status: 'pending',
+            attempts: 0,
+            createdAt: queuedAt
+        };
+
+        await manager.getRepository(getOutboxEntitySchema(this.config?.tablePrefix)).insert(record);
+
+        this.logger.debug(`Event ${eventType.toString()} written to outbox`, {
+            eventId: context.eventId,
+            correlationId: context.correlationId
         });
 
-        const context: NotificationContext = {
-            eventId,
-            correlationId,
+        return {
+            eventId: context.eventId,
+            correlationId: context.correlationId,
+            causationId: context.causationId,
+            mode: 'async',
+            waitedForResult: false,
+            queuedAt,
+            metadata: { outbox: true }
+        };
+    }
+
+    /**
+     * Planifie l'émission d'un événement à une date donnée
+     * Le payload est validé immédiatement, pas au déclenchement
+     */
+    async emitAt<K extends keyof T>(
+        eventType: K,
+        payload: T[K],
+        date: Date,
+        options: EmitOptions = {}
+    ): Promise<EventSchedule> {
+        this.validatePayload(eventType, payload);
+        return this.getScheduler().scheduleOnce(eventType.toString(), payload, date, options);
+    }
+
+    /**
+     * Planifie l'émission récurrente d'un événement selon une expression cron
+     * Le payloadFactory est appelé à chaque occurrence
+     */
+    async scheduleRecurring<K extends keyof T>(
+        eventType: K,
+        cron: string,
+        payloadFactory: ScheduledPayloadFactory<T[K]>,
+        options: RecurringScheduleOptions = {}
+    ): Promise<EventSchedule> {
+        return this.getScheduler().scheduleRecurring(eventType.toString(), cron, payloadFactory, options);
+    }
+
+    private getScheduler(): EventSchedulerService {
+        if (!this.scheduler) {
+            throw new Error('EventScheduler not available. Module may not be properly configured.');
+        }
+        return this.scheduler;
+    }
+
+    /**
+     * Crée le contexte de notification d'une nouvelle émission
+     * Hérite du contexte ambiant (requête HTTP, handler en cours) : même corrélation, événement parent comme cause
+     */
+    private createContext(eventType: string, options: EmitOptions): NotificationContext {
+        const ambient = getEventContext();
+
+        return {
+            eventId: this.generateEventId(),
+            correlationId: options.correlationId || ambient?.correlationId || createCorrelationId(),
+            causationId: options.causationId || ambient?.eventId,
+            tenantId: options.tenantId || ambient?.tenantId,
+            priority: options.priority,
             attempt: 1,
-            eventType: eventType.toString(),
+            eventType,
             metadata: options.metadata || {}
         };
+    }
 
-        // Force le mode sync pour emitSync
-        if (!this.queueManager) {
-            throw new Error('QueueManager not available. Module may not be properly configured.');
-        }
+    /**
+     * Clé de stockage d'une clé d'idempotence, isolée par type d'événement et par tenant
+     */
+    private getIdempotencyKey(eventType: string, options: EmitOptions): string {
+        const tenantId = options.tenantId || getEventContext()?.tenantId;
+        return `${tenantId ? `${tenantId}:` : ''}${eventType}:${options.idempotencyKey}`;
+    }
 
-        return await this.queueManager.processEvent(
-            eventType.toString(),
-            payload,
-            context,
-            { ...options, mode: 'sync' }
-        );
+    /**
+     * Fenêtre de déduplication applicable à une émission
+     */
+    private getIdempotencyWindow(options: EmitOptions): number {
+        return options.idempotencyWindow
+            ?? this.config?.global?.idempotencyWindow
+            ?? DEFAULT_IDEMPOTENCY_WINDOW;
+    }
+
+    /**
+     * Signale qu'un résultat provient d'une émission déjà traitée
+     */
+    private markAsReplay(result: EventEmissionResult, idempotencyKey: string): EventEmissionResult {
+        return {
+            ...result,
+            metadata: {
+                ...result.metadata,
+                idempotencyKey,
+                duplicate: true
+            }
+        };
     }
 
     /**
@@ -110,39 +560,142 @@ export class EventEmitterService<T extends EventPayloads = EventPayloads> {
     }
 
     /**
-     * Génère un ID unique pour l'événement
+     * Statut de traitement d'un événement émis (queued, processing, completed, failed)
      */
-    private generateEventId(): string {
-        return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    async getStatus(eventId: string): Promise<EventStatusRecord | undefined> {
+        return this.getStatusService().getStatus(eventId);
+    }
+
+    /**
+     * Attend la fin du traitement d'un événement, y compris par un worker séparé
+     * Lève une EventCompletionTimeoutError si le délai est dépassé
+     */
+    async waitForCompletion(eventId: string, timeout?: number): Promise<EventStatusRecord> {
+        return this.getStatusService().waitForCompletion(eventId, timeout);
     }
 
     /**
-     * Génère un ID de corrélation unique
+     * Annule un événement en attente (différé ou en queue) ou une planification (emitAt/scheduleRecurring)
+     * Indique si l'événement a été retiré ou si son traitement avait déjà commencé
      */
-    private generateCorrelationId(): string {
-        return `cor_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    async cancel(eventId: string): Promise<EventCancellationResult> {
+        const schedule = this.scheduler ? await this.scheduler.getSchedule(eventId) : undefined;
+        if (schedule) {
+            return this.cancelSchedule(schedule);
+        }
+
+        return this.queueManager.cancelEvent(eventId);
+    }
+
+    /**
+     * Annule tous les événements en attente et planifications d'une même corrélation
+     */
+    async cancelByCorrelationId(correlationId: string): Promise<EventCancellationResult[]> {
+        const results: EventCancellationResult[] = [];
+
+        for (const record of await this.getStatusService().findByCorrelationId(correlationId)) {
+            results.push(await this.queueManager.cancelEvent(record.eventId));
+        }
+
+        if (this.scheduler) {
+            for (const schedule of await this.scheduler.listSchedules({ correlationId })) {
+                results.push(await this.cancelSchedule(schedule));
+            }
+        }
+
+        this.logger.debug(
+            `Cancelled ${results.filter(result => result.status === 'cancelled').length}/${results.length} ` +
+            `event(s) for correlation ${correlationId}`
+        );
+
+        return results;
+    }
+
+    private async cancelSchedule(schedule: EventSchedule): Promise<EventCancellationResult> {
+        if (schedule.status === 'completed') {
+            return { eventId: schedule.id, status: 'started' };
+        }
+
+        if (schedule.status !== 'cancelled') {
+            await this.scheduler.cancelSchedule(schedule.id);
+        }
+
+        return { eventId: schedule.id, status: 'cancelled' };
+    }
+
+    private getStatusService(): EventStatusService {
+        if (!this.statusService) {
+            throw new Error('EventStatusService not available. Module may not be properly configured.');
+        }
+        return this.statusService;
+    }
+
+    /**
+     * Génère un ID unique pour l'événement
+     */
+    private generateEventId(): string {
+        return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     }
 
     /**
      * Valide la configuration d'un événement
      */
     private validateEventType<K extends keyof T>(eventType: K): void {
-        if (!this.eventConfig[eventType]) {
+        if (!this.getTypeConfig(eventType.toString())) {
             throw new Error(`Event type "${eventType.toString()}" is not configured`);
         }
     }
 
+    /**
+     * Valide le payload contre le schéma du type d'événement (si défini)
+     * Lève une EventPayloadValidationError avant toute mise en queue
+     */
+    private validatePayload<K extends keyof T>(eventType: K, payload: T[K]): void {
+        assertValidPayload(eventType.toString(), this.getTypeConfig(eventType.toString())?.schema, payload);
+    }
+
+    /**
+     * Configuration courante d'un type d'événement (modifiable à l'exécution via EventTypeConfigService)
+     */
+    private getTypeConfig(eventType: string): EventTypeConfig | undefined {
+        return this.eventTypeConfigs
+            ? this.eventTypeConfigs.get(eventType)
+            : (this.eventConfig as EventTypesConfig<any>)[eventType];
+    }
+
+    /**
+     * Un type d'événement désactivé (enabled: false) n'est ni traité ni mis en queue
+     */
+    private isDisabled(eventType: string): boolean {
+        return this.getTypeConfig(eventType)?.enabled === false;
+    }
+
+    private createDisabledResult(eventType: string, options: EmitOptions): EventEmissionResult {
+        const context = this.createContext(eventType, options);
+        this.logger.debug(`Event type ${eventType} is disabled, emission ignored`);
+
+        return {
+            eventId: context.eventId,
+            correlationId: context.correlationId,
+            causationId: context.causationId,
+            mode: 'sync',
+            waitedForResult: false,
+            results: [],
+            metadata: { disabled: true }
+        };
+    }
+
     /**
      * Obtient la configuration d'un type d'événement
      */
     getEventConfig<K extends keyof T>(eventType: K) {
-        return this.eventConfig[eventType];
+        return this.getTypeConfig(eventType.toString());
     }
 
     /**
      * Liste tous les types d'événements configurés
      */
     getAvailableEventTypes(): Array<keyof T> {
-        return Object.keys(this.eventConfig) as Array<keyof T>;
+        return Object.keys(this.eventTypeConfigs ? this.eventTypeConfigs.getAll() : this.eventConfig) as Array<keyof T>;
     }
 }
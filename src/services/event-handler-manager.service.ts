@@ -1,11 +1,12 @@
 import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
 import { ModuleRef } from '@nestjs/core';
 import { EventHandler } from '../interfaces/event-handler.interface';
-import { EventHandlerContext } from '../types/handler-queue.types';
+import { EventHandlerContext, HandlerExecutionResult } from '../types/handler-queue.types';
 import { discoverEventHandlers, HandlerMetadata } from '../decorators/injectable-handler.decorator';
 import { HandlerQueueManagerService } from './handler-queue-manager.service';
 import { PackageConfig } from '../types/interfaces';
 import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+import { runWithEventContext, toEventContext } from '../context/event-context';
 
 @Injectable()
 export class EventHandlerManagerService implements OnModuleInit {
@@ -77,7 +78,7 @@ export class EventHandlerManagerService implements OnModuleInit {
     /**
      * Exécute tous les handlers pour un événement donné
      */
-    async executeHandlers(eventType: string, payload: any, context: EventHandlerContext): Promise<any[]> {
+    async executeHandlers(eventType: string, payload: any, context: EventHandlerContext): Promise<HandlerExecutionResult[]> {
         const handlers = this.getHandlersForEvent(eventType);
 
         if (handlers.length === 0) {
@@ -85,14 +86,14 @@ export class EventHandlerManagerService implements OnModuleInit {
             return [];
         }
 
-        const results: any[] = [];
+        const results: HandlerExecutionResult[] = [];
 
         for (const handler of handlers) {
             const handlerName = handler.getName();
             const metadata = this.handlerMetadata.get(handlerName);
 
             try {
-                let result;
+                let result: HandlerExecutionResult;
 
                 // Détermine si le handler doit être exécuté en sync ou async
                 if (metadata?.queue && metadata.queue.processing !== 'sync') {
@@ -112,8 +113,11 @@ export class EventHandlerManagerService implements OnModuleInit {
                         processing: metadata.queue.processing
                     };
                 } else {
-                    // Exécution synchrone directe
-                    const executionResult = await handler.execute(eventType, payload, context);
+                    // Exécution synchrone directe : les événements émis par le handler héritent du contexte
+                    const executionResult = await runWithEventContext(
+                        toEventContext(context),
+                        () => handler.execute(eventType, payload, context)
+                    );
 
                     result = {
                         handler: handlerName,
@@ -0,0 +1,99 @@
+import { EventSchedulerService } from './event-scheduler.service';
+import { InMemoryScheduleStore } from '../scheduling/in-memory-schedule.store';
+import { NotificationRedelivery, PackageConfig } from '../types/interfaces';
+
+describe('EventSchedulerService', () => {
+  const config = { mode: 'api', eventTypes: {} } as unknown as PackageConfig;
+  const redelivery: NotificationRedelivery = {
+    eventType: 'user.created',
+    payload: { id: 1 },
+    channel: 'email',
+    distributions: [{ name: 'team', MAIN: [{ id: 'u1', name: 'Alice' }], COPY: [], BLIND: [] }],
+    context: { eventId: 'evt_1', correlationId: 'cor_1', eventType: 'user.created', attempt: 2 },
+    fallbackChannels: ['sms']
+  };
+
+  let store: InMemoryScheduleStore;
+  let eventEmitter: { emitAsync: jest.Mock };
+  let orchestrator: { redeliver: jest.Mock };
+  let scheduler: EventSchedulerService;
+
+  beforeEach(() => {
+    store = new InMemoryScheduleStore();
+    eventEmitter = { emitAsync: jest.fn().mockResolvedValue({ eventId: 'evt_2' }) };
+    orchestrator = { redeliver: jest.fn().mockResolvedValue([]) };
+    scheduler = new EventSchedulerService(config, store, eventEmitter as any, orchestrator as any);
+  });
+
+  it('should emit a one-off schedule once when due', async () => {
+    const runAt = new Date('2024-03-01T09:00:00Z');
+    const schedule = await scheduler.scheduleOnce('user.created', { id: 1 }, runAt);
+
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T08:59:00Z'))).toBe(0);
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T09:00:00Z'))).toBe(1);
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T09:01:00Z'))).toBe(0);
+
+    expect(eventEmitter.emitAsync).toHaveBeenCalledTimes(1);
+    expect(eventEmitter.emitAsync).toHaveBeenCalledWith('user.created', { id: 1 },
+      expect.objectContaining({ idempotencyKey: `schedule:${schedule.id}:${runAt.toISOString()}` }));
+    expect((await scheduler.getSchedule(schedule.id)).status).toBe('completed');
+  });
+
+  it('should release the occurrence when the emission fails, and retry it on the next poll', async () => {
+    const runAt = new Date('2024-03-01T09:00:00Z');
+    const schedule = await scheduler.scheduleOnce('user.created', { id: 1 }, runAt);
+    eventEmitter.emitAsync.mockRejectedValueOnce(new Error('Queue unavailable'));
+
+    expect(await scheduler.runDueSchedules(runAt)).toBe(0);
+    expect(await scheduler.getSchedule(schedule.id)).toMatchObject({ status: 'active', nextRunAt: runAt, runCount: 0 });
+
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T09:00:01Z'))).toBe(1);
+    expect(eventEmitter.emitAsync).toHaveBeenCalledTimes(2);
+    expect((await scheduler.getSchedule(schedule.id)).status).toBe('completed');
+  });
+
+  it('should retry a recurring occurrence whose payload factory fails', async () => {
+    const factory = jest.fn().mockRejectedValueOnce(new Error('Database down')).mockResolvedValue({ date: 'today' });
+    const schedule = await scheduler.scheduleRecurring('report.daily', '0 8 * * *', factory, { id: 'daily-report' });
+    const runAt = schedule.nextRunAt;
+
+    expect(await scheduler.runDueSchedules(runAt)).toBe(0);
+    expect((await scheduler.getSchedule('daily-report')).nextRunAt).toEqual(runAt);
+
+    expect(await scheduler.runDueSchedules(runAt)).toBe(1);
+    expect(eventEmitter.emitAsync).toHaveBeenCalledWith('report.daily', { date: 'today' },
+      expect.objectContaining({ idempotencyKey: `schedule:daily-report:${runAt.toISOString()}` }));
+  });
+
+  it('should warn once about a persisted recurring schedule whose factory was not registered again', async () => {
+    const schedule = await scheduler.scheduleRecurring('report.daily', '0 8 * * *', async () => ({}), { id: 'daily-report' });
+    const restarted = new EventSchedulerService(config, store, eventEmitter as any, orchestrator as any);
+    const warn = jest.spyOn((restarted as any).logger, 'warn').mockImplementation(() => undefined);
+
+    expect(await restarted.runDueSchedules(schedule.nextRunAt)).toBe(0);
+    expect(await restarted.runDueSchedules(schedule.nextRunAt)).toBe(0);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("scheduleRecurring avec l'ID 'daily-report'");
+    expect((await restarted.getSchedule('daily-report')).nextRunAt).toEqual(schedule.nextRunAt);
+  });
+
+  it('should run persisted redeliveries through the orchestrator', async () => {
+    await scheduler.scheduleRedelivery('evt_1:email:2:abc', redelivery, new Date('2024-03-01T09:00:00Z'));
+
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T09:00:00Z'))).toBe(1);
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T09:01:00Z'))).toBe(0);
+
+    expect(orchestrator.redeliver).toHaveBeenCalledTimes(1);
+    expect(orchestrator.redeliver).toHaveBeenCalledWith(redelivery);
+    expect(eventEmitter.emitAsync).not.toHaveBeenCalled();
+  });
+
+  it('should leave redeliveries to instances with an orchestrator', async () => {
+    scheduler = new EventSchedulerService(config, store, eventEmitter as any);
+    await scheduler.scheduleRedelivery('evt_1:email:2:abc', redelivery, new Date('2024-03-01T09:00:00Z'));
+
+    expect(await scheduler.runDueSchedules(new Date('2024-03-01T09:00:00Z'))).toBe(0);
+    expect((await scheduler.getSchedule('evt_1:email:2:abc')).status).toBe('active');
+  });
+});
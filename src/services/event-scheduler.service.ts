@@ -0,0 +1,329 @@
+import { Injectable, Logger, Inject, Optional, OnModuleInit, OnModuleDestroy, forwardRef } from '@nestjs/common';
+import { EmitOptions, NotificationRedelivery, PackageConfig } from '../types/interfaces';
+import {
+    EventSchedule,
+    RecurringScheduleOptions,
+    ScheduleFilter,
+    ScheduleStore,
+    ScheduledPayloadFactory
+} from '../scheduling/schedule-store.interface';
+import { CronExpression } from '../scheduling/cron-expression';
+import { EventEmitterService } from './event-emitter.service';
+import { NotificationOrchestratorService } from './notification-orchestrator.service';
+import { EVENT_NOTIFICATIONS_CONFIG, SCHEDULE_STORE_TOKEN } from '../module/event-notifications.module';
+
+/** Intervalle de scrutation par défaut des planifications (en ms) */
+const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * Service de planification des émissions
+ *
+ * - Émissions ponctuelles à une date donnée (emitAt)
+ * - Émissions récurrentes selon une expression cron et un fuseau horaire
+ * - Nouveaux envois différés d'un canal (tentatives, heures de silence) lorsque la queue n'est pas traitée par des workers
+ * - Persistance via un ScheduleStore : les planifications survivent aux redémarrages.
+ *   Les payloadFactory, non persistables, doivent être réenregistrés au démarrage (scheduleRecurring avec le même ID)
+ * - Chaque occurrence est réclamée atomiquement dans le store avant déclenchement,
+ *   si bien que plusieurs workers peuvent scruter le même store sans doublon
+ */
+@Injectable()
+export class EventSchedulerService implements OnModuleInit, OnModuleDestroy {
+    protected readonly logger = new Logger(EventSchedulerService.name);
+    private readonly payloadFactories = new Map<string, ScheduledPayloadFactory>();
+    private readonly missingFactoryWarnings = new Set<string>();
+    private pollTimer?: ReturnType<typeof setInterval>;
+    private isPolling = false;
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
+        @Inject(forwardRef(() => SCHEDULE_STORE_TOKEN)) private readonly store: ScheduleStore,
+        @Inject(forwardRef(() => EventEmitterService)) private readonly eventEmitter: EventEmitterService,
+        @Optional() @Inject(forwardRef(() => NotificationOrchestratorService)) private readonly orchestrator?: NotificationOrchestratorService
+    ) {}
+
+    onModuleInit() {
+        if (this.config.scheduler?.enabled === false) {
+            this.logger.log('Planificateur désactivé sur cette instance');
+            return;
+        }
+
+        const interval = this.config.scheduler?.pollInterval || DEFAULT_POLL_INTERVAL;
+        this.pollTimer = setInterval(async () => {
+            if (this.isPolling) return; // Éviter les scrutations concurrentes
+
+            try {
+                this.isPolling = true;
+                await this.runDueSchedules();
+            } catch (error) {
+                this.logger.error(`Erreur lors de la scrutation des planifications: ${error.message}`);
+            } finally {
+                this.isPolling = false;
+            }
+        }, interval);
+        this.pollTimer.unref?.();
+    }
+
+    onModuleDestroy() {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Planifie une émission unique à une date donnée
+     */
+    async scheduleOnce(eventType: string, payload: any, runAt: Date, options: EmitOptions = {}): Promise<EventSchedule> {
+        if (isNaN(runAt.getTime())) {
+            throw new Error(`Invalid schedule date for event "${eventType}"`);
+        }
+
+        const now = new Date();
+        const schedule: EventSchedule = {
+            id: this.generateScheduleId(),
+            eventType,
+            kind: 'once',
+            payload,
+            options,
+            status: 'active',
+            nextRunAt: runAt,
+            runCount: 0,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.store.save(schedule);
+        this.logger.log(`Émission ${eventType} planifiée pour ${runAt.toISOString()} (${schedule.id})`);
+
+        return schedule;
+    }
+
+    /**
+     * Planifie une émission récurrente
+     * Si une planification existe déjà avec le même ID, son cron/fuseau sont mis à jour
+     * et son statut (ex: en pause) est conservé.
+     */
+    async scheduleRecurring(
+        eventType: string,
+        cron: string,
+        payloadFactory: ScheduledPayloadFactory,
+        options: RecurringScheduleOptions = {}
+    ): Promise<EventSchedule> {
+        const expression = CronExpression.parse(cron);
+        const id = options.id || this.generateScheduleId();
+        const existing = options.id ? await this.store.get(id) : undefined;
+        const now = new Date();
+
+        const unchanged = existing?.cron === cron && existing?.timezone === options.timezone;
+        const schedule: EventSchedule = {
+            id,
+            eventType,
+            kind: 'recurring',
+            cron,
+            timezone: options.timezone,
+            options: options.emitOptions || {},
+            status: existing && existing.status !== 'completed' ? existing.status : 'active',
+            nextRunAt: unchanged && existing.nextRunAt ? existing.nextRunAt : expression.next(now, options.timezone),
+            lastRunAt: existing?.lastRunAt,
+            runCount: existing?.runCount || 0,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now
+        };
+
+        this.payloadFactories.set(id, payloadFactory);
+        this.missingFactoryWarnings.delete(id);
+        await this.store.save(schedule);
+
+        this.logger.log(
+            `Émission récurrente ${eventType} planifiée (${cron}${options.timezone ? ` ${options.timezone}` : ''}) ` +
+            `- prochaine occurrence: ${schedule.nextRunAt.toISOString()}`
+        );
+
+        return schedule;
+    }
+
+    /**
+     * Planifie le nouvel envoi d'un canal à une date donnée
+     * L'ID est celui du job de nouvel envoi : replanifier le même envoi remplace la planification existante.
+     */
+    async scheduleRedelivery(id: string, redelivery: NotificationRedelivery, runAt: Date): Promise<EventSchedule> {
+        const now = new Date();
+        const schedule: EventSchedule = {
+            id,
+            eventType: redelivery.eventType,
+            kind: 'redelivery',
+            redelivery,
+            status: 'active',
+            nextRunAt: runAt,
+            runCount: 0,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.store.save(schedule);
+        this.logger.debug(`Nouvel envoi sur le canal '${redelivery.channel}' planifié pour ${runAt.toISOString()} (${id})`);
+
+        return schedule;
+    }
+
+    /**
+     * Liste les planifications
+     */
+    async listSchedules(filter?: ScheduleFilter): Promise<EventSchedule[]> {
+        return this.store.list(filter);
+    }
+
+    /**
+     * Récupère une planification
+     */
+    async getSchedule(id: string): Promise<EventSchedule | undefined> {
+        return this.store.get(id);
+    }
+
+    /**
+     * Met une planification en pause
+     */
+    async pauseSchedule(id: string): Promise<EventSchedule> {
+        return this.updateStatus(id, 'paused');
+    }
+
+    /**
+     * Reprend une planification en pause
+     * Les occurrences manquées pendant la pause ne sont pas rattrapées
+     */
+    async resumeSchedule(id: string): Promise<EventSchedule> {
+        return this.updateStatus(id, 'active');
+    }
+
+    /**
+     * Annule définitivement une planification
+     */
+    async cancelSchedule(id: string): Promise<EventSchedule> {
+        const schedule = await this.updateStatus(id, 'cancelled');
+        this.payloadFactories.delete(id);
+        return schedule;
+    }
+
+    /**
+     * Déclenche toutes les occurrences échues
+     * Appelé périodiquement, peut aussi être appelé manuellement
+     */
+    async runDueSchedules(now: Date = new Date()): Promise<number> {
+        const due = await this.store.list({ status: 'active', dueBefore: now });
+        let fired = 0;
+
+        for (const schedule of due) {
+            try {
+                if (await this.fire(schedule, now)) {
+                    fired++;
+                }
+            } catch (error) {
+                this.logger.error(`Échec du déclenchement de la planification ${schedule.id}: ${error.message}`);
+            }
+        }
+
+        return fired;
+    }
+
+    /**
+     * Réclame puis déclenche une occurrence
+     */
+    private async fire(schedule: EventSchedule, now: Date): Promise<boolean> {
+        const runAt = schedule.nextRunAt;
+        const payloadFactory = this.payloadFactories.get(schedule.id);
+
+        // Sans payloadFactory local, on laisse l'occurrence à une instance qui le connaît
+        // (signalé une fois : après un redémarrage, l'application doit réenregistrer la planification)
+        if (schedule.kind === 'recurring' && !payloadFactory) {
+            if (!this.missingFactoryWarnings.has(schedule.id)) {
+                this.missingFactoryWarnings.add(schedule.id);
+                this.logger.warn(
+                    `Planification récurrente ${schedule.id} échue sans payloadFactory sur cette instance : ` +
+                    `appeler scheduleRecurring avec l'ID '${schedule.id}' au démarrage`
+                );
+            }
+            return false;
+        }
+
+        if (schedule.kind === 'redelivery' && !this.orchestrator) {
+            this.logger.debug(`Aucun orchestrateur pour le nouvel envoi ${schedule.id} sur cette instance`);
+            return false;
+        }
+
+        // Les occurrences manquées (instance arrêtée) sont regroupées en un seul déclenchement
+        const nextRunAt = schedule.kind === 'recurring'
+            ? CronExpression.parse(schedule.cron).next(runAt > now ? runAt : now, schedule.timezone)
+            : undefined;
+
+        if (!await this.store.claim(schedule.id, runAt, nextRunAt)) {
+            return false; // Déjà réclamée par une autre instance
+        }
+
+        try {
+            await this.run(schedule, runAt, payloadFactory);
+        } catch (error) {
+            // L'occurrence redevient due et sera retentée à la prochaine scrutation
+            // (la clé d'idempotence évite une double émission si l'émission avait abouti)
+            const released = await this.store.release(schedule, runAt).catch(releaseError => {
+                this.logger.error(`Impossible de libérer la planification ${schedule.id}: ${releaseError.message}`);
+                return false;
+            });
+            if (released) {
+                this.logger.warn(`Planification ${schedule.id} libérée pour une nouvelle tentative`);
+            }
+            throw error;
+        }
+
+        this.logger.log(`Planification ${schedule.id} déclenchée (${schedule.eventType})`);
+        return true;
+    }
+
+    /**
+     * Exécute une occurrence réclamée : nouvel envoi, ou émission de l'événement
+     */
+    private async run(schedule: EventSchedule, runAt: Date, payloadFactory?: ScheduledPayloadFactory): Promise<void> {
+        if (schedule.kind === 'redelivery') {
+            await this.orchestrator.redeliver(schedule.redelivery);
+            return;
+        }
+
+        const payload = schedule.kind === 'recurring' ? await payloadFactory(runAt) : schedule.payload;
+
+        await this.eventEmitter.emitAsync(schedule.eventType as never, payload as never, {
+            ...schedule.options,
+            idempotencyKey: `schedule:${schedule.id}:${runAt.toISOString()}`,
+            metadata: {
+                ...schedule.options?.metadata,
+                scheduleId: schedule.id,
+                scheduledFor: runAt
+            }
+        });
+    }
+
+    private async updateStatus(id: string, status: EventSchedule['status']): Promise<EventSchedule> {
+        const schedule = await this.store.get(id);
+        if (!schedule) {
+            throw new Error(`Schedule "${id}" not found`);
+        }
+
+        if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+            throw new Error(`Schedule "${id}" is ${schedule.status}`);
+        }
+
+        const updated: EventSchedule = { ...schedule, status, updatedAt: new Date() };
+
+        // À la reprise, une planification récurrente repart de la prochaine occurrence future
+        if (status === 'active' && schedule.kind === 'recurring') {
+            updated.nextRunAt = CronExpression.parse(schedule.cron).next(new Date(), schedule.timezone);
+        }
+
+        await this.store.save(updated);
+        this.logger.log(`Planification ${id}: ${schedule.status} → ${status}`);
+
+        return updated;
+    }
+
+    private generateScheduleId(): string {
+        return `sch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+}
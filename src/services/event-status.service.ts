@@ -0,0 +1,192 @@
+import { Injectable, Logger, Inject, Optional, forwardRef } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { NotificationContext, NotificationResult, PackageConfig } from '../types/interfaces';
+import { HandlerExecutionResult } from '../types/handler-queue.types';
+import { EventStatusRecord, EventStatusStore, isTerminalStatus } from '../status/event-status-store.interface';
+import { EventCompletionTimeoutError } from '../errors/event-completion-timeout.error';
+import { EVENT_NOTIFICATIONS_CONFIG, EVENT_STATUS_STORE_TOKEN } from '../module/event-notifications.module';
+
+/** Délai d'attente par défaut de waitForCompletion (en ms) */
+const DEFAULT_WAIT_TIMEOUT = 30000;
+
+/** Intervalle de relecture du store pendant une attente (en ms) */
+const STATUS_POLL_INTERVAL = 200;
+
+/**
+ * Suivi du statut de traitement des événements
+ *
+ * L'API enregistre la mise en queue, le worker enregistre le début et la fin du traitement.
+ * Les attentes sont réveillées immédiatement pour les mises à jour du processus courant,
+ * et par relecture périodique du store pour celles d'un worker séparé.
+ */
+@Injectable()
+export class EventStatusService {
+    protected readonly logger = new Logger(EventStatusService.name);
+    private readonly localUpdates = new EventEmitter();
+
+    constructor(
+        @Optional() @Inject(forwardRef(() => EVENT_STATUS_STORE_TOKEN)) private readonly store: EventStatusStore,
+        @Optional() @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config?: PackageConfig
+    ) {
+        this.localUpdates.setMaxListeners(0);
+    }
+
+    /**
+     * Raison pour laquelle le suivi des statuts ne peut pas fonctionner avec cette configuration, undefined sinon
+     * Sans store partagé, l'API ne verrait jamais les statuts publiés par les workers (waitForResult, waitForCompletion)
+     */
+    getUnavailabilityReason(): string | undefined {
+        if (!this.store) {
+            return `une queue fournie par l'application nécessite un eventStatusStore partagé avec les workers`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Statut actuel d'un événement (undefined si inconnu ou expiré)
+     */
+    async getStatus(eventId: string): Promise<EventStatusRecord | undefined> {
+        return this.store.get(eventId);
+    }
+
+    /**
+     * Statuts des événements d'une même corrélation
+     */
+    async findByCorrelationId(correlationId: string): Promise<EventStatusRecord[]> {
+        return this.store.findByCorrelationId(correlationId);
+    }
+
+    /**
+     * Attend la fin du traitement d'un événement (completed, failed ou cancelled)
+     * Lève une EventCompletionTimeoutError si le délai est dépassé
+     */
+    async waitForCompletion(eventId: string, timeout?: number): Promise<EventStatusRecord> {
+        const waitTimeout = timeout ?? this.config?.global?.defaultTimeout ?? DEFAULT_WAIT_TIMEOUT;
+        const deadline = Date.now() + waitTimeout;
+        let record = await this.store.get(eventId);
+
+        while (!(record && isTerminalStatus(record.status)) && Date.now() < deadline) {
+            await this.waitForUpdate(eventId, Math.min(STATUS_POLL_INTERVAL, deadline - Date.now()));
+            record = await this.store.get(eventId);
+        }
+
+        if (!record || !isTerminalStatus(record.status)) {
+            throw new EventCompletionTimeoutError(eventId, waitTimeout, record?.status);
+        }
+
+        return record;
+    }
+
+    /**
+     * Enregistre la mise en queue d'un événement
+     */
+    async markQueued(eventType: string, context: NotificationContext): Promise<void> {
+        const now = new Date();
+        await this.write(context.eventId, async () => ({
+            eventId: context.eventId,
+            eventType,
+            correlationId: context.correlationId,
+            status: 'queued',
+            attempts: 0,
+            queuedAt: now,
+            updatedAt: now
+        }));
+    }
+
+    /**
+     * Enregistre le début d'une tentative de traitement
+     */
+    async markProcessing(eventType: string, context: NotificationContext, attempt: number): Promise<void> {
+        await this.transition(eventType, context, { status: 'processing', attempts: attempt, startedAt: new Date() });
+    }
+
+    /**
+     * Enregistre la réussite du traitement
+     */
+    async markCompleted(
+        eventType: string,
+        context: NotificationContext,
+        results: NotificationResult[],
+        handlerResults: HandlerExecutionResult[]
+    ): Promise<void> {
+        await this.transition(eventType, context, {
+            status: 'completed',
+            results,
+            handlerResults,
+            error: undefined,
+            completedAt: new Date()
+        });
+    }
+
+    /**
+     * Enregistre un échec
+     * @param final false si une nouvelle tentative est prévue (l'événement repasse en 'queued')
+     */
+    async markFailed(eventType: string, context: NotificationContext, error: Error, final: boolean = true): Promise<void> {
+        await this.transition(eventType, context, {
+            status: final ? 'failed' : 'queued',
+            error: error.message,
+            completedAt: final ? new Date() : undefined
+        });
+    }
+
+    /**
+     * Enregistre l'annulation d'un événement retiré de la queue
+     */
+    async markCancelled(eventId: string): Promise<void> {
+        const current = await this.store.get(eventId);
+        if (!current) {
+            return;
+        }
+
+        const now = new Date();
+        await this.write(eventId, async () => ({ ...current, status: 'cancelled', completedAt: now, updatedAt: now }));
+    }
+
+    /**
+     * Applique une transition en conservant les informations déjà enregistrées
+     */
+    private async transition(eventType: string, context: NotificationContext, changes: Partial<EventStatusRecord>): Promise<void> {
+        await this.write(context.eventId, async () => ({
+            eventId: context.eventId,
+            eventType,
+            correlationId: context.correlationId,
+            attempts: 0,
+            ...await this.store.get(context.eventId),
+            ...changes,
+            updatedAt: new Date()
+        }));
+    }
+
+    /**
+     * Écrit un statut et réveille les attentes locales
+     * Un échec d'écriture est journalisé sans interrompre le traitement
+     */
+    private async write(eventId: string, build: () => Promise<EventStatusRecord>): Promise<void> {
+        try {
+            const record = await build();
+            await this.store.save(record);
+            this.localUpdates.emit(record.eventId, record);
+        } catch (error) {
+            this.logger.error(`Échec de la mise à jour du statut de ${eventId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Attend une mise à jour locale de l'événement ou l'expiration du délai
+     */
+    private waitForUpdate(eventId: string, delay: number): Promise<void> {
+        return new Promise(resolve => {
+            const onUpdate = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                this.localUpdates.off(eventId, onUpdate);
+                resolve();
+            }, Math.max(delay, 0));
+
+            this.localUpdates.once(eventId, onUpdate);
+        });
+    }
+}
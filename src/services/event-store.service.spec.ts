@@ -0,0 +1,74 @@
+import { EventStoreService } from './event-store.service';
+import { QueueManagerService } from './queue-manager.service';
+import { InMemoryEventStore } from '../event-store/in-memory-event.store';
+import { PackageConfig } from '../types/interfaces';
+
+describe('EventStoreService', () => {
+  const config: PackageConfig = {
+    mode: 'api',
+    eventTypes: {
+      'user.created': { description: 'User created', channels: ['email', 'sms'] },
+      'order.created': { description: 'Order created', channels: ['email'] }
+    } as any
+  };
+
+  let orchestrator: any;
+  let store: InMemoryEventStore;
+  let queueManager: QueueManagerService;
+  let service: EventStoreService;
+
+  const emit = (eventId: string, eventType: string, correlationId: string) =>
+    queueManager.processEvent(eventType, { eventId }, { eventId, correlationId, eventType, attempt: 1 });
+
+  beforeEach(async () => {
+    orchestrator = { processEvent: jest.fn().mockResolvedValue([]) };
+    store = new InMemoryEventStore();
+    queueManager = new QueueManagerService(config, orchestrator, undefined, undefined, store);
+    service = new EventStoreService(orchestrator, store);
+
+    await emit('evt_1', 'user.created', 'cor_1');
+    await emit('evt_2', 'order.created', 'cor_1');
+    await emit('evt_3', 'user.created', 'cor_2');
+    orchestrator.processEvent.mockClear();
+  });
+
+  it('should record every processed event', async () => {
+    const events = await service.query();
+
+    expect(events.map(event => event.eventId)).toEqual(['evt_1', 'evt_2', 'evt_3']);
+    expect(events[0]).toMatchObject({ eventType: 'user.created', correlationId: 'cor_1', payload: { eventId: 'evt_1' } });
+    expect(events[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should query by type and correlationId', async () => {
+    expect((await service.query({ eventType: 'user.created' })).map(event => event.eventId)).toEqual(['evt_1', 'evt_3']);
+    expect((await service.query({ correlationId: 'cor_1' })).map(event => event.eventId)).toEqual(['evt_1', 'evt_2']);
+    expect(await service.query({ to: new Date(0) })).toEqual([]);
+  });
+
+  it('should replay selected events through the orchestrator on the requested channels', async () => {
+    const results = await service.replay({ eventType: 'user.created' }, { channels: ['sms'] });
+
+    expect(results.map(result => result.eventId)).toEqual(['evt_1', 'evt_3']);
+    expect(orchestrator.processEvent).toHaveBeenCalledTimes(2);
+    expect(orchestrator.processEvent).toHaveBeenCalledWith(
+      'user.created',
+      { eventId: 'evt_1' },
+      expect.objectContaining({ eventId: 'evt_1', metadata: expect.objectContaining({ replay: true }) }),
+      { channels: ['sms'] }
+    );
+  });
+
+  it('should report replay failures per event', async () => {
+    orchestrator.processEvent.mockRejectedValueOnce(new Error('provider down'));
+
+    const results = await service.replay({ correlationId: 'cor_1' });
+
+    expect(results[0]).toMatchObject({ eventId: 'evt_1', error: 'provider down' });
+    expect(results[1]).toMatchObject({ eventId: 'evt_2', results: [] });
+  });
+
+  it('should require a configured store', async () => {
+    await expect(new EventStoreService(orchestrator).query()).rejects.toThrow('EventStore not configured');
+  });
+});
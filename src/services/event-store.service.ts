@@ -0,0 +1,103 @@
+import { Injectable, Logger, Inject, Optional, forwardRef } from '@nestjs/common';
+import { NotificationContext, NotificationResult } from '../types/interfaces';
+import { EventStore, EventStoreQuery, StoredEvent } from '../event-store/event-store.interface';
+import { NotificationOrchestratorService } from './notification-orchestrator.service';
+import { EVENT_STORE_TOKEN } from '../module/event-notifications.module';
+
+/**
+ * Options de rejeu
+ */
+export interface EventReplayOptions {
+    /** Ne renvoyer que sur ces canaux (tous les canaux configurés par défaut) */
+    channels?: string[];
+}
+
+/**
+ * Résultat du rejeu d'un événement
+ */
+export interface EventReplayResult {
+    eventId: string;
+    eventType: string;
+    results?: NotificationResult[];
+    error?: string;
+}
+
+/**
+ * Service de consultation et de rejeu de l'EventStore
+ */
+@Injectable()
+export class EventStoreService {
+    protected readonly logger = new Logger(EventStoreService.name);
+
+    constructor(
+        @Inject(forwardRef(() => NotificationOrchestratorService)) private readonly orchestrator: NotificationOrchestratorService,
+        @Optional() @Inject(forwardRef(() => EVENT_STORE_TOKEN)) private readonly eventStore?: EventStore
+    ) {}
+
+    /**
+     * Recherche des événements enregistrés (par type, période, correlationId)
+     */
+    async query(query: EventStoreQuery = {}): Promise<StoredEvent[]> {
+        return this.getStore().find(query);
+    }
+
+    /**
+     * Récupère un événement enregistré
+     */
+    async getEvent(eventId: string): Promise<StoredEvent | undefined> {
+        return this.getStore().get(eventId);
+    }
+
+    /**
+     * Rejoue les événements sélectionnés via l'orchestrateur, dans leur ordre de création
+     * Les handlers @InjectableHandler ne sont pas ré-exécutés.
+     */
+    async replay(query: EventStoreQuery, options: EventReplayOptions = {}): Promise<EventReplayResult[]> {
+        const events = await this.getStore().find(query);
+        const replayedAt = new Date();
+
+        this.logger.log(
+            `Rejeu de ${events.length} événement(s)` +
+            (options.channels ? ` sur les canaux: [${options.channels.join(', ')}]` : '')
+        );
+
+        const results: EventReplayResult[] = [];
+        for (const event of events) {
+            const context: NotificationContext = {
+                eventId: event.eventId,
+                correlationId: event.correlationId,
+                causationId: event.causationId,
+                tenantId: event.tenantId,
+                eventType: event.eventType,
+                attempt: 1,
+                metadata: {
+                    ...event.options?.metadata,
+                    replay: true,
+                    replayedAt
+                }
+            };
+
+            try {
+                const notificationResults = await this.orchestrator.processEvent(
+                    event.eventType,
+                    event.payload,
+                    context,
+                    { channels: options.channels }
+                );
+                results.push({ eventId: event.eventId, eventType: event.eventType, results: notificationResults });
+            } catch (error) {
+                this.logger.error(`Échec du rejeu de ${event.eventType} (${event.eventId}): ${error.message}`);
+                results.push({ eventId: event.eventId, eventType: event.eventType, error: error.message });
+            }
+        }
+
+        return results;
+    }
+
+    private getStore(): EventStore {
+        if (!this.eventStore) {
+            throw new Error('EventStore not configured. Provide the "eventStore" module option.');
+        }
+        return this.eventStore;
+    }
+}
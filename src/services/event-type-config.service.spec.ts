@@ -0,0 +1,75 @@
+import { EventTypeConfigService } from './event-type-config.service';
+import { SystemEventService } from './system-event.service';
+import { RefreshingEventTypeConfigSource } from '../event-types/refreshing-event-type-config.source';
+import { SystemEvent } from '../types/interfaces';
+
+describe('EventTypeConfigService', () => {
+  const initial = {
+    'user.created': { description: 'User created', channels: ['email'] },
+    'order.created': { description: 'Order created', channels: ['email'] }
+  };
+
+  let rows: Record<string, any>;
+  let loader: jest.Mock;
+  let systemEvents: SystemEventService;
+  let published: SystemEvent[];
+  let service: EventTypeConfigService;
+
+  beforeEach(async () => {
+    rows = { ...initial };
+    loader = jest.fn(async () => ({ ...rows }));
+    systemEvents = new SystemEventService();
+    published = [];
+    systemEvents.subscribe(event => { published.push(event); }, ['config.updated']);
+
+    service = new EventTypeConfigService(initial, new RefreshingEventTypeConfigSource(loader, 60000), systemEvents);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('should not report changes when the source matches the boot configuration', () => {
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(published).toEqual([]);
+    expect(service.isEnabled('user.created')).toBe(true);
+  });
+
+  it('should apply disabled types and channel changes on refresh', async () => {
+    rows['user.created'] = { ...initial['user.created'], enabled: false };
+    rows['order.created'] = { ...initial['order.created'], channels: ['email', 'sms'] };
+
+    const changes = await service.refresh();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(changes).toEqual([
+      { eventType: 'user.created', change: 'updated', enabled: false, channels: ['email'] },
+      { eventType: 'order.created', change: 'updated', enabled: true, channels: ['email', 'sms'] }
+    ]);
+    expect(service.isEnabled('user.created')).toBe(false);
+    expect(service.get('order.created').channels).toEqual(['email', 'sms']);
+    expect(published.map(event => event.data.eventType)).toEqual(['user.created', 'order.created']);
+    expect(published[0]).toEqual(expect.objectContaining({ type: 'config.updated', severity: 'info' }));
+  });
+
+  it('should report added and removed types', async () => {
+    delete rows['order.created'];
+    rows['invoice.paid'] = { description: 'Invoice paid', channels: ['webhook'] };
+
+    const changes = await service.refresh();
+
+    expect(changes.map(change => [change.eventType, change.change])).toEqual([
+      ['invoice.paid', 'added'],
+      ['order.created', 'removed']
+    ]);
+    expect(service.get('order.created')).toBeUndefined();
+  });
+
+  it('should keep the previous configuration when the source fails', async () => {
+    loader.mockRejectedValueOnce(new Error('Base de données indisponible'));
+
+    expect(await service.refresh()).toEqual([]);
+    expect(service.get('user.created')).toEqual(initial['user.created']);
+  });
+});
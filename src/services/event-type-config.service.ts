@@ -0,0 +1,134 @@
+import { Injectable, Logger, Inject, Optional, OnModuleInit, OnModuleDestroy, forwardRef } from '@nestjs/common';
+import { EventTypeConfig, EventTypesConfig } from '../types/interfaces';
+import { EVENT_TYPES_CONFIG, EVENT_TYPE_CONFIG_SOURCE_TOKEN } from '../module/event-notifications.module';
+import { EventTypeConfigChange, EventTypeConfigSource } from '../event-types/event-type-config-source.interface';
+import { SystemEventService } from './system-event.service';
+
+/**
+ * Configuration courante des types d'événements
+ *
+ * Initialisée avec EVENT_TYPES_CONFIG puis alimentée par l'EventTypeConfigSource :
+ * au démarrage, et périodiquement si la source définit un refreshInterval.
+ * Chaque type ajouté, modifié ou supprimé publie un événement système config.updated.
+ */
+@Injectable()
+export class EventTypeConfigService implements OnModuleInit, OnModuleDestroy {
+    protected readonly logger = new Logger(EventTypeConfigService.name);
+    private current: EventTypesConfig<any>;
+    private refreshTimer?: ReturnType<typeof setInterval>;
+    private isRefreshing = false;
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_TYPES_CONFIG)) initialConfig: EventTypesConfig<any>,
+        @Optional() @Inject(forwardRef(() => EVENT_TYPE_CONFIG_SOURCE_TOKEN)) private readonly source?: EventTypeConfigSource,
+        @Optional() @Inject(forwardRef(() => SystemEventService)) private readonly systemEvents?: SystemEventService
+    ) {
+        this.current = initialConfig || {};
+    }
+
+    async onModuleInit() {
+        if (!this.source) {
+            return;
+        }
+
+        await this.refresh();
+
+        if (this.source.refreshInterval) {
+            this.refreshTimer = setInterval(async () => {
+                if (this.isRefreshing) return; // Éviter les rechargements concurrents
+                await this.refresh();
+            }, this.source.refreshInterval);
+            this.refreshTimer.unref?.();
+
+            this.logger.log(`Rechargement de la configuration des événements toutes les ${this.source.refreshInterval}ms`);
+        }
+    }
+
+    onModuleDestroy() {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
+    /**
+     * Configuration d'un type d'événement (undefined si inconnu)
+     */
+    get(eventType: string): EventTypeConfig | undefined {
+        return this.current[eventType];
+    }
+
+    /**
+     * Configuration de tous les types d'événements
+     */
+    getAll(): EventTypesConfig<any> {
+        return this.current;
+    }
+
+    /**
+     * Un type d'événement est actif s'il est configuré et non désactivé (enabled: false)
+     */
+    isEnabled(eventType: string): boolean {
+        const eventConfig = this.get(eventType);
+        return !!eventConfig && eventConfig.enabled !== false;
+    }
+
+    /**
+     * Recharge la configuration depuis la source et retourne les modifications appliquées
+     * En cas d'échec, la configuration précédente est conservée
+     */
+    async refresh(): Promise<EventTypeConfigChange[]> {
+        if (!this.source) {
+            return [];
+        }
+
+        this.isRefreshing = true;
+        try {
+            const next = (await this.source.load()) || {};
+            const changes = this.diff(this.current, next);
+            this.current = next;
+
+            for (const change of changes) {
+                this.logger.log(
+                    `Configuration de ${change.eventType} ${change.change} ` +
+                    `(enabled: ${change.enabled}, canaux: [${change.channels.join(', ')}])`
+                );
+                this.systemEvents?.publish('config.updated', { ...change });
+            }
+
+            return changes;
+        } catch (error) {
+            this.logger.error(`Échec du rechargement de la configuration des événements: ${error.message}`);
+            return [];
+        } finally {
+            this.isRefreshing = false;
+        }
+    }
+
+    private diff(previous: EventTypesConfig<any>, next: EventTypesConfig<any>): EventTypeConfigChange[] {
+        const changes: EventTypeConfigChange[] = [];
+        const describe = (eventType: string, config: EventTypeConfig, change: EventTypeConfigChange['change']) => ({
+            eventType,
+            change,
+            enabled: change !== 'removed' && config.enabled !== false,
+            channels: config.channels || []
+        });
+
+        for (const [eventType, config] of Object.entries(next)) {
+            const before = previous[eventType];
+            if (!before) {
+                changes.push(describe(eventType, config, 'added'));
+            } else if (JSON.stringify(before) !== JSON.stringify(config)) {
+                changes.push(describe(eventType, config, 'updated'));
+            }
+        }
+
+        for (const [eventType, config] of Object.entries(previous)) {
+            if (!next[eventType]) {
+                changes.push(describe(eventType, config, 'removed'));
+            }
+        }
+
+        return changes;
+    }
+}
@@ -5,6 +5,7 @@ import { HandlerQueueConfig, QueuedHandlerJob, EventHandlerContext } from '../ty
 import { QueueManagerService } from './queue-manager.service';
 import { QueueProvider } from '../types/interfaces';
 import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+import { runWithEventContext, toEventContext } from '../context/event-context';
 import { PackageConfig } from '../types/interfaces';
 
 @Injectable()
@@ -149,8 +150,11 @@ export class HandlerQueueManagerService implements OnModuleInit, OnModuleDestroy
                 await handler.beforeQueue(jobData.eventType, jobData.payload, jobData.context);
             }
 
-            // Exécution du handler
-            const result = await handler.execute(jobData.eventType, jobData.payload, jobData.context);
+            // Exécution du handler dans le contexte de l'événement (corrélation et causalité)
+            const result = await runWithEventContext(
+                toEventContext(jobData.context),
+                () => handler.execute(jobData.eventType, jobData.payload, jobData.context)
+            );
 
             // Callback après exécution réussie
             if (handler.afterExecute) {
@@ -0,0 +1,793 @@
+import { NotificationOrchestratorService } from './notification-orchestrator.service';
+import { NotifierRegistry } from '../decorators/injectable-notifier.decorator';
+import { RecipientDistribution } from '../loaders/recipient-loader.interface';
+import { NotificationContext } from '../types/interfaces';
+import { InMemoryDeliveryLedger } from '../delivery/in-memory-delivery.ledger';
+import { ProviderHealthService } from './provider-health.service';
+import { InMemoryPreferenceStore } from '../preferences/in-memory-preference.store';
+import { BaseNotificationProvider } from '../providers/base-notification-provider';
+import { UnsubscribeService } from './unsubscribe.service';
+import { UnsubscribeTokenSigner } from '../unsubscribe/unsubscribe-token';
+
+describe('NotificationOrchestratorService', () => {
+  class EmailProvider {
+    send = jest.fn().mockResolvedValue([]);
+    healthCheck = jest.fn().mockResolvedValue(true);
+    validateConfig() { return true; }
+    preview = jest.fn(async (distribution: RecipientDistribution) =>
+      distribution.MAIN.map(recipient => ({ recipientId: recipient.id, content: { subject: `Bienvenue ${recipient.name}` } }))
+    );
+  }
+
+  class SmsProvider {
+    send = jest.fn().mockResolvedValue([]);
+    healthCheck = jest.fn().mockResolvedValue(true);
+    validateConfig() { return true; }
+  }
+
+  const distribution: RecipientDistribution = {
+    name: 'team',
+    MAIN: [{ id: 'u1', name: 'Alice' }],
+    COPY: [{ id: 'u2', name: 'Bob', preferences: { enabled: false } }],
+    BLIND: []
+  };
+
+  const context: NotificationContext = { eventId: 'evt_1', correlationId: 'cor_1', eventType: 'user.created', attempt: 1 };
+
+  let email: EmailProvider;
+  let sms: SmsProvider;
+  let orchestrator: NotificationOrchestratorService;
+  let instances: Map<any, any>;
+  let moduleRef: any;
+  let loader: any;
+
+  beforeEach(() => {
+    NotifierRegistry.clear();
+    NotifierRegistry.register(EmailProvider, { channel: 'email' });
+    NotifierRegistry.register(SmsProvider, { channel: 'sms' });
+
+    email = new EmailProvider();
+    sms = new SmsProvider();
+    instances = new Map<any, any>([[EmailProvider, email], [SmsProvider, sms]]);
+    moduleRef = {
+      get: jest.fn((token: any) => {
+        if (!instances.has(token)) throw new Error('not found');
+        return instances.get(token);
+      })
+    };
+    loader = { load: jest.fn().mockResolvedValue([distribution]) };
+
+    orchestrator = new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email', 'sms', 'push'] } } as any,
+      moduleRef,
+      loader
+    );
+  });
+
+  afterEach(() => {
+    NotifierRegistry.clear();
+  });
+
+  describe('processEvent', () => {
+    const distributions: RecipientDistribution[] = ['d1', 'd2', 'd3'].map((name): RecipientDistribution => ({
+      name,
+      MAIN: [{ id: name, name }],
+      COPY: [],
+      BLIND: []
+    }));
+
+    it('should dispatch in parallel within limits and keep results ordered', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const slowSend = (channel: string, delays: Record<string, number>) => async (distribution: RecipientDistribution) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, delays[distribution.name]));
+        active--;
+        return [{ channel, provider: channel, status: 'sent', metadata: { recipientId: distribution.name } }];
+      };
+      email.send.mockImplementation(slowSend('email', { d1: 30, d2: 5, d3: 10 }));
+      sms.send.mockImplementation(slowSend('sms', { d1: 5, d2: 20, d3: 5 }));
+      loader.load.mockResolvedValue(distributions);
+
+      orchestrator = new NotificationOrchestratorService(
+        { 'user.created': { description: 'User created', channels: ['email', 'sms'] } } as any,
+        moduleRef,
+        loader,
+        undefined,
+        undefined,
+        { mode: 'api', eventTypes: {}, global: { maxConcurrentNotifications: 3, maxConcurrentNotificationsPerChannel: { sms: 1 } } } as any
+      );
+
+      const results = await orchestrator.processEvent('user.created', { id: 1 }, context);
+
+      expect(results.map(result => `${result.channel}:${result.metadata.recipientId}`)).toEqual([
+        'email:d1', 'email:d2', 'email:d3', 'sms:d1', 'sms:d2', 'sms:d3'
+      ]);
+      expect(maxActive).toBeGreaterThan(1);
+      expect(maxActive).toBeLessThanOrEqual(3);
+    });
+  });
+
+  describe('fallback channels', () => {
+    const twoRecipients: RecipientDistribution = {
+      name: 'team',
+      MAIN: [{ id: 'u1', name: 'Alice' }],
+      COPY: [{ id: 'u2', name: 'Bob' }],
+      BLIND: []
+    };
+
+    const createOrchestrator = (channels: string[], config?: any) => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels, fallbackChannels: ['push', 'sms'] } } as any,
+      moduleRef,
+      loader,
+      undefined,
+      undefined,
+      config
+    );
+
+    beforeEach(() => {
+      loader.load.mockResolvedValue([twoRecipients]);
+      sms.send.mockImplementation(async (distribution: RecipientDistribution) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel: 'sms', provider: 'SmsProvider', status: 'sent', metadata: { recipientId: recipient.id }
+        }))
+      );
+    });
+
+    it('should resend only the recipients that failed, keeping their type', async () => {
+      email.send.mockResolvedValue([
+        { channel: 'email', provider: 'EmailProvider', status: 'sent', metadata: { recipientId: 'u1' } },
+        { channel: 'email', provider: 'EmailProvider', status: 'failed', error: 'bounce', metadata: { recipientId: 'u2' } }
+      ]);
+
+      const results = await createOrchestrator(['email']).processEvent('user.created', { id: 1 }, context);
+
+      expect(sms.send).toHaveBeenCalledWith(
+        { name: 'team', MAIN: [], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] },
+        expect.anything(),
+        expect.anything()
+      );
+      const fallback = results.find(result => result.channel === 'sms');
+      expect(fallback).toMatchObject({ status: 'sent', fallbackFrom: 'email', metadata: { recipientId: 'u2' } });
+      expect(fallback.fallbackReason).toContain("Échec de l'envoi sur le canal 'email'");
+    });
+
+    it('should skip channels without provider and unhealthy providers', async () => {
+      email.healthCheck.mockResolvedValue(false);
+
+      const results = await createOrchestrator(['email']).processEvent('user.created', { id: 1 }, context);
+
+      expect(email.send).not.toHaveBeenCalled();
+      expect(results).toHaveLength(2);
+      results.forEach(result => {
+        expect(result).toMatchObject({ channel: 'sms', status: 'sent', fallbackFrom: 'email' });
+        expect(result.fallbackReason).toContain('EmailProvider en mauvaise santé');
+      });
+    });
+
+    it('should not fall back when disabled globally', async () => {
+      const results = await createOrchestrator(['push'], { mode: 'api', eventTypes: {}, global: { useFallbackChannels: false } })
+        .processEvent('user.created', { id: 1 }, context);
+
+      expect(sms.send).not.toHaveBeenCalled();
+      expect(results).toEqual([expect.objectContaining({ channel: 'push', status: 'failed' })]);
+    });
+  });
+
+  describe('retries', () => {
+    const twoRecipients: RecipientDistribution = {
+      name: 'team',
+      MAIN: [{ id: 'u1', name: 'Alice' }],
+      COPY: [{ id: 'u2', name: 'Bob' }],
+      BLIND: []
+    };
+
+    let queueProvider: any;
+    let systemEvents: any;
+
+    const createOrchestrator = (mode: string) => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email'], retryPolicy: { maxAttempts: 3 } } } as any,
+      moduleRef,
+      loader,
+      undefined,
+      undefined,
+      { mode, eventTypes: {}, global: { retryPolicy: { initialDelay: 500, backoffFactor: 2 } } } as any,
+      queueProvider,
+      systemEvents
+    );
+
+    beforeEach(() => {
+      queueProvider = { add: jest.fn().mockResolvedValue({ id: 'job' }) };
+      systemEvents = { publish: jest.fn() };
+      loader.load.mockResolvedValue([twoRecipients]);
+      email.send.mockImplementation(async (distribution: RecipientDistribution, _payload: any, ctx: NotificationContext) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel: 'email',
+          provider: 'EmailProvider',
+          status: recipient.id === 'u2' ? 'failed' : 'sent',
+          attempts: ctx.attempt,
+          metadata: { recipientId: recipient.id }
+        }))
+      );
+    });
+
+    it('should queue a redelivery of the failed recipients and mark them as retrying', async () => {
+      const results = await createOrchestrator('hybrid').processEvent('user.created', { id: 1 }, context);
+
+      expect(results.map(result => result.status)).toEqual(['sent', 'retrying']);
+      expect(results[1].nextRetryAt).toBeInstanceOf(Date);
+      expect(queueProvider.add).toHaveBeenCalledWith(
+        'redeliver-notification',
+        {
+          eventType: 'user.created',
+          payload: { id: 1 },
+          channel: 'email',
+          distributions: [{ name: 'team', MAIN: [], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] }],
+          context: expect.objectContaining({ eventId: 'evt_1', correlationId: 'cor_1', attempt: 2 })
+        },
+        expect.objectContaining({ delay: 500, jobId: expect.stringMatching(/^evt_1:email:2:[0-9a-f]{16}$/) })
+      );
+    });
+
+    it('should give each redelivery group its own job id', async () => {
+      const orchestrator = createOrchestrator('hybrid');
+      await orchestrator.processEvent('user.created', { id: 1 }, context);
+      await orchestrator.processEvent('user.created', { id: 1 }, { ...context, metadata: { escalationLevel: 1 } });
+
+      const [initial, escalation] = queueProvider.add.mock.calls;
+      expect(escalation[1].context.metadata).toEqual({ escalationLevel: 1 });
+      expect(escalation[2].jobId).toMatch(/^evt_1:escalation:1:email:2:/);
+      expect(escalation[2].jobId).not.toEqual(initial[2].jobId);
+    });
+
+    it('should redeliver to the given recipients only', async () => {
+      const orchestrator = createOrchestrator('hybrid');
+
+      const results = await orchestrator.redeliver({
+        eventType: 'user.created',
+        payload: { id: 1 },
+        channel: 'email',
+        distributions: [{ name: 'team', MAIN: [{ id: 'u1', name: 'Alice' }], COPY: [], BLIND: [] }],
+        context: { ...context, attempt: 2 }
+      });
+
+      expect(email.send).toHaveBeenCalledTimes(1);
+      expect(results).toEqual([expect.objectContaining({ status: 'sent', attempts: 2, metadata: { recipientId: 'u1' } })]);
+    });
+
+    it('should stop after maxAttempts and publish retry.exhausted', async () => {
+      const results = await createOrchestrator('hybrid').processEvent('user.created', { id: 1 }, { ...context, attempt: 3 });
+
+      expect(results.map(result => result.status)).toEqual(['sent', 'failed']);
+      expect(queueProvider.add).not.toHaveBeenCalled();
+      expect(systemEvents.publish).toHaveBeenCalledWith(
+        'retry.exhausted',
+        expect.objectContaining({ eventId: 'evt_1', channel: 'email', attempts: 3, recipientIds: ['u2'] }),
+        'warning'
+      );
+    });
+
+    it('should retry in memory when no worker processes the queue', async () => {
+      jest.useFakeTimers();
+      try {
+        const orchestrator = createOrchestrator('api');
+
+        await orchestrator.processEvent('user.created', { id: 1 }, context);
+        expect(queueProvider.add).not.toHaveBeenCalled();
+        expect(email.send).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(email.send).toHaveBeenCalledTimes(2);
+        expect(email.send.mock.calls[1][0]).toEqual({ name: 'team', MAIN: [], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] });
+
+        orchestrator.onModuleDestroy();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('delivery ledger', () => {
+    const twoRecipients: RecipientDistribution = {
+      name: 'team',
+      MAIN: [{ id: 'u1', name: 'Alice' }],
+      COPY: [{ id: 'u2', name: 'Bob' }],
+      BLIND: []
+    };
+
+    let ledger: InMemoryDeliveryLedger;
+
+    const createOrchestrator = () => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email'] } } as any,
+      moduleRef,
+      loader,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      ledger
+    );
+
+    beforeEach(() => {
+      ledger = new InMemoryDeliveryLedger();
+      loader.load.mockResolvedValue([twoRecipients]);
+      email.send.mockImplementation(async (distribution: RecipientDistribution) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel: 'email',
+          provider: 'EmailProvider',
+          status: recipient.id === 'u2' && email.send.mock.calls.length === 1 ? 'failed' : 'sent',
+          sentAt: new Date(),
+          metadata: { recipientId: recipient.id }
+        }))
+      );
+    });
+
+    it('should not send again to recipients already delivered for the event', async () => {
+      const orchestrator = createOrchestrator();
+
+      await orchestrator.processEvent('user.created', { id: 1 }, context);
+      const retry = await orchestrator.processEvent('user.created', { id: 1 }, { ...context, attempt: 2 });
+
+      expect(email.send).toHaveBeenCalledTimes(2);
+      expect(email.send.mock.calls[1][0]).toEqual({ name: 'team', MAIN: [], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] });
+      expect(retry).toEqual([
+        expect.objectContaining({ status: 'skipped', provider: 'EmailProvider', metadata: { recipientId: 'u1', reason: 'already-delivered' } }),
+        expect.objectContaining({ status: 'sent', metadata: { recipientId: 'u2' } })
+      ]);
+      expect((await ledger.getDelivered('evt_1', 'email')).map(record => record.recipientId)).toEqual(['u1', 'u2']);
+    });
+
+    it('should skip the provider entirely once everyone was delivered, except for replays', async () => {
+      const orchestrator = createOrchestrator();
+      await ledger.record(['u1', 'u2'].map(recipientId => ({
+        eventId: 'evt_1', channel: 'email', recipientId, provider: 'EmailProvider', deliveredAt: new Date()
+      })));
+
+      const results = await orchestrator.processEvent('user.created', { id: 1 }, context);
+      expect(email.send).not.toHaveBeenCalled();
+      expect(results.map(result => result.status)).toEqual(['skipped', 'skipped']);
+
+      await orchestrator.processEvent('user.created', { id: 1 }, { ...context, metadata: { replay: true } });
+      expect(email.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const config: any = { mode: 'api', eventTypes: {}, global: { circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 } } };
+    let systemEvents: any;
+    let providerHealth: ProviderHealthService;
+
+    const createOrchestrator = (eventConfig: any) => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', ...eventConfig } } as any,
+      moduleRef,
+      loader,
+      undefined,
+      undefined,
+      config,
+      undefined,
+      undefined,
+      undefined,
+      providerHealth
+    );
+
+    beforeEach(() => {
+      systemEvents = { publish: jest.fn() };
+      providerHealth = new ProviderHealthService(config, moduleRef, systemEvents);
+      email.send.mockRejectedValue(new Error('SMTP indisponible'));
+      sms.send.mockImplementation(async (distribution: RecipientDistribution) =>
+        distribution.MAIN.map(recipient => ({ channel: 'sms', provider: 'SmsProvider', status: 'sent', metadata: { recipientId: recipient.id } }))
+      );
+    });
+
+    it('should open after repeated failures and short-circuit to the fallback channel', async () => {
+      const orchestrator = createOrchestrator({ channels: ['email'] });
+
+      await orchestrator.processEvent('user.created', { id: 1 }, context);
+      await orchestrator.processEvent('user.created', { id: 2 }, context);
+      expect(providerHealth.getStates()).toEqual({ EmailProvider: 'open' });
+      expect(systemEvents.publish).toHaveBeenCalledWith(
+        'provider.health.changed',
+        expect.objectContaining({ provider: 'EmailProvider', channel: 'email', previousState: 'closed', state: 'open' }),
+        'error'
+      );
+
+      const withFallback = createOrchestrator({ channels: ['email'], fallbackChannels: ['sms'] });
+      const results = await withFallback.processEvent('user.created', { id: 3 }, context);
+
+      expect(email.send).toHaveBeenCalledTimes(2);
+      expect(email.healthCheck).not.toHaveBeenCalled();
+      expect(results).toEqual([
+        expect.objectContaining({ channel: 'sms', status: 'sent', fallbackFrom: 'email', fallbackReason: 'Circuit ouvert pour EmailProvider' })
+      ]);
+    });
+
+    it('should defer recipients until the circuit reopens when no fallback is available', async () => {
+      const orchestrator = createOrchestrator({ channels: ['email'] });
+      await orchestrator.processEvent('user.created', { id: 1 }, context);
+      await orchestrator.processEvent('user.created', { id: 2 }, context);
+
+      const before = Date.now();
+      const results = await orchestrator.processEvent('user.created', { id: 3 }, context);
+      orchestrator.onModuleDestroy();
+
+      expect(email.send).toHaveBeenCalledTimes(2);
+      expect(results).toEqual([
+        expect.objectContaining({ status: 'retrying', error: 'Circuit ouvert pour EmailProvider', metadata: { recipientId: 'u1', reason: 'circuit-open' } }),
+        expect.objectContaining({ status: 'retrying', metadata: { recipientId: 'u2', reason: 'circuit-open' } })
+      ]);
+      expect(results[0].nextRetryAt.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('should not open the circuit on recipient failures', async () => {
+      email.send.mockImplementation(async (distribution: RecipientDistribution) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel: 'email', provider: 'EmailProvider', status: 'failed', error: 'adresse invalide', metadata: { recipientId: recipient.id }
+        }))
+      );
+      const orchestrator = createOrchestrator({ channels: ['email'] });
+
+      await orchestrator.processEvent('user.created', { id: 1 }, context);
+      await orchestrator.processEvent('user.created', { id: 2 }, context);
+      await orchestrator.processEvent('user.created', { id: 3 }, context);
+
+      expect(email.send).toHaveBeenCalledTimes(3);
+      expect(providerHealth.getStates()).toEqual({ EmailProvider: 'closed' });
+    });
+  });
+
+  describe('recipient deduplication', () => {
+    const overlapping: RecipientDistribution[] = [
+      { name: 'watchers', MAIN: [{ id: 'u3', name: 'Carol', email: 'alice@example.com' }], COPY: [{ id: 'u1', name: 'Alice', email: 'Alice@example.com' }], BLIND: [] },
+      { name: 'owners', MAIN: [{ id: 'u1', name: 'Alice', email: 'Alice@example.com' }], COPY: [], BLIND: [] }
+    ] as any;
+
+    const createOrchestrator = (recipientDeduplication?: any) => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email'], recipientDeduplication } } as any,
+      moduleRef,
+      loader
+    );
+
+    beforeEach(() => {
+      loader.load.mockResolvedValue(overlapping);
+      email.send.mockImplementation(async (distribution: RecipientDistribution) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel: 'email', provider: 'EmailProvider', status: 'sent', metadata: { recipientId: recipient.id }
+        }))
+      );
+    });
+
+    it('should send once per recipient id, MAIN first, and report duplicates as skipped', async () => {
+      const results = await createOrchestrator().processEvent('user.created', { id: 1 }, context);
+
+      expect(email.send.mock.calls.map(call => call[0])).toEqual([
+        { name: 'watchers', MAIN: [overlapping[0].MAIN[0]], COPY: [], BLIND: [] },
+        { name: 'owners', MAIN: [overlapping[1].MAIN[0]], COPY: [], BLIND: [] }
+      ]);
+      expect(results[0]).toMatchObject({
+        status: 'skipped',
+        metadata: { recipientId: 'u1', reason: 'duplicate', duplicateOf: 'u1', distribution: 'watchers', type: 'COPY' }
+      });
+    });
+
+    it('should deduplicate by channel address when configured, or not at all', async () => {
+      const byAddress = await createOrchestrator({ by: { email: 'email' } }).processEvent('user.created', { id: 1 }, context);
+      expect(byAddress.filter(result => result.status === 'sent').map(result => result.metadata.recipientId)).toEqual(['u3']);
+      expect(byAddress.filter(result => result.status === 'skipped').map(result => result.metadata.recipientId)).toEqual(['u1', 'u1']);
+
+      email.send.mockClear();
+      const disabled = await createOrchestrator(false).processEvent('user.created', { id: 1 }, context);
+      expect(disabled.map(result => result.status)).toEqual(['sent', 'sent', 'sent']);
+    });
+  });
+
+  describe('preferences', () => {
+    const twoRecipients: RecipientDistribution = {
+      name: 'team',
+      MAIN: [{ id: 'u1', name: 'Alice' }],
+      COPY: [{ id: 'u2', name: 'Bob' }],
+      BLIND: []
+    };
+
+    let preferenceStore: InMemoryPreferenceStore;
+
+    const createOrchestrator = () => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email', 'sms'] } } as any,
+      moduleRef,
+      loader,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      preferenceStore
+    );
+
+    beforeEach(async () => {
+      preferenceStore = new InMemoryPreferenceStore();
+      await preferenceStore.save([
+        { recipientId: 'u1', eventType: '*', channel: 'email', enabled: false },
+        { recipientId: 'u2', eventType: 'user.created', channel: '*', enabled: false },
+        { recipientId: 'u2', eventType: 'user.created', channel: 'sms', enabled: true }
+      ]);
+      loader.load.mockResolvedValue([twoRecipients]);
+      const sendAll = (channel: string) => async (distribution: RecipientDistribution) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel, provider: channel, status: 'sent', metadata: { recipientId: recipient.id }
+        }));
+      email.send.mockImplementation(sendAll('email'));
+      sms.send.mockImplementation(sendAll('sms'));
+    });
+
+    it('should only send on the channels each recipient accepts', async () => {
+      const results = await createOrchestrator().processEvent('user.created', { id: 1 }, context);
+
+      expect(email.send).not.toHaveBeenCalled();
+      expect(results.map(result => `${result.channel}:${result.metadata.recipientId}:${result.status}`)).toEqual([
+        'email:u1:skipped', 'email:u2:skipped', 'sms:u1:sent', 'sms:u2:sent'
+      ]);
+      expect(results[0].metadata.reason).toBe('opted-out');
+    });
+
+    it('should list opted-out recipients in the plan', async () => {
+      const plan = await createOrchestrator().planEvent('user.created', { id: 1 }, context);
+
+      expect(plan.channels.map(channel => channel.recipients.map(recipient => recipient.recipientId))).toEqual([[], ['u1', 'u2']]);
+      expect(plan.skipped.map(skipped => `${skipped.channel}:${skipped.recipientId}`)).toEqual(['email:u1', 'email:u2']);
+    });
+
+    it('should apply the preferences of the event type category', async () => {
+      await preferenceStore.save([{ recipientId: 'u1', eventType: 'category:marketing', channel: 'sms', enabled: false }]);
+      const orchestrator = new NotificationOrchestratorService(
+        { 'user.created': { description: 'User created', channels: ['sms'], category: 'marketing' } } as any,
+        moduleRef, loader, undefined, undefined, undefined, undefined, undefined, undefined, undefined, preferenceStore
+      );
+
+      const results = await orchestrator.processEvent('user.created', { id: 1 }, context);
+
+      expect(results.map(result => `${result.metadata.recipientId}:${result.status}`)).toEqual(['u1:skipped', 'u2:sent']);
+    });
+  });
+
+  describe('unsubscribe headers', () => {
+    const unsubscribe = { secret: 'test-secret', baseUrl: 'https://app.example.com/unsubscribe' };
+
+    class MailProvider extends BaseNotificationProvider<'email'> {
+      async send(distribution: RecipientDistribution, _payload: any, ctx: NotificationContext) {
+        return this.extractAllRecipients(distribution).map(recipient =>
+          this.createSentResult(ctx, { recipientId: recipient.id, headers: this.getListUnsubscribeHeaders(recipient, ctx) })
+        );
+      }
+      async healthCheck() { return true; }
+      validateConfig() { return true; }
+    }
+
+    const createOrchestrator = (config: any) => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email'], category: 'account' } } as any,
+      moduleRef, loader, undefined, undefined, config, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+      new UnsubscribeService(config, undefined)
+    );
+
+    beforeEach(() => {
+      NotifierRegistry.clear();
+      NotifierRegistry.register(MailProvider, { channel: 'email' });
+      instances.set(MailProvider, new MailProvider());
+    });
+
+    it('should give providers signed List-Unsubscribe headers for each recipient', async () => {
+      const results = await createOrchestrator({ eventTypes: {}, unsubscribe }).processEvent('user.created', { id: 1 }, context);
+
+      expect(results.map(result => result.metadata.recipientId)).toEqual(['u1', 'u2']);
+      const [, url] = results[0].metadata.headers['List-Unsubscribe'].match(/^<(.+)>$/);
+      expect(new UnsubscribeTokenSigner(unsubscribe).verify(new URL(url).searchParams.get('token'))).toEqual({
+        recipientId: 'u1', eventType: 'user.created', channel: 'email', category: 'account'
+      });
+      expect(results[0].metadata.headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    });
+
+    it('should not add headers without the unsubscribe option', async () => {
+      const results = await createOrchestrator({ eventTypes: {} }).processEvent('user.created', { id: 1 }, context);
+
+      expect(results.map(result => result.metadata.headers)).toEqual([{}, {}]);
+    });
+  });
+
+  describe('delivery windows', () => {
+    const recipients: RecipientDistribution = {
+      name: 'team',
+      MAIN: [{ id: 'u1', name: 'Alice', preferences: { enabled: true, quietHours: { start: '22:00', end: '07:00' }, timezone: 'Europe/Paris' } }],
+      COPY: [{ id: 'u2', name: 'Bob' }],
+      BLIND: []
+    };
+
+    let queueProvider: any;
+
+    const createOrchestrator = (priority?: string) => new NotificationOrchestratorService(
+      { 'user.created': { description: 'User created', channels: ['email'], priority } } as any,
+      moduleRef,
+      loader,
+      undefined,
+      undefined,
+      { mode: 'hybrid', eventTypes: {} } as any,
+      queueProvider
+    );
+
+    beforeEach(() => {
+      // 23h30 à Paris
+      jest.useFakeTimers({ now: new Date('2024-03-01T22:30:00Z') });
+      queueProvider = { add: jest.fn().mockResolvedValue({ id: 'job' }) };
+      loader.load.mockResolvedValue([recipients]);
+      email.send.mockImplementation(async (distribution: RecipientDistribution) =>
+        [...distribution.MAIN, ...distribution.COPY].map(recipient => ({
+          channel: 'email', provider: 'EmailProvider', status: 'sent', metadata: { recipientId: recipient.id }
+        }))
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should defer recipients in their quiet hours through the queue', async () => {
+      const results = await createOrchestrator().processEvent('user.created', { id: 1 }, context);
+
+      expect(email.send).toHaveBeenCalledWith({ name: 'team', MAIN: [], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] }, expect.anything(), expect.anything());
+      const deferredUntil = new Date('2024-03-02T06:00:00Z');
+      expect(results).toEqual([
+        expect.objectContaining({ status: 'pending', nextRetryAt: deferredUntil, metadata: { recipientId: 'u1', reason: 'outside-delivery-window', deferredUntil } }),
+        expect.objectContaining({ status: 'sent', metadata: { recipientId: 'u2' } })
+      ]);
+      expect(queueProvider.add).toHaveBeenCalledWith(
+        'redeliver-notification',
+        expect.objectContaining({
+          distributions: [{ name: 'team', MAIN: [recipients.MAIN[0]], COPY: [], BLIND: [] }],
+          context: expect.objectContaining({ eventId: 'evt_1', attempt: 1 })
+        }),
+        expect.objectContaining({ delay: 7.5 * 3600 * 1000, jobId: expect.stringMatching(new RegExp(`^evt_1:email:deferred-${deferredUntil.getTime()}:`)) })
+      );
+    });
+
+    it('should persist deferrals through the scheduler in api mode, with the fallback channels', async () => {
+      const scheduler = { scheduleRedelivery: jest.fn().mockResolvedValue(undefined) };
+      const orchestrator = new NotificationOrchestratorService(
+        { 'user.created': { description: 'User created', channels: ['email'], fallbackChannels: ['sms'] } } as any,
+        moduleRef, loader, undefined, undefined, { mode: 'api', eventTypes: {} } as any, queueProvider,
+        undefined, undefined, undefined, undefined, undefined, scheduler as any
+      );
+
+      await orchestrator.processEvent('user.created', { id: 1 }, context);
+
+      const deferredUntil = new Date('2024-03-02T06:00:00Z');
+      expect(queueProvider.add).not.toHaveBeenCalled();
+      expect(scheduler.scheduleRedelivery).toHaveBeenCalledWith(
+        expect.stringMatching(new RegExp(`^evt_1:email:deferred-${deferredUntil.getTime()}:`)),
+        expect.objectContaining({ channel: 'email', fallbackChannels: ['sms'] }),
+        deferredUntil
+      );
+    });
+
+    it('should keep the fallback channels on redelivery', async () => {
+      const orchestrator = new NotificationOrchestratorService(
+        { 'user.created': { description: 'User created', channels: ['email'] } } as any,
+        moduleRef, loader
+      );
+      email.send.mockRejectedValue(new Error('SMTP down'));
+      sms.send.mockResolvedValue([{ channel: 'sms', provider: 'SmsProvider', status: 'sent', metadata: { recipientId: 'u1' } }]);
+
+      const results = await orchestrator.redeliver({
+        eventType: 'user.created',
+        payload: { id: 1 },
+        channel: 'email',
+        distributions: [{ name: 'team', MAIN: [{ id: 'u1', name: 'Alice' }], COPY: [], BLIND: [] }],
+        context,
+        fallbackChannels: ['sms']
+      });
+
+      expect(sms.send).toHaveBeenCalledTimes(1);
+      expect(results.map(result => [result.channel, result.status])).toEqual([['email', 'failed'], ['sms', 'sent']]);
+    });
+
+    it('should send critical events immediately', async () => {
+      const results = await createOrchestrator('critical').processEvent('user.created', { id: 1 }, context);
+      const emitted = await createOrchestrator().processEvent('user.created', { id: 1 }, { ...context, priority: 'critical' });
+
+      expect(queueProvider.add).not.toHaveBeenCalled();
+      expect([...results, ...emitted].map(result => result.status)).toEqual(['sent', 'sent', 'sent', 'sent']);
+    });
+  });
+
+  describe('planEvent', () => {
+    it('should build a plan without sending anything', async () => {
+      const plan = await orchestrator.planEvent('user.created', { id: 1 }, context);
+
+      expect(email.send).not.toHaveBeenCalled();
+      expect(sms.send).not.toHaveBeenCalled();
+      expect(plan.distributions).toEqual([distribution]);
+      expect(plan.channels.map(channel => channel.channel)).toEqual(['email', 'sms', 'push']);
+
+      const [emailPlan, smsPlan, pushPlan] = plan.channels;
+      expect(emailPlan.provider).toBe('EmailProvider');
+      expect(emailPlan.recipients).toEqual([{ recipientId: 'u1', name: 'Alice', distribution: 'team', type: 'MAIN' }]);
+      expect(emailPlan.previews).toEqual([{ recipientId: 'u1', content: { subject: 'Bienvenue Alice' } }]);
+      expect(smsPlan.previews).toBeUndefined();
+      expect(pushPlan.skippedReason).toContain("Aucun provider trouvé pour le canal 'push'");
+    });
+
+    it('should list skipped recipients and channels with their reason', async () => {
+      const plan = await orchestrator.planEvent('user.created', { id: 1 }, context, { channels: ['email', 'push'] });
+
+      expect(plan.channels.map(channel => channel.channel)).toEqual(['email', 'push']);
+      expect(plan.skipped).toEqual([
+        { channel: 'email', recipientId: 'u2', reason: 'Notifications désactivées par le destinataire' },
+        { channel: 'push', reason: expect.stringContaining('push') }
+      ]);
+    });
+
+    it('should explain why an unknown event would not be sent', async () => {
+      const plan = await orchestrator.planEvent('unknown.event', {}, context);
+
+      expect(plan.channels).toEqual([]);
+      expect(plan.skipped[0].reason).toContain('unknown.event');
+    });
+  });
+
+  describe('tenant overrides', () => {
+    const acmeDistribution: RecipientDistribution = { name: 'acme', MAIN: [{ id: 'a1', name: 'Carol' }], COPY: [], BLIND: [] };
+    let acmeLoader: any;
+
+    beforeEach(() => {
+      acmeLoader = { load: jest.fn().mockResolvedValue([acmeDistribution]) };
+      instances.set('ACME_LOADER', acmeLoader);
+
+      const resolver = {
+        resolve: jest.fn(async (tenantId: string) => tenantId === 'acme'
+          ? {
+            eventTypes: { 'user.created': { channels: ['sms'] } },
+            recipientLoader: 'ACME_LOADER',
+            providers: { sms: { apiKey: 'acme-key' } }
+          }
+          : undefined)
+      };
+
+      orchestrator = new NotificationOrchestratorService(
+        { 'user.created': { description: 'User created', channels: ['email', 'sms'] } } as any,
+        moduleRef,
+        loader,
+        resolver
+      );
+    });
+
+    it('should apply the tenant channels, loader and provider configuration', async () => {
+      const tenantContext = { ...context, tenantId: 'acme' };
+
+      await orchestrator.processEvent('user.created', { id: 1 }, tenantContext);
+
+      expect(email.send).not.toHaveBeenCalled();
+      expect(loader.load).not.toHaveBeenCalled();
+      expect(acmeLoader.load).toHaveBeenCalledWith('user.created', { id: 1 }, tenantContext);
+      expect(sms.send).toHaveBeenCalledWith(
+        acmeDistribution,
+        { id: 1 },
+        expect.objectContaining({
+          tenantId: 'acme',
+          metadata: expect.objectContaining({ channel: 'sms', providerConfig: { apiKey: 'acme-key' } })
+        })
+      );
+    });
+
+    it('should fall back to the global configuration for other tenants', async () => {
+      await orchestrator.processEvent('user.created', { id: 1 }, { ...context, tenantId: 'globex' });
+
+      expect(loader.load).toHaveBeenCalled();
+      expect(email.send).toHaveBeenCalled();
+      expect(sms.send).toHaveBeenCalledWith(
+        distribution,
+        { id: 1 },
+        expect.objectContaining({ metadata: expect.objectContaining({ providerConfig: undefined }) })
+      );
+    });
+  });
+});
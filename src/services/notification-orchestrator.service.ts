@@ -1,14 +1,42 @@
-import {Injectable, Inject, Logger, Optional, forwardRef} from '@nestjs/common';
+import {Injectable, Inject, Logger, Optional, OnModuleDestroy, forwardRef} from '@nestjs/common';
 import { ModuleRef } from '@nestjs/core';
+import { createHash } from 'crypto';
 import {
     EventTypesConfig,
+    PackageConfig,
     NotificationResult,
     NotificationContext,
-    NotificationProvider, EventTypeConfig
+    NotificationProvider, EventTypeConfig, EventProcessingOptions,
+    EmissionPlan, ChannelPlan, NotificationRedelivery, QueueProvider, EscalationStep, RetryPolicy
 } from '../types/interfaces';
-import { RecipientDistribution, RecipientLoader} from '../loaders/recipient-loader.interface';
+import { Recipient, RecipientDistribution, RecipientLoader, RecipientType} from '../loaders/recipient-loader.interface';
 import { NotifierRegistry} from '../decorators/injectable-notifier.decorator';
-import { EVENT_TYPES_CONFIG, RECIPIENT_LOADER_TOKEN } from '../module/event-notifications.module';
+import {
+    DELIVERY_LEDGER_TOKEN,
+    EVENT_NOTIFICATIONS_CONFIG,
+    EVENT_TYPES_CONFIG,
+    PREFERENCE_STORE_TOKEN,
+    QUEUE_PROVIDER_TOKEN,
+    RECIPIENT_LOADER_TOKEN,
+    TENANT_CONFIG_RESOLVER_TOKEN
+} from '../module/event-notifications.module';
+import { TenantConfig, TenantConfigResolver, applyTenantOverrides } from '../tenancy/tenant-config-resolver.interface';
+import { EventTypeConfigService } from './event-type-config.service';
+import { SystemEventService } from './system-event.service';
+import { ProviderHealthService } from './provider-health.service';
+import { EscalationService } from './escalation.service';
+import { EventSchedulerService } from './event-scheduler.service';
+import { UnsubscribeService } from './unsubscribe.service';
+import { DeliveryLedger, DeliveryRecord } from '../delivery/delivery-ledger.interface';
+import { ConcurrencyLimiter } from '../utils/concurrency-limiter';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, resolveRetryPolicy } from '../utils/retry-policy';
+import { PROVIDER_ERROR_REASON } from '../utils/circuit-breaker';
+import { getNextDeliverySlot } from '../scheduling/delivery-window';
+import { deduplicateRecipients } from '../utils/recipient-deduplication';
+import { NotificationPreference, PreferenceStore, getCategoryPreferenceKey, resolvePreference } from '../preferences/preference-store.interface';
+
+/** Nombre maximum d'envois simultanés par défaut (global.maxConcurrentNotifications) */
+const DEFAULT_MAX_CONCURRENT_NOTIFICATIONS = 10;
 
 
 /**
@@ -21,34 +49,68 @@ import { EVENT_TYPES_CONFIG, RECIPIENT_LOADER_TOKEN } from '../module/event-noti
  * - L'injection de dépendances NestJS (ModuleRef)
  */
 @Injectable()
-export class NotificationOrchestratorService {
+export class NotificationOrchestratorService implements OnModuleDestroy {
     protected readonly logger = new Logger(NotificationOrchestratorService.name);
+    private readonly globalLimiter: ConcurrencyLimiter;
+    private readonly channelLimiters = new Map<string, ConcurrencyLimiter>();
+    private readonly retryTimers = new Set<ReturnType<typeof setTimeout>>();
 
     constructor(
         @Inject(forwardRef(() => EVENT_TYPES_CONFIG)) private readonly eventTypesConfig: EventTypesConfig,
         private readonly moduleRef: ModuleRef,
-        @Optional() @Inject(forwardRef(() => RECIPIENT_LOADER_TOKEN)) private readonly recipientLoader?: RecipientLoader
-    ) {}
+        @Optional() @Inject(forwardRef(() => RECIPIENT_LOADER_TOKEN)) private readonly recipientLoader?: RecipientLoader,
+        @Optional() @Inject(forwardRef(() => TENANT_CONFIG_RESOLVER_TOKEN)) private readonly tenantConfigResolver?: TenantConfigResolver,
+        @Optional() @Inject(forwardRef(() => EventTypeConfigService)) private readonly eventTypeConfigs?: EventTypeConfigService,
+        @Optional() @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config?: PackageConfig,
+        @Optional() @Inject(forwardRef(() => QUEUE_PROVIDER_TOKEN)) private readonly queueProvider?: QueueProvider,
+        @Optional() @Inject(forwardRef(() => SystemEventService)) private readonly systemEvents?: SystemEventService,
+        @Optional() @Inject(forwardRef(() => DELIVERY_LEDGER_TOKEN)) private readonly deliveryLedger?: DeliveryLedger,
+        @Optional() @Inject(forwardRef(() => ProviderHealthService)) private readonly providerHealth?: ProviderHealthService,
+        @Optional() @Inject(forwardRef(() => PREFERENCE_STORE_TOKEN)) private readonly preferenceStore?: PreferenceStore,
+        @Optional() @Inject(forwardRef(() => EscalationService)) private readonly escalation?: EscalationService,
+        @Optional() @Inject(forwardRef(() => EventSchedulerService)) private readonly scheduler?: EventSchedulerService,
+        @Optional() @Inject(forwardRef(() => UnsubscribeService)) private readonly unsubscribe?: UnsubscribeService
+    ) {
+        this.globalLimiter = new ConcurrencyLimiter(
+            this.config?.global?.maxConcurrentNotifications ?? DEFAULT_MAX_CONCURRENT_NOTIFICATIONS
+        );
+    }
+
+    onModuleDestroy() {
+        // Les nouvelles tentatives programmées en mémoire sont abandonnées à l'arrêt
+        this.retryTimers.forEach(timer => clearTimeout(timer));
+        this.retryTimers.clear();
+    }
 
     /**
      * Traite un événement et déclenche les notifications sur tous les canaux configurés
+     * (ou sur le sous-ensemble demandé via options.channels)
      */
     async processEvent(
         eventType: string,
         payload: any,
-        context: NotificationContext
+        context: NotificationContext,
+        options: EventProcessingOptions = {}
     ): Promise<NotificationResult[]> {
         const startTime = Date.now();
 
         try {
-            // 1. Récupère la configuration de l'événement
-            const eventConfig:EventTypeConfig = (this.eventTypesConfig as any)[eventType];
+            // 1. Récupère la configuration de l'événement (avec les surcharges du tenant)
+            const { eventConfig, tenantConfig } = await this.resolveEventConfig(eventType, context);
             if (!eventConfig) {
                 this.logger.warn(`Aucune configuration trouvée pour l'événement: ${eventType}`);
                 return [];
             }
 
-            console.log("this.recipientLoader",this.recipientLoader);
+            if (eventConfig.enabled === false) {
+                this.logger.log(`Type d'événement ${eventType} désactivé, notifications ignorées`);
+                return [];
+            }
+
+            const channels = options.channels
+                ? eventConfig.channels.filter(channel => options.channels.includes(channel))
+                : eventConfig.channels;
+
             const recipientLoader = this.extractLoader(eventConfig.loader,this.recipientLoader);
             // 2. Charge les destinataires pour cet événement
             if (!recipientLoader) {
@@ -56,7 +118,7 @@ export class NotificationOrchestratorService {
                 return [];
             }
 
-            const distributions = await recipientLoader.load(eventType, payload);
+            const distributions = await recipientLoader.load(eventType, payload, context);
             if (!distributions || distributions.length === 0) {
                 this.logger.warn(`Aucun destinataire trouvé pour l'événement: ${eventType}`);
                 return [];
@@ -64,37 +126,15 @@ export class NotificationOrchestratorService {
 
             this.logger.log(
                 `Traitement de l'événement ${eventType} pour ${distributions.length} destinataire(s) ` +
-                `sur les canaux: [${eventConfig.channels.join(', ')}]`
+                `sur les canaux: [${channels.join(', ')}]`
             );
 
-            // 3. Traite chaque canal configuré
-            const allResults: NotificationResult[] = [];
-
-            for (const channel of eventConfig.channels) {
-                try {
-                    const channelResults = await this.processChannel(
-                        channel,
-                        eventType,
-                        payload,
-                        {...context, metadata:{...context.metadata||{}, config: eventConfig}},
-                        distributions
-                    );
-                    allResults.push(...channelResults);
-                } catch (error) {
-                    this.logger.error(
-                        `Erreur lors du traitement du canal ${channel} pour l'événement ${eventType}: ${error.message}`
-                    );
+            // 3. Traite les canaux en parallèle (envois bornés par les limiteurs de concurrence)
+            const allResults = await this.processChannels(channels, eventType, payload, context, eventConfig, tenantConfig, distributions);
 
-                    // Créer un résultat d'erreur pour ce canal
-                    allResults.push({
-                        channel,
-                        provider: 'unknown',
-                        status: 'failed',
-                        error: error.message,
-                        sentAt: new Date(),
-                        attempts: context.attempt
-                    });
-                }
+            // 4. Démarre l'escalade des événements critiques non acquittés (hors rejeu)
+            if (eventConfig.escalation?.length && this.escalation && !context.metadata?.replay) {
+                await this.startEscalation(eventType, payload, context);
             }
 
             const duration = Date.now() - startTime;
@@ -115,6 +155,118 @@ export class NotificationOrchestratorService {
         }
     }
 
+    /**
+     * Traite les canaux en parallèle pour les distributions chargées
+     * Les résultats restent ordonnés par canal configuré puis par distribution
+     */
+    private async processChannels(
+        channels: string[],
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        eventConfig: EventTypeConfig,
+        tenantConfig: TenantConfig | undefined,
+        distributions: RecipientDistribution[]
+    ): Promise<NotificationResult[]> {
+        const fallbackChannels = this.getFallbackChannels(eventConfig);
+        const channelResults = await Promise.all(channels.map(async channel => {
+            try {
+                return await this.processChannel(
+                    channel,
+                    eventType,
+                    payload,
+                    {...context, metadata:{...context.metadata||{}, config: eventConfig, providerConfig: tenantConfig?.providers?.[channel]}},
+                    distributions,
+                    fallbackChannels,
+                    tenantConfig
+                );
+            } catch (error) {
+                this.logger.error(
+                    `Erreur lors du traitement du canal ${channel} pour l'événement ${eventType}: ${error.message}`
+                );
+
+                // Créer un résultat d'erreur pour ce canal
+                return [{
+                    channel,
+                    provider: 'unknown',
+                    status: 'failed',
+                    error: error.message,
+                    sentAt: new Date(),
+                    attempts: context.attempt
+                } as NotificationResult];
+            }
+        }));
+        return channelResults.flat();
+    }
+
+    /**
+     * Déclenche une étape d'escalade : envoi sur les canaux de l'étape aux destinataires de son loader
+     * (celui du type d'événement par défaut), éventuellement restreints à certaines distributions
+     */
+    async processEscalationStep(
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        step: EscalationStep
+    ): Promise<NotificationResult[]> {
+        const { eventConfig, tenantConfig } = await this.resolveEventConfig(eventType, context);
+        if (!eventConfig || eventConfig.enabled === false) {
+            this.logger.warn(`Étape d'escalade ignorée : type d'événement ${eventType} absent ou désactivé`);
+            return [];
+        }
+
+        const recipientLoader = this.extractLoader(step.loader ?? eventConfig.loader, this.recipientLoader);
+        if (!recipientLoader) {
+            this.logger.warn(`Aucun RecipientLoader configuré pour l'escalade de l'événement: ${eventType}`);
+            return [];
+        }
+
+        const loaded: RecipientDistribution[] = await recipientLoader.load(eventType, payload, context) || [];
+        const distributions = step.distributions
+            ? loaded.filter(distribution => step.distributions.includes(distribution.name))
+            : loaded;
+        if (distributions.length === 0) {
+            this.logger.warn(`Aucun destinataire pour l'escalade de l'événement: ${eventType}`);
+            return [];
+        }
+
+        return this.processChannels(step.channels, eventType, payload, context, eventConfig, tenantConfig, distributions);
+    }
+
+    /**
+     * Un échec de démarrage de l'escalade est journalisé sans invalider l'envoi initial
+     */
+    private async startEscalation(eventType: string, payload: any, context: NotificationContext): Promise<void> {
+        try {
+            await this.escalation.start(eventType, payload, context);
+        } catch (error) {
+            this.logger.error(`Démarrage de l'escalade impossible pour l'événement ${context.eventId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Configuration d'un type d'événement pour le contexte donné
+     * Les surcharges du tenant (canaux, loader) s'appliquent lorsque l'événement porte un tenantId
+     */
+    private async resolveEventConfig(
+        eventType: string,
+        context: NotificationContext
+    ): Promise<{ eventConfig?: EventTypeConfig, tenantConfig?: TenantConfig }> {
+        const baseConfig: EventTypeConfig = this.eventTypeConfigs
+            ? this.eventTypeConfigs.get(eventType)
+            : (this.eventTypesConfig as any)[eventType];
+        if (!context.tenantId || !this.tenantConfigResolver) {
+            return { eventConfig: baseConfig };
+        }
+
+        const tenantConfig = await this.tenantConfigResolver.resolve(context.tenantId);
+        if (!tenantConfig) {
+            this.logger.debug(`Aucune configuration spécifique pour le tenant ${context.tenantId}`);
+        }
+
+        return { eventConfig: applyTenantOverrides(eventType, baseConfig, tenantConfig), tenantConfig };
+    }
+
     private extractLoader(tokenLoader: EventTypeConfig['loader'],defaultLoader:RecipientLoader) {
         try {
             return this.moduleRef.get(tokenLoader??RECIPIENT_LOADER_TOKEN, {strict: false, each: undefined})??defaultLoader
@@ -124,16 +276,839 @@ export class NotificationOrchestratorService {
     }
 
     /**
-     * Traite un canal spécifique en récupérant son provider et en envoyant les notifications
+     * Traite un canal spécifique en ignorant les destinataires en double, ceux déjà servis lors d'une tentative précédente
+     * ou ayant désactivé ce canal (PreferenceStore), et en reportant ceux qui sont hors de leur fenêtre d'envoi
+     * Les envois réussis sont enregistrés dans le DeliveryLedger
      */
     private async processChannel(
         channel: string,
         eventType: string,
         payload: any,
         context: NotificationContext,
+        distributions: RecipientDistribution[],
+        fallbackChannels: string[] = [],
+        tenantConfig?: TenantConfig
+    ): Promise<NotificationResult[]> {
+        const { unique, duplicates } = this.excludeDuplicates(channel, context, distributions);
+        const { pending, skipped } = await this.excludeDelivered(channel, context, unique);
+        const { allowed, optedOut } = await this.excludeOptedOut(channel, eventType, context, pending);
+        const { due, deferred } = await this.deferOutsideWindow(channel, eventType, payload, context, allowed, fallbackChannels);
+        const excluded = [...duplicates, ...skipped, ...optedOut, ...deferred];
+        if (due.length === 0) {
+            return excluded;
+        }
+
+        const results = await this.sendToChannel(channel, eventType, payload, context, due, fallbackChannels, tenantConfig);
+        await this.recordDeliveries(channel, context, results);
+
+        return [...excluded, ...results];
+    }
+
+    /**
+     * Envoie les notifications d'un canal en récupérant son provider
+     * Avec des canaux de fallback, les destinataires non servis sont repris sur le canal de fallback suivant
+     */
+    private async sendToChannel(
+        channel: string,
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        distributions: RecipientDistribution[],
+        fallbackChannels: string[],
+        tenantConfig?: TenantConfig
+    ): Promise<NotificationResult[]> {
+        const fallback = (recipients: RecipientDistribution[], reason: string) => this.processFallback(
+            channel, fallbackChannels, eventType, payload, context, recipients, reason, tenantConfig
+        );
+
+        // 1-2. Découvre la classe du provider et récupère son instance
+        let resolved: { ProviderClass: any, providerInstance: NotificationProvider };
+        try {
+            resolved = this.resolveProvider(channel);
+        } catch (error) {
+            if (!this.hasFallback(channel, fallbackChannels)) throw error;
+            return fallback(distributions, error.message);
+        }
+        const { ProviderClass, providerInstance } = resolved;
+
+        // 3. Vérifie que le provider est disponible (circuit breaker, sinon health check à chaque envoi)
+        if (this.providerHealth?.isEnabled()) {
+            const unavailable = await this.providerHealth.checkAvailability(channel, ProviderClass.name, providerInstance);
+            if (unavailable) {
+                this.logger.warn(`${unavailable} (canal '${channel}'), envoi court-circuité`);
+
+                if (this.hasFallback(channel, fallbackChannels)) {
+                    return fallback(distributions, unavailable);
+                }
+                return this.deferChannel(channel, ProviderClass.name, eventType, payload, context, distributions, unavailable);
+            }
+        } else {
+            const isHealthy = await providerInstance.healthCheck();
+            if (!isHealthy) {
+                this.logger.warn(
+                    `Provider ${ProviderClass.name} pour le canal '${channel}' n'est pas en bonne santé`
+                );
+
+                if (this.hasFallback(channel, fallbackChannels)) {
+                    return fallback(distributions, `Provider ${ProviderClass.name} en mauvaise santé`);
+                }
+            }
+        }
+
+        // 4. Envoie les notifications à toutes les distributions en parallèle
+        const limiter = this.getChannelLimiter(channel);
+        const distributionResults = await Promise.all(distributions.map(distribution =>
+            limiter.run(() => this.globalLimiter.run(() =>
+                this.sendDistribution(providerInstance, ProviderClass, channel, eventType, payload, context, distribution)
+            ))
+        ));
+
+        const results = distributionResults.flat();
+
+        // 5. Les destinataires dont tous les envois ont échoué sont repris sur le canal de fallback,
+        // ou à défaut sur ce canal selon la RetryPolicy
+        const failed = this.collectFailedRecipients(distributions, distributionResults);
+        if (!failed.some(Boolean)) {
+            return results;
+        }
+
+        if (this.hasFallback(channel, fallbackChannels)) {
+            return [...results, ...await fallback(failed.filter(Boolean), `Échec de l'envoi sur le canal '${channel}'`)];
+        }
+
+        return this.scheduleRetry(channel, eventType, payload, context, distributionResults, failed);
+    }
+
+    /**
+     * Reporte l'envoi d'un canal dont le circuit est ouvert : les destinataires sont en échec ('circuit-open')
+     * et repris selon la RetryPolicy, ou à défaut après la durée d'ouverture du circuit (resetTimeout)
+     */
+    private deferChannel(
+        channel: string,
+        providerName: string,
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        distributions: RecipientDistribution[],
+        reason: string
+    ): Promise<NotificationResult[]> {
+        const distributionResults = distributions.map(distribution =>
+            this.extractRecipients(distribution).map((recipient): NotificationResult => ({
+                channel,
+                provider: providerName,
+                status: 'failed',
+                error: reason,
+                sentAt: new Date(),
+                attempts: context.attempt,
+                metadata: { recipientId: recipient.id, reason: 'circuit-open' }
+            }))
+        );
+
+        // Sans RetryPolicy, le report a lieu à la réouverture prévue du circuit plutôt que d'abandonner les envois
+        const { resetTimeout } = this.providerHealth.getOptions(channel);
+        const circuitPolicy: RetryPolicy = {
+            ...DEFAULT_RETRY_POLICY,
+            initialDelay: resetTimeout,
+            maxDelay: Math.max(DEFAULT_RETRY_POLICY.maxDelay, resetTimeout * DEFAULT_RETRY_POLICY.backoffFactor)
+        };
+
+        return this.scheduleRetry(channel, eventType, payload, context, distributionResults, distributions, circuitPolicy);
+    }
+
+    /**
+     * Programme un nouvel envoi du canal aux destinataires en échec selon la RetryPolicy (ou `defaultPolicy` sans RetryPolicy)
+     * Leurs résultats passent en 'retrying' avec nextRetryAt ; une fois les tentatives épuisées, ils restent 'failed'
+     */
+    private async scheduleRetry(
+        channel: string,
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        distributionResults: NotificationResult[][],
+        failed: Array<RecipientDistribution | undefined>,
+        defaultPolicy?: RetryPolicy
+    ): Promise<NotificationResult[]> {
+        const results = distributionResults.flat();
+        const policy = resolveRetryPolicy(this.config?.global?.retryPolicy, context.metadata?.config?.retryPolicy) ?? defaultPolicy;
+        if (!policy) {
+            return results;
+        }
+
+        const attempt = context.attempt || 1;
+        const distributions = failed.filter(Boolean);
+        const recipientIds = distributions.flatMap(distribution => this.extractRecipients(distribution).map(recipient => recipient.id));
+
+        if (attempt >= policy.maxAttempts) {
+            this.logger.warn(
+                `Tentatives épuisées (${attempt}/${policy.maxAttempts}) sur le canal '${channel}' ` +
+                `pour l'événement ${eventType}: ${recipientIds.length} destinataire(s) en échec`
+            );
+            this.systemEvents?.publish('retry.exhausted', {
+                eventId: context.eventId,
+                eventType,
+                channel,
+                attempts: attempt,
+                recipientIds
+            }, 'warning');
+            return results;
+        }
+
+        const delay = getRetryDelay(policy, attempt);
+        const nextRetryAt = new Date(Date.now() + delay);
+        const redelivery: NotificationRedelivery = {
+            eventType,
+            payload,
+            channel,
+            distributions,
+            context: this.toRedeliveryContext(eventType, context, attempt + 1)
+        };
+
+        try {
+            await this.enqueueRedelivery(redelivery, delay);
+        } catch (error) {
+            this.logger.error(`Impossible de programmer la tentative ${attempt + 1} sur le canal '${channel}': ${error.message}`);
+            return results;
+        }
+
+        this.logger.log(
+            `Tentative ${attempt + 1}/${policy.maxAttempts} sur le canal '${channel}' dans ${delay}ms ` +
+            `pour ${recipientIds.length} destinataire(s) de l'événement ${eventType}`
+        );
+
+        return distributionResults.flatMap((distributionResult, index) => {
+            if (!failed[index]) {
+                return distributionResult;
+            }
+
+            const retried = new Set(this.extractRecipients(failed[index]).map(recipient => recipient.id));
+            return distributionResult.map(result =>
+                result.status === 'failed' && (result.metadata?.recipientId === undefined || retried.has(result.metadata.recipientId))
+                    ? { ...result, status: 'retrying' as const, nextRetryAt }
+                    : result
+            );
+        });
+    }
+
+    /**
+     * Met le nouvel envoi en queue (job 'redeliver-notification') lorsqu'elle est traitée par des workers,
+     * sinon le persiste dans le ScheduleStore via le planificateur pour qu'il survive aux redémarrages
+     * (à défaut de planificateur, il est programmé en mémoire sur cette instance)
+     */
+    private async enqueueRedelivery(
+        redelivery: NotificationRedelivery,
+        delay: number,
+        jobId: string = this.getRedeliveryJobId(redelivery, String(redelivery.context.attempt))
+    ): Promise<void> {
+        if (this.queueProvider && (this.config?.mode || 'api') !== 'api') {
+            await this.queueProvider.add('redeliver-notification', redelivery, { delay, attempts: 1, jobId });
+            return;
+        }
+
+        if (this.scheduler) {
+            await this.scheduler.scheduleRedelivery(jobId, redelivery, new Date(Date.now() + delay));
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(timer);
+            this.redeliver(redelivery).catch(error =>
+                this.logger.error(`Échec de la nouvelle tentative sur le canal '${redelivery.channel}': ${error.message}`)
+            );
+        }, delay);
+        timer.unref?.();
+        this.retryTimers.add(timer);
+    }
+
+    /**
+     * Contexte transmis à un nouvel envoi : uniquement ce qui est sérialisable et utile à la reprise
+     * (l'étape d'escalade conserve sa propre clé dans le DeliveryLedger)
+     */
+    private toRedeliveryContext(eventType: string, context: NotificationContext, attempt: number): NotificationContext {
+        const escalationLevel = context.metadata?.escalationLevel;
+        return {
+            eventId: context.eventId,
+            correlationId: context.correlationId,
+            causationId: context.causationId,
+            tenantId: context.tenantId,
+            eventType,
+            priority: context.priority,
+            attempt,
+            ...(escalationLevel ? { metadata: { escalationLevel } } : {})
+        };
+    }
+
+    /**
+     * Identifiant du job d'un nouvel envoi, propre à ses destinataires
+     * Bull/BullMQ ignorent un jobId déjà utilisé : deux groupes de destinataires du même événement, canal
+     * et tentative (reports distincts, étapes d'escalade) doivent avoir des jobs distincts.
+     */
+    private getRedeliveryJobId(redelivery: NotificationRedelivery, step: string): string {
+        const recipientIds = redelivery.distributions
+            .flatMap(distribution => this.extractRecipients(distribution).map(recipient => recipient.id))
+            .sort();
+        const recipientsHash = createHash('sha1').update(recipientIds.join('\n')).digest('hex').slice(0, 16);
+
+        return `${this.getDeliveryKey(redelivery.context)}:${redelivery.channel}:${step}:${recipientsHash}`;
+    }
+
+    /**
+     * Renvoie un canal aux destinataires d'une NotificationRedelivery (nouvelle tentative)
+     * Utilisé par le job 'redeliver-notification' et par les nouveaux envois planifiés
+     */
+    async redeliver(redelivery: NotificationRedelivery): Promise<NotificationResult[]> {
+        const { eventType, payload, channel, distributions, fallbackChannels = [] } = redelivery;
+        const { eventConfig, tenantConfig } = await this.resolveEventConfig(eventType, redelivery.context);
+        if (!eventConfig || eventConfig.enabled === false) {
+            this.logger.warn(`Nouvelle tentative ignorée: type d'événement ${eventType} inconnu ou désactivé`);
+            return [];
+        }
+
+        const context: NotificationContext = {
+            ...redelivery.context,
+            metadata: {
+                ...redelivery.context.metadata,
+                config: eventConfig,
+                providerConfig: tenantConfig?.providers?.[channel]
+            }
+        };
+
+        try {
+            return await this.processChannel(channel, eventType, payload, context, distributions, fallbackChannels, tenantConfig);
+        } catch (error) {
+            this.logger.error(`Erreur lors de la tentative ${context.attempt} sur le canal ${channel}: ${error.message}`);
+            return [{
+                channel,
+                provider: 'unknown',
+                status: 'failed',
+                error: error.message,
+                sentAt: new Date(),
+                attempts: context.attempt
+            }];
+        }
+    }
+
+    /**
+     * Envoie des destinataires sur le premier canal de fallback disponible (les suivants restent en réserve)
+     * Les résultats indiquent le canal d'origine et la raison du fallback
+     */
+    private async processFallback(
+        fromChannel: string,
+        fallbackChannels: string[],
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        distributions: RecipientDistribution[],
+        reason: string,
+        tenantConfig?: TenantConfig
+    ): Promise<NotificationResult[]> {
+        const [channel, ...remaining] = fallbackChannels.filter(candidate => candidate !== fromChannel);
+
+        this.logger.warn(`Fallback de '${fromChannel}' vers '${channel}' pour l'événement ${eventType}: ${reason}`);
+
+        const fallbackContext: NotificationContext = {
+            ...context,
+            metadata: {
+                ...context.metadata,
+                providerConfig: tenantConfig?.providers?.[channel],
+                fallbackFrom: fromChannel,
+                fallbackReason: reason
+            }
+        };
+
+        let results: NotificationResult[];
+        try {
+            results = await this.processChannel(channel, eventType, payload, fallbackContext, distributions, remaining, tenantConfig);
+        } catch (error) {
+            results = [{
+                channel,
+                provider: 'unknown',
+                status: 'failed',
+                error: error.message,
+                sentAt: new Date(),
+                attempts: context.attempt
+            }];
+        }
+
+        // Le canal d'origine reste celui de l'événement ; les raisons des fallbacks successifs sont chaînées
+        return results.map(result => ({
+            ...result,
+            fallbackFrom: fromChannel,
+            fallbackReason: result.fallbackReason ? `${reason} → ${result.fallbackReason}` : reason
+        }));
+    }
+
+    /**
+     * Canaux de fallback d'un événement (EventTypeConfig.fallbackChannels, sauf global.useFallbackChannels: false)
+     */
+    private getFallbackChannels(eventConfig: EventTypeConfig): string[] {
+        if (this.config?.global?.useFallbackChannels === false) {
+            return [];
+        }
+        return eventConfig.fallbackChannels || [];
+    }
+
+    private hasFallback(channel: string, fallbackChannels: string[]): boolean {
+        return fallbackChannels.some(candidate => candidate !== channel);
+    }
+
+    /**
+     * Destinataires dont tous les résultats sont en échec, par distribution (undefined si aucun échec)
+     * Sans recipientId dans les résultats, une distribution entièrement en échec est reprise en totalité
+     */
+    private collectFailedRecipients(
+        distributions: RecipientDistribution[],
+        distributionResults: NotificationResult[][]
+    ): Array<RecipientDistribution | undefined> {
+        return distributions.map((distribution, index) => {
+            const results = distributionResults[index];
+            const hasRecipientIds = results.some(result => result.metadata?.recipientId !== undefined);
+            const allFailed = results.length > 0 && results.every(result => result.status === 'failed');
+
+            const isFailed = (recipient: Recipient): boolean => {
+                if (!hasRecipientIds) {
+                    return allFailed;
+                }
+                const recipientResults = results.filter(result => result.metadata?.recipientId === recipient.id);
+                return recipientResults.length > 0 && recipientResults.every(result => result.status === 'failed');
+            };
+
+            const subset: RecipientDistribution = {
+                name: distribution.name,
+                [RecipientType.MAIN]: (distribution.MAIN || []).filter(isFailed),
+                [RecipientType.COPY]: (distribution.COPY || []).filter(isFailed),
+                [RecipientType.BLIND]: (distribution.BLIND || []).filter(isFailed)
+            };
+
+            return this.extractRecipients(subset).length > 0 ? subset : undefined;
+        });
+    }
+
+    /**
+     * Retire les destinataires en double sur ce canal, toutes distributions confondues (MAIN > COPY > BLIND)
+     * Ils sont signalés en 'skipped' avec la raison 'duplicate'
+     */
+    private excludeDuplicates(
+        channel: string,
+        context: NotificationContext,
+        distributions: RecipientDistribution[]
+    ): { unique: RecipientDistribution[], duplicates: NotificationResult[] } {
+        const keyOf = this.getDeduplicationKey(channel, context);
+        if (!keyOf) {
+            return { unique: distributions, duplicates: [] };
+        }
+
+        const { distributions: unique, duplicates } = deduplicateRecipients(distributions, keyOf);
+        if (duplicates.length === 0) {
+            return { unique, duplicates: [] };
+        }
+
+        const providerName = NotifierRegistry.getProviderByChannel(channel)?.name || 'unknown';
+        this.logger.log(`${duplicates.length} destinataire(s) en double ignoré(s) sur le canal '${channel}' pour l'événement ${context.eventType}`);
+
+        return {
+            unique,
+            duplicates: duplicates.map((duplicate): NotificationResult => ({
+                channel,
+                provider: providerName,
+                status: 'skipped',
+                attempts: context.attempt,
+                metadata: {
+                    recipientId: duplicate.recipient.id,
+                    reason: 'duplicate',
+                    duplicateOf: duplicate.duplicateOf.id,
+                    distribution: duplicate.distribution,
+                    type: duplicate.type
+                }
+            }))
+        };
+    }
+
+    /**
+     * Clé de déduplication des destinataires d'un canal (recipientDeduplication du type d'événement, sinon globale)
+     * Retourne undefined lorsque la déduplication est désactivée
+     */
+    private getDeduplicationKey(channel: string, context: NotificationContext): ((recipient: Recipient) => string) | undefined {
+        const setting = context.metadata?.config?.recipientDeduplication ?? this.config?.global?.recipientDeduplication;
+        if (setting === false) {
+            return undefined;
+        }
+
+        const by = typeof setting === 'object' ? setting.by : undefined;
+        const property = by && by !== 'id' ? by[channel] : undefined;
+
+        return recipient => {
+            const address = property ? (recipient as Record<string, any>)[property] : undefined;
+            return address !== undefined && address !== null && address !== ''
+                ? `${property}:${String(address).trim().toLowerCase()}`
+                : `id:${recipient.id}`;
+        };
+    }
+
+    /**
+     * Retire des distributions les destinataires déjà servis sur ce canal (DeliveryLedger)
+     * Ils sont signalés en 'skipped' avec la raison 'already-delivered' ; un rejeu explicite renvoie à tous
+     */
+    private async excludeDelivered(
+        channel: string,
+        context: NotificationContext,
+        distributions: RecipientDistribution[]
+    ): Promise<{ pending: RecipientDistribution[], skipped: NotificationResult[] }> {
+        if (!this.deliveryLedger || context.metadata?.replay) {
+            return { pending: distributions, skipped: [] };
+        }
+
+        let delivered: DeliveryRecord[];
+        try {
+            delivered = await this.deliveryLedger.getDelivered(this.getDeliveryKey(context), channel);
+        } catch (error) {
+            this.logger.error(`Lecture du registre des envois impossible pour le canal '${channel}': ${error.message}`);
+            return { pending: distributions, skipped: [] };
+        }
+
+        if (delivered.length === 0) {
+            return { pending: distributions, skipped: [] };
+        }
+
+        const deliveries = new Map(delivered.map(record => [record.recipientId, record]));
+        const skipped: NotificationResult[] = [];
+        const isPending = (recipient: Recipient): boolean => {
+            const record = deliveries.get(recipient.id);
+            if (!record) {
+                return true;
+            }
+
+            skipped.push({
+                channel,
+                provider: record.provider,
+                status: 'skipped',
+                sentAt: record.deliveredAt,
+                attempts: context.attempt,
+                metadata: { recipientId: recipient.id, reason: 'already-delivered' }
+            });
+            return false;
+        };
+
+        const pending = this.filterRecipients(distributions, isPending);
+
+        this.logger.log(`${skipped.length} destinataire(s) déjà servi(s) sur le canal '${channel}' pour l'événement ${context.eventId}`);
+
+        return { pending, skipped };
+    }
+
+    /**
+     * Clé de l'événement dans le DeliveryLedger : chaque étape d'escalade a la sienne,
+     * pour pouvoir relancer un destinataire déjà servi lors de l'envoi initial
+     */
+    private getDeliveryKey(context: NotificationContext): string {
+        const level = context.metadata?.escalationLevel;
+        return level ? `${context.eventId}:escalation:${level}` : context.eventId;
+    }
+
+    /**
+     * Enregistre les envois réussis du canal dans le DeliveryLedger
+     * Un échec d'enregistrement est journalisé sans bloquer le traitement
+     */
+    private async recordDeliveries(channel: string, context: NotificationContext, results: NotificationResult[]): Promise<void> {
+        if (!this.deliveryLedger) {
+            return;
+        }
+
+        const records: DeliveryRecord[] = results
+            .filter(result => result.channel === channel && result.status === 'sent' && result.metadata?.recipientId !== undefined)
+            .map(result => ({
+                eventId: this.getDeliveryKey(context),
+                channel,
+                recipientId: result.metadata.recipientId,
+                provider: result.provider,
+                deliveredAt: result.sentAt || new Date()
+            }));
+
+        if (records.length === 0) {
+            return;
+        }
+
+        try {
+            await this.deliveryLedger.record(records);
+        } catch (error) {
+            this.logger.error(`Enregistrement de ${records.length} envoi(s) sur le canal '${channel}' impossible: ${error.message}`);
+        }
+    }
+
+    /**
+     * Retire des distributions les destinataires ayant désactivé ce type d'événement sur ce canal (PreferenceStore)
+     * Ils sont signalés en 'skipped' avec la raison 'opted-out'
+     */
+    private async excludeOptedOut(
+        channel: string,
+        eventType: string,
+        context: NotificationContext,
         distributions: RecipientDistribution[]
+    ): Promise<{ allowed: RecipientDistribution[], optedOut: NotificationResult[] }> {
+        const category = context.metadata?.config?.category;
+        const preferences = await this.findPreferences(eventType, distributions, category);
+        if (preferences.length === 0) {
+            return { allowed: distributions, optedOut: [] };
+        }
+
+        const providerName = NotifierRegistry.getProviderByChannel(channel)?.name || 'unknown';
+        const optedOut: NotificationResult[] = [];
+        const allowed = this.filterRecipients(distributions, recipient => {
+            if (resolvePreference(preferences, recipient.id, eventType, channel, category) !== false) {
+                return true;
+            }
+
+            optedOut.push({
+                channel,
+                provider: providerName,
+                status: 'skipped',
+                attempts: context.attempt,
+                metadata: { recipientId: recipient.id, reason: 'opted-out' }
+            });
+            return false;
+        });
+
+        if (optedOut.length > 0) {
+            this.logger.log(`${optedOut.length} destinataire(s) ont désactivé le canal '${channel}' pour l'événement ${eventType}`);
+        }
+
+        return { allowed, optedOut };
+    }
+
+    /**
+     * Préférences des destinataires pour le type d'événement et sa catégorie
+     * Une erreur de lecture est journalisée et n'empêche pas l'envoi
+     */
+    private async findPreferences(eventType: string, distributions: RecipientDistribution[], category?: string): Promise<NotificationPreference[]> {
+        const recipientIds = Array.from(new Set(distributions.flatMap(distribution => this.extractRecipients(distribution).map(recipient => recipient.id))));
+        if (!this.preferenceStore || recipientIds.length === 0) {
+            return [];
+        }
+
+        try {
+            const preferences = await this.preferenceStore.find(recipientIds, eventType);
+            return category
+                ? [...preferences, ...await this.preferenceStore.find(recipientIds, getCategoryPreferenceKey(category))]
+                : preferences;
+        } catch (error) {
+            this.logger.error(`Lecture des préférences impossible pour l'événement ${eventType}: ${error.message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Reporte les destinataires hors de leur fenêtre d'envoi au prochain créneau autorisé
+     * Ils sont signalés en 'pending' avec la raison 'outside-delivery-window' ; les événements 'critical' ne sont pas reportés
+     */
+    private async deferOutsideWindow(
+        channel: string,
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        distributions: RecipientDistribution[],
+        fallbackChannels: string[]
+    ): Promise<{ due: RecipientDistribution[], deferred: NotificationResult[] }> {
+        const priority = context.priority || context.metadata?.config?.priority;
+        if (priority === 'critical' || distributions.length === 0) {
+            return { due: distributions, deferred: [] };
+        }
+
+        const now = new Date();
+        const slots = new Map<number, RecipientDistribution[]>();
+        const isDue = (distributionIndex: number, type: RecipientType) => (recipient: Recipient): boolean => {
+            let slot: Date;
+            try {
+                slot = getNextDeliverySlot(recipient.preferences, now);
+            } catch (error) {
+                this.logger.warn(`Fenêtre d'envoi ignorée pour le destinataire ${recipient.id}: ${error.message}`);
+                return true;
+            }
+
+            if (slot.getTime() <= now.getTime()) {
+                return true;
+            }
+
+            if (!slots.has(slot.getTime())) {
+                slots.set(slot.getTime(), distributions.map((distribution): RecipientDistribution => ({
+                    name: distribution.name,
+                    [RecipientType.MAIN]: [],
+                    [RecipientType.COPY]: [],
+                    [RecipientType.BLIND]: []
+                })));
+            }
+            slots.get(slot.getTime())[distributionIndex][type].push(recipient);
+            return false;
+        };
+
+        const due = distributions
+            .map((distribution, index): RecipientDistribution => ({
+                name: distribution.name,
+                [RecipientType.MAIN]: distribution.MAIN.filter(isDue(index, RecipientType.MAIN)),
+                [RecipientType.COPY]: distribution.COPY.filter(isDue(index, RecipientType.COPY)),
+                [RecipientType.BLIND]: distribution.BLIND.filter(isDue(index, RecipientType.BLIND))
+            }))
+            .filter(distribution => this.extractRecipients(distribution).length > 0);
+
+        const providerName = NotifierRegistry.getProviderByChannel(channel)?.name || 'unknown';
+        const deferred: NotificationResult[] = [];
+
+        for (const [time, slotDistributions] of slots) {
+            const deferredDistributions = slotDistributions.filter(distribution => this.extractRecipients(distribution).length > 0);
+            const deferredUntil = new Date(time);
+            const redelivery: NotificationRedelivery = {
+                eventType,
+                payload,
+                channel,
+                distributions: deferredDistributions,
+                context: this.toRedeliveryContext(eventType, context, context.attempt),
+                fallbackChannels
+            };
+
+            try {
+                await this.enqueueRedelivery(redelivery, time - now.getTime(), this.getRedeliveryJobId(redelivery, `deferred-${time}`));
+            } catch (error) {
+                // Sans report possible, les destinataires sont servis immédiatement plutôt que perdus
+                this.logger.error(`Report de l'envoi sur le canal '${channel}' impossible, envoi immédiat: ${error.message}`);
+                due.push(...deferredDistributions);
+                continue;
+            }
+
+            for (const recipient of deferredDistributions.flatMap(distribution => this.extractRecipients(distribution))) {
+                deferred.push({
+                    channel,
+                    provider: providerName,
+                    status: 'pending',
+                    attempts: context.attempt,
+                    nextRetryAt: deferredUntil,
+                    metadata: { recipientId: recipient.id, reason: 'outside-delivery-window', deferredUntil }
+                });
+            }
+        }
+
+        if (deferred.length > 0) {
+            this.logger.log(`${deferred.length} destinataire(s) hors fenêtre d'envoi reporté(s) sur le canal '${channel}' pour l'événement ${eventType}`);
+        }
+
+        return { due, deferred };
+    }
+
+    /**
+     * Filtre les destinataires de chaque distribution en conservant leur type ; les distributions vides sont retirées
+     */
+    private filterRecipients(distributions: RecipientDistribution[], predicate: (recipient: Recipient) => boolean): RecipientDistribution[] {
+        return distributions
+            .map((distribution): RecipientDistribution => ({
+                name: distribution.name,
+                [RecipientType.MAIN]: distribution.MAIN.filter(predicate),
+                [RecipientType.COPY]: distribution.COPY.filter(predicate),
+                [RecipientType.BLIND]: distribution.BLIND.filter(predicate)
+            }))
+            .filter(distribution => this.extractRecipients(distribution).length > 0);
+    }
+
+    private extractRecipients(distribution: RecipientDistribution): Recipient[] {
+        return [...distribution.MAIN, ...distribution.COPY, ...distribution.BLIND];
+    }
+
+    /**
+     * En-têtes List-Unsubscribe de chaque destinataire d'une distribution, indexés par recipientId
+     * (lus par les providers via BaseNotificationProvider.getListUnsubscribeHeaders), si les liens de désinscription sont configurés
+     */
+    private getUnsubscribeHeaders(
+        eventType: string,
+        channel: string,
+        context: NotificationContext,
+        distribution: RecipientDistribution
+    ): Record<string, Record<string, string>> | undefined {
+        if (!this.unsubscribe?.isEnabled()) {
+            return undefined;
+        }
+
+        const category = context.metadata?.config?.category;
+        return Object.fromEntries(this.extractRecipients(distribution).map(recipient => [
+            recipient.id,
+            this.unsubscribe.getListUnsubscribeHeaders(recipient.id, eventType, channel, category)
+        ]));
+    }
+
+    /**
+     * Envoie les notifications d'une distribution via le provider d'un canal
+     * Une erreur du provider devient un résultat en échec
+     */
+    private async sendDistribution(
+        providerInstance: NotificationProvider,
+        ProviderClass: any,
+        channel: string,
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        distribution: RecipientDistribution
     ): Promise<NotificationResult[]> {
-        // 1. Découvre la classe du provider pour ce canal
+        try {
+            const unsubscribeHeaders = this.getUnsubscribeHeaders(eventType, channel, context, distribution);
+            const providerResults = await providerInstance.send(distribution, payload, {
+                ...context,
+                eventType,
+                metadata: {
+                    ...context.metadata,
+                    channel,
+                    ...(unsubscribeHeaders ? { unsubscribeHeaders } : {})
+                }
+            });
+
+            // Logger pour chaque résultat
+            providerResults.forEach(result => {
+                if (result.status === 'sent') {
+                    this.logger.debug(
+                        `✅ Notification envoyée via ${ProviderClass.name} (${channel}) ` +
+                        `à ${result.metadata?.recipientId || 'destinataire'}`
+                    );
+                } else {
+                    this.logger.warn(
+                        `⚠️ Échec d'envoi via ${ProviderClass.name} (${channel}) ` +
+                        `à ${result.metadata?.recipientId || 'destinataire'}: ${result.error}`
+                    );
+                }
+            });
+
+            this.providerHealth?.recordResults(channel, ProviderClass.name, providerResults);
+            return providerResults;
+        } catch (error) {
+            this.logger.error(
+                `Erreur lors de l'envoi via ${ProviderClass.name} (${channel}) ` +
+                `à ${distribution.name || 'destinataire'}: ${error.message}`
+            );
+
+            // Une exception du provider est une erreur de transport : elle alimente le circuit breaker
+            const failure: NotificationResult = {
+                channel,
+                provider: ProviderClass.name,
+                status: 'failed',
+                error: error.message,
+                sentAt: new Date(),
+                attempts: context.attempt,
+                metadata: { distribution, channel, reason: PROVIDER_ERROR_REASON }
+            };
+            this.providerHealth?.recordResults(channel, ProviderClass.name, [failure]);
+            return [failure];
+        }
+    }
+
+    /**
+     * Limiteur d'envois simultanés d'un canal (global.maxConcurrentNotificationsPerChannel)
+     */
+    private getChannelLimiter(channel: string): ConcurrencyLimiter {
+        let limiter = this.channelLimiters.get(channel);
+        if (!limiter) {
+            limiter = new ConcurrencyLimiter(this.config?.global?.maxConcurrentNotificationsPerChannel?.[channel]);
+            this.channelLimiters.set(channel, limiter);
+        }
+        return limiter;
+    }
+
+    /**
+     * Découvre le provider d'un canal (@InjectableNotifier) et récupère son instance depuis le container NestJS
+     */
+    private resolveProvider(channel: string): { ProviderClass: any, providerInstance: NotificationProvider } {
         const ProviderClass = NotifierRegistry.getProviderByChannel(channel);
         if (!ProviderClass) {
             throw new Error(
@@ -142,82 +1117,148 @@ export class NotificationOrchestratorService {
             );
         }
 
-        // 2. Récupère l'instance du provider depuis le container NestJS
-        let providerInstance: NotificationProvider;
         try {
-            providerInstance = this.moduleRef.get(ProviderClass, { strict: false });
+            return { ProviderClass, providerInstance: this.moduleRef.get(ProviderClass, { strict: false }) };
         } catch (error) {
             throw new Error(
                 `Impossible de récupérer l'instance du provider ${ProviderClass.name} ` +
                 `pour le canal '${channel}'. Assurez-vous qu'il est bien configuré dans le module.`
             );
         }
+    }
 
-        // 3. Vérifie que le provider est actif
-        const isHealthy = await providerInstance.healthCheck();
-        if (!isHealthy) {
-            this.logger.warn(
-                `Provider ${ProviderClass.name} pour le canal '${channel}' n'est pas en bonne santé`
+    /**
+     * Construit le plan d'envoi d'un événement sans rien envoyer (dryRun)
+     * Charge les destinataires, résout les providers et demande un aperçu à ceux qui implémentent preview()
+     */
+    async planEvent(
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        options: EventProcessingOptions = {}
+    ): Promise<EmissionPlan> {
+        const plan: EmissionPlan = { eventType, distributions: [], channels: [], skipped: [] };
+
+        const { eventConfig, tenantConfig } = await this.resolveEventConfig(eventType, context);
+        if (!eventConfig) {
+            plan.skipped.push({ reason: `Aucune configuration trouvée pour l'événement: ${eventType}` });
+            return plan;
+        }
+
+        if (eventConfig.enabled === false) {
+            plan.skipped.push({ reason: `Type d'événement ${eventType} désactivé` });
+            return plan;
+        }
+
+        const recipientLoader = this.extractLoader(eventConfig.loader, this.recipientLoader);
+        if (!recipientLoader) {
+            plan.skipped.push({ reason: `Aucun RecipientLoader configuré pour l'événement: ${eventType}` });
+            return plan;
+        }
+
+        plan.distributions = (await recipientLoader.load(eventType, payload, context)) || [];
+        if (plan.distributions.length === 0) {
+            plan.skipped.push({ reason: `Aucun destinataire trouvé pour l'événement: ${eventType}` });
+            return plan;
+        }
+
+        const channels = options.channels
+            ? eventConfig.channels.filter(channel => options.channels.includes(channel))
+            : eventConfig.channels;
+
+        for (const channel of channels) {
+            const channelPlan = await this.planChannel(
+                channel,
+                eventType,
+                payload,
+                {...context, metadata:{...context.metadata||{}, config: eventConfig, providerConfig: tenantConfig?.providers?.[channel], channel, dryRun: true}},
+                plan
             );
+            plan.channels.push(channelPlan);
+        }
+
+        return plan;
+    }
+
+    /**
+     * Plan d'envoi d'un canal
+     */
+    private async planChannel(
+        channel: string,
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        plan: EmissionPlan
+    ): Promise<ChannelPlan> {
+        const channelPlan: ChannelPlan = { channel, recipients: [] };
+
+        let providerInstance: NotificationProvider;
+        try {
+            const resolved = this.resolveProvider(channel);
+            channelPlan.provider = resolved.ProviderClass.name;
+            providerInstance = resolved.providerInstance;
+        } catch (error) {
+            channelPlan.skippedReason = error.message;
+            plan.skipped.push({ channel, reason: error.message });
+            return channelPlan;
         }
 
-        // 4. Envoie les notifications à tous les destinataires
-        const results: NotificationResult[] = [];
+        const category = context.metadata?.config?.category;
+        const preferences = await this.findPreferences(eventType, plan.distributions, category);
+        const keyOf = this.getDeduplicationKey(channel, context);
+        const { distributions, duplicates } = keyOf
+            ? deduplicateRecipients(plan.distributions, keyOf)
+            : { distributions: plan.distributions, duplicates: [] };
+
+        for (const duplicate of duplicates) {
+            plan.skipped.push({ channel, recipientId: duplicate.recipient.id, reason: `Doublon de ${duplicate.duplicateOf.id}` });
+        }
 
         for (const distribution of distributions) {
-            try {
-                const providerResults = await providerInstance.send(distribution, payload, {
-                    ...context,
-                    eventType,
-                    metadata: {
-                        ...context.metadata,
-                        channel
+            for (const type of [RecipientType.MAIN, RecipientType.COPY, RecipientType.BLIND]) {
+                for (const recipient of distribution[type] || []) {
+                    if (recipient.preferences?.enabled === false) {
+                        plan.skipped.push({ channel, recipientId: recipient.id, reason: 'Notifications désactivées par le destinataire' });
+                        continue;
                     }
-                });
-
-                results.push(...providerResults);
-
-                // Logger pour chaque résultat
-                providerResults.forEach(result => {
-                    if (result.status === 'sent') {
-                        this.logger.debug(
-                            `✅ Notification envoyée via ${ProviderClass.name} (${channel}) ` +
-                            `à ${result.metadata?.recipientId || 'destinataire'}`
-                        );
-                    } else {
-                        this.logger.warn(
-                            `⚠️ Échec d'envoi via ${ProviderClass.name} (${channel}) ` +
-                            `à ${result.metadata?.recipientId || 'destinataire'}: ${result.error}`
-                        );
+                    if (resolvePreference(preferences, recipient.id, eventType, channel, category) === false) {
+                        plan.skipped.push({ channel, recipientId: recipient.id, reason: `Canal '${channel}' désactivé par le destinataire pour ${eventType}` });
+                        continue;
                     }
-                });
+                    channelPlan.recipients.push({ recipientId: recipient.id, name: recipient.name, distribution: distribution.name, type });
+                }
+            }
+        }
 
-            } catch (error) {
-                this.logger.error(
-                    `Erreur lors de l'envoi via ${ProviderClass.name} (${channel}) ` +
-                    `à ${distribution.name || 'destinataire'}: ${error.message}`
-                );
+        if (!providerInstance.preview) {
+            return channelPlan;
+        }
 
+        channelPlan.previews = [];
+        for (const distribution of distributions) {
+            try {
+                const previews = await providerInstance.preview(distribution, payload, { ...context, eventType });
+                channelPlan.previews.push(...previews);
 
-                results.push({
-                    channel,
-                    provider: ProviderClass.name,
-                    status: 'failed',
-                    error: error.message,
-                    sentAt: new Date(),
-                    attempts: context.attempt,
-                    metadata: {distribution, channel }
-                });
+                for (const preview of previews.filter(p => p.skippedReason)) {
+                    plan.skipped.push({ channel, recipientId: preview.recipientId, reason: preview.skippedReason });
+                }
+            } catch (error) {
+                plan.skipped.push({ channel, reason: `Aperçu impossible pour ${distribution.name || 'la distribution'}: ${error.message}` });
             }
         }
 
-        return results;
+        return channelPlan;
     }
 
     /**
-     * Vérifie la santé de tous les providers découverts
+     * Vérifie la santé de tous les providers découverts (et alimente leur circuit breaker)
      */
     async healthCheckAllProviders(): Promise<Record<string, boolean>> {
+        if (this.providerHealth?.isEnabled()) {
+            return this.providerHealth.checkAll();
+        }
+
         const health: Record<string, boolean> = {};
         const channels = NotifierRegistry.getChannels();
 
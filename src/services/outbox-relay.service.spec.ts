@@ -0,0 +1,53 @@
+import { OutboxRelayService } from './outbox-relay.service';
+import { OutboxEventRecord } from '../outbox/outbox-event.entity';
+import { PackageConfig } from '../types/interfaces';
+
+describe('OutboxRelayService', () => {
+  const config = { mode: 'hybrid', eventTypes: {}, outbox: { maxAttempts: 2 } } as unknown as PackageConfig;
+
+  let record: OutboxEventRecord;
+  let repository: { find: jest.Mock, update: jest.Mock, metadata: any };
+  let queueManager: { processEvent: jest.Mock };
+  let relay: OutboxRelayService;
+
+  beforeEach(() => {
+    record = {
+      id: 'evt_1',
+      eventType: 'order.created',
+      payload: { id: 1 },
+      context: { eventId: 'evt_1', correlationId: 'cor_1', eventType: 'order.created', attempt: 1 },
+      options: { priority: 'high' },
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date()
+    };
+    repository = {
+      find: jest.fn().mockResolvedValue([record]),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      metadata: { tableName: 'event_outbox' }
+    };
+    queueManager = { processEvent: jest.fn().mockResolvedValue({ eventId: 'evt_1' }) };
+    relay = new OutboxRelayService(config, queueManager as any, undefined);
+    (relay as any).dataSource = { getRepository: () => repository };
+  });
+
+  it('should enqueue committed events with their original event id', async () => {
+    expect(await relay.relayPendingEvents()).toBe(1);
+
+    expect(queueManager.processEvent).toHaveBeenCalledWith('order.created', { id: 1 }, record.context, {
+      priority: 'high',
+      mode: 'async',
+      waitForResult: false
+    });
+    expect(repository.update).toHaveBeenLastCalledWith({ id: 'evt_1' }, expect.objectContaining({ status: 'dispatched' }));
+  });
+
+  it('should put the row back in the outbox when the relay fails', async () => {
+    queueManager.processEvent.mockRejectedValue(new Error('Queue unavailable'));
+
+    expect(await relay.relayPendingEvents()).toBe(0);
+
+    expect(repository.update).toHaveBeenLastCalledWith({ id: 'evt_1' },
+      expect.objectContaining({ status: 'pending', lastError: 'Queue unavailable' }));
+  });
+});
@@ -0,0 +1,179 @@
+import { Injectable, Logger, Inject, OnApplicationBootstrap, OnModuleDestroy, forwardRef } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { DataSource, LessThan, Repository } from 'typeorm';
+import { PackageConfig } from '../types/interfaces';
+import { QueueManagerService } from './queue-manager.service';
+import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+import { OutboxEventRecord, getOutboxEntitySchema } from '../outbox/outbox-event.entity';
+
+/** Valeurs par défaut du relais d'outbox */
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LOCK_TIMEOUT = 30000;
+
+/**
+ * Relais de l'outbox transactionnel
+ *
+ * Scrute la table d'outbox et met en queue les événements committés via le QueueManagerService.
+ * - Seules les lignes committées sont visibles : un rollback de l'appelant n'émet rien
+ * - Chaque ligne est réservée par compare-and-set avant envoi (plusieurs relais possibles)
+ * - Livraison "au moins une fois" : une ligne réservée par un relais arrêté est reprise
+ *   après expiration de lockTimeout
+ */
+@Injectable()
+export class OutboxRelayService implements OnApplicationBootstrap, OnModuleDestroy {
+    protected readonly logger = new Logger(OutboxRelayService.name);
+    private dataSource?: DataSource;
+    private pollTimer?: ReturnType<typeof setInterval>;
+    private isRelaying = false;
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
+        @Inject(forwardRef(() => QueueManagerService)) private readonly queueManager: QueueManagerService,
+        private readonly moduleRef: ModuleRef
+    ) {}
+
+    onApplicationBootstrap() {
+        const outbox = this.config.outbox;
+        if (!outbox || outbox.relayEnabled === false) {
+            return;
+        }
+
+        this.dataSource = this.resolveDataSource();
+        if (!this.dataSource) {
+            this.logger.warn('⚠️ Outbox configuré mais aucune DataSource TypeORM disponible, relais désactivé');
+            return;
+        }
+
+        this.pollTimer = setInterval(async () => {
+            if (this.isRelaying) return; // Éviter les relais concurrents
+
+            try {
+                this.isRelaying = true;
+                await this.relayPendingEvents();
+            } catch (error) {
+                this.logger.error(`Erreur lors du relais de l'outbox: ${error.message}`);
+            } finally {
+                this.isRelaying = false;
+            }
+        }, outbox.pollInterval || DEFAULT_POLL_INTERVAL);
+        this.pollTimer.unref?.();
+
+        this.logger.log(`📤 Relais d'outbox démarré (table ${this.getRepository().metadata.tableName})`);
+    }
+
+    onModuleDestroy() {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Relaie un lot d'événements en attente, dans l'ordre d'écriture
+     * Appelé périodiquement, peut aussi être appelé manuellement
+     */
+    async relayPendingEvents(): Promise<number> {
+        const repository = this.getRepository();
+        const now = new Date();
+
+        const candidates = await repository.find({
+            where: [
+                { status: 'pending' },
+                { status: 'processing', lockedUntil: LessThan(now) }
+            ],
+            order: { createdAt: 'ASC' },
+            take: this.config.outbox?.batchSize || DEFAULT_BATCH_SIZE
+        });
+
+        let dispatched = 0;
+        for (const record of candidates) {
+            if (!await this.claim(repository, record, now)) {
+                continue; // Réservée par un autre relais
+            }
+
+            if (await this.dispatch(repository, record)) {
+                dispatched++;
+            }
+        }
+
+        return dispatched;
+    }
+
+    /**
+     * Réserve une ligne : le nombre de tentatives sert de version pour le compare-and-set
+     */
+    private async claim(repository: Repository<OutboxEventRecord>, record: OutboxEventRecord, now: Date): Promise<boolean> {
+        const lockTimeout = this.config.outbox?.lockTimeout || DEFAULT_LOCK_TIMEOUT;
+        const result = await repository.update(
+            { id: record.id, status: record.status, attempts: record.attempts },
+            { status: 'processing', attempts: record.attempts + 1, lockedUntil: new Date(now.getTime() + lockTimeout) }
+        );
+
+        if (result.affected !== 1) {
+            return false;
+        }
+
+        record.attempts++;
+        return true;
+    }
+
+    /**
+     * Transmet un événement réservé au QueueManager puis le marque comme dispatché
+     * L'événement est mis en queue (job d'ID eventId) : relayer de nouveau une ligne après un échec ne crée pas de
+     * second job. Sans queue traitée par des workers (mode api), il est traité immédiatement avec son eventId
+     * d'origine, et le DeliveryLedger écarte les destinataires déjà servis lors d'une tentative précédente.
+     */
+    private async dispatch(repository: Repository<OutboxEventRecord>, record: OutboxEventRecord): Promise<boolean> {
+        try {
+            await this.queueManager.processEvent(record.eventType, record.payload, record.context, {
+                ...record.options,
+                mode: 'async',
+                waitForResult: false
+            });
+
+            await repository.update({ id: record.id }, {
+                status: 'dispatched',
+                dispatchedAt: new Date(),
+                lockedUntil: null,
+                lastError: null
+            });
+
+            this.logger.debug(`Événement ${record.eventType} relayé depuis l'outbox (${record.id})`);
+            return true;
+        } catch (error) {
+            const maxAttempts = this.config.outbox?.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+            const exhausted = record.attempts >= maxAttempts;
+
+            await repository.update({ id: record.id }, {
+                status: exhausted ? 'failed' : 'pending',
+                lockedUntil: null,
+                lastError: error.message
+            });
+
+            this.logger.error(
+                `Échec du relais de ${record.eventType} (${record.id}, tentative ${record.attempts}/${maxAttempts}): ${error.message}`
+            );
+            return false;
+        }
+    }
+
+    private getRepository(): Repository<OutboxEventRecord> {
+        if (!this.dataSource) {
+            throw new Error('Outbox relay has no TypeORM DataSource');
+        }
+        return this.dataSource.getRepository(getOutboxEntitySchema(this.config.tablePrefix));
+    }
+
+    /**
+     * Récupère la DataSource de l'application (TypeOrmModule) si elle existe
+     */
+    private resolveDataSource(): DataSource | undefined {
+        try {
+            return this.moduleRef.get(DataSource, { strict: false });
+        } catch (error) {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { PreferenceService } from './preference.service';
+import { InMemoryPreferenceStore } from '../preferences/in-memory-preference.store';
+
+describe('PreferenceService', () => {
+  let store: InMemoryPreferenceStore;
+  let service: PreferenceService;
+
+  beforeEach(() => {
+    store = new InMemoryPreferenceStore();
+    service = new PreferenceService(store);
+  });
+
+  it('should allow every channel without preferences', async () => {
+    expect(await service.isEnabled('u1', 'order.updated', 'email')).toBe(true);
+  });
+
+  it('should apply the most specific preference', async () => {
+    // Mises à jour de commande par Telegram uniquement, jamais d'email
+    await service.setPreferences('u1', [
+      { eventType: '*', channel: 'email', enabled: false },
+      { eventType: 'order.updated', channel: '*', enabled: false },
+      { eventType: 'order.updated', channel: 'telegram', enabled: true }
+    ]);
+
+    expect(await service.isEnabled('u1', 'order.updated', 'telegram')).toBe(true);
+    expect(await service.isEnabled('u1', 'order.updated', 'sms')).toBe(false);
+    expect(await service.isEnabled('u1', 'user.created', 'email')).toBe(false);
+    expect(await service.isEnabled('u1', 'user.created', 'sms')).toBe(true);
+    expect(await service.isEnabled('u2', 'order.updated', 'sms')).toBe(true);
+  });
+
+  it('should update and reset preferences', async () => {
+    await service.setPreference('u1', 'order.updated', 'email', false);
+    await service.setPreference('u1', 'order.updated', 'email', true);
+    await service.setPreference('u1', 'user.created', 'sms', false);
+
+    expect((await service.getPreferences('u1')).map(p => `${p.eventType}:${p.channel}:${p.enabled}`))
+      .toEqual(['order.updated:email:true', 'user.created:sms:false']);
+    expect(await service.getPreferences('u1', 'order.updated')).toHaveLength(1);
+
+    await service.resetPreferences('u1', 'user.created');
+    expect(await service.getPreferences('u1')).toHaveLength(1);
+  });
+
+  it('should require a PreferenceStore', async () => {
+    await expect(new PreferenceService().getPreferences('u1')).rejects.toThrow('PreferenceStore not configured');
+  });
+});
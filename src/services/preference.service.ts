@@ -0,0 +1,72 @@
+import { Injectable, Inject, Optional, forwardRef } from '@nestjs/common';
+import { NotificationPreference, PreferenceStore, getCategoryPreferenceKey, resolvePreference } from '../preferences/preference-store.interface';
+import { PREFERENCE_STORE_TOKEN } from '../module/event-notifications.module';
+
+/**
+ * Préférence à enregistrer pour un destinataire
+ */
+export type NotificationPreferenceUpdate = Omit<NotificationPreference, 'recipientId' | 'updatedAt'>;
+
+/**
+ * Service de lecture et de mise à jour des préférences de notification (page de paramètres)
+ */
+@Injectable()
+export class PreferenceService {
+    constructor(
+        @Optional() @Inject(forwardRef(() => PREFERENCE_STORE_TOKEN)) private readonly preferenceStore?: PreferenceStore
+    ) {}
+
+    /**
+     * Préférences enregistrées d'un destinataire, éventuellement pour un type d'événement (joker '*' inclus)
+     */
+    async getPreferences(recipientId: string, eventType?: string): Promise<NotificationPreference[]> {
+        return this.getStore().find([recipientId], eventType);
+    }
+
+    /**
+     * Active ou désactive un type d'événement sur un canal ('*' pour tous les types ou tous les canaux)
+     */
+    async setPreference(recipientId: string, eventType: string, channel: string, enabled: boolean): Promise<void> {
+        await this.setPreferences(recipientId, [{ eventType, channel, enabled }]);
+    }
+
+    /**
+     * Enregistre plusieurs préférences d'un destinataire
+     */
+    async setPreferences(recipientId: string, preferences: NotificationPreferenceUpdate[]): Promise<void> {
+        await this.getStore().save(preferences.map(preference => ({ ...preference, recipientId })));
+    }
+
+    /**
+     * Supprime des préférences : le comportement par défaut (envoi) s'applique de nouveau
+     */
+    async resetPreferences(recipientId: string, eventType?: string, channel?: string): Promise<void> {
+        await this.getStore().remove(recipientId, eventType, channel);
+    }
+
+    /**
+     * Active ou désactive une catégorie de types d'événements (EventTypeConfig.category) sur un canal
+     */
+    async setCategoryPreference(recipientId: string, category: string, channel: string, enabled: boolean): Promise<void> {
+        await this.setPreference(recipientId, getCategoryPreferenceKey(category), channel, enabled);
+    }
+
+    /**
+     * Indique si le destinataire accepte ce type d'événement sur ce canal (oui sans préférence applicable)
+     * Avec la catégorie du type d'événement, les préférences de la catégorie s'appliquent aussi
+     */
+    async isEnabled(recipientId: string, eventType: string, channel: string, category?: string): Promise<boolean> {
+        const preferences = [
+            ...await this.getStore().find([recipientId], eventType),
+            ...category ? await this.getStore().find([recipientId], getCategoryPreferenceKey(category)) : []
+        ];
+        return resolvePreference(preferences, recipientId, eventType, channel, category) ?? true;
+    }
+
+    private getStore(): PreferenceStore {
+        if (!this.preferenceStore) {
+            throw new Error('PreferenceStore not configured. Provide the "preferenceStore" module option.');
+        }
+        return this.preferenceStore;
+    }
+}
@@ -0,0 +1,169 @@
+import { Injectable, Logger, Inject, Optional, OnModuleInit, OnModuleDestroy, forwardRef } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { CircuitBreakerOptions, CircuitState, NotificationChannel, NotificationProvider, NotificationResult, PackageConfig } from '../types/interfaces';
+import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+import { NotifierRegistry } from '../decorators/injectable-notifier.decorator';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_OPTIONS, PROVIDER_ERROR_REASON } from '../utils/circuit-breaker';
+import { SystemEventService } from './system-event.service';
+
+/**
+ * Santé des providers de notification
+ *
+ * Maintient un circuit breaker par provider, alimenté par les résultats d'envoi et les health checks
+ * (périodiques si global.healthCheckInterval est défini). Chaque changement d'état publie
+ * l'événement système provider.health.changed.
+ */
+@Injectable()
+export class ProviderHealthService implements OnModuleInit, OnModuleDestroy {
+    protected readonly logger = new Logger(ProviderHealthService.name);
+    private readonly breakers = new Map<string, CircuitBreaker>();
+    private healthCheckTimer?: ReturnType<typeof setInterval>;
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
+        private readonly moduleRef: ModuleRef,
+        @Optional() @Inject(forwardRef(() => SystemEventService)) private readonly systemEvents?: SystemEventService
+    ) {}
+
+    onModuleInit() {
+        const interval = this.config.global?.healthCheckInterval;
+        if (!this.isEnabled() || !interval) {
+            return;
+        }
+
+        this.healthCheckTimer = setInterval(() => this.checkAll(), interval);
+        this.healthCheckTimer.unref?.();
+        this.logger.log(`Health check des providers toutes les ${interval}ms`);
+    }
+
+    onModuleDestroy() {
+        if (this.healthCheckTimer) {
+            clearInterval(this.healthCheckTimer);
+            this.healthCheckTimer = undefined;
+        }
+    }
+
+    /**
+     * Circuit breaker actif (global.circuitBreaker.enabled, true par défaut)
+     */
+    isEnabled(): boolean {
+        return this.config.global?.circuitBreaker?.enabled !== false;
+    }
+
+    /**
+     * Vérifie qu'un envoi peut être tenté sur le provider
+     * Retourne la raison de l'indisponibilité, ou undefined si le provider peut être sollicité.
+     * En half-open, le health check du provider sert d'essai avant l'envoi.
+     */
+    async checkAvailability(channel: NotificationChannel, providerName: string, provider: NotificationProvider): Promise<string | undefined> {
+        const breaker = this.getBreaker(channel, providerName);
+
+        if (!breaker.canRequest()) {
+            return `Circuit ouvert pour ${providerName}`;
+        }
+
+        if (breaker.state === 'half-open') {
+            const healthy = await this.runHealthCheck(provider);
+            if (!healthy) {
+                breaker.recordFailure('health check en échec');
+                return `Circuit ouvert pour ${providerName} (health check en échec)`;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Enregistre le résultat d'un envoi
+     * Seules les erreurs du provider (exception, ou résultat marqué `metadata.reason: 'provider-error'`) comptent
+     * comme des échecs : une adresse invalide ou un destinataire refusé n'ouvre pas le circuit.
+     */
+    recordResults(channel: NotificationChannel, providerName: string, results: NotificationResult[]): void {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        const breaker = this.getBreaker(channel, providerName);
+        const providerError = results.find(result => result.status === 'failed' && result.metadata?.reason === PROVIDER_ERROR_REASON);
+
+        if (results.some(result => result.status === 'sent')) {
+            breaker.recordSuccess();
+        } else if (providerError) {
+            breaker.recordFailure(providerError.error || 'envoi en échec');
+        }
+    }
+
+    /**
+     * Exécute le health check de tous les providers découverts et alimente leur circuit breaker
+     */
+    async checkAll(): Promise<Record<string, boolean>> {
+        const health: Record<string, boolean> = {};
+
+        for (const channel of NotifierRegistry.getChannels()) {
+            const ProviderClass = NotifierRegistry.getProviderByChannel(channel);
+            if (!ProviderClass) continue;
+
+            let provider: NotificationProvider;
+            try {
+                provider = this.moduleRef.get(ProviderClass, { strict: false });
+            } catch (error) {
+                health[channel] = false;
+                continue;
+            }
+
+            health[channel] = await this.runHealthCheck(provider);
+            this.getBreaker(channel, ProviderClass.name).recordHealthCheck(health[channel]);
+        }
+
+        return health;
+    }
+
+    /**
+     * État du circuit de chaque provider sollicité
+     */
+    getStates(): Record<string, CircuitState> {
+        const states: Record<string, CircuitState> = {};
+        this.breakers.forEach((breaker, providerName) => states[providerName] = breaker.state);
+        return states;
+    }
+
+    /**
+     * Options effectives du circuit breaker d'un canal
+     */
+    getOptions(channel: NotificationChannel): CircuitBreakerOptions {
+        return {
+            ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+            ...this.config.global?.circuitBreaker,
+            ...this.config.global?.circuitBreakerPerChannel?.[channel]
+        };
+    }
+
+    private getBreaker(channel: NotificationChannel, providerName: string): CircuitBreaker {
+        let breaker = this.breakers.get(providerName);
+        if (!breaker) {
+            const options = this.getOptions(channel);
+
+            breaker = new CircuitBreaker(options, (previous, state, reason) => {
+                const log = state === 'closed' ? 'log' : 'warn';
+                this.logger[log](`Circuit de ${providerName} (${channel}): ${previous} → ${state} (${reason})`);
+                this.systemEvents?.publish('provider.health.changed', {
+                    provider: providerName,
+                    channel,
+                    previousState: previous,
+                    state,
+                    reason
+                }, state === 'open' ? 'error' : state === 'half-open' ? 'warning' : 'info');
+            });
+            this.breakers.set(providerName, breaker);
+        }
+        return breaker;
+    }
+
+    private async runHealthCheck(provider: NotificationProvider): Promise<boolean> {
+        try {
+            return await provider.healthCheck();
+        } catch (error) {
+            return false;
+        }
+    }
+}
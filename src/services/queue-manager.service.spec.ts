@@ -0,0 +1,218 @@
+import { QueueManagerService } from './queue-manager.service';
+import { EventStatusService } from './event-status.service';
+import { InMemoryEventStatusStore } from '../status/in-memory-event-status.store';
+import { EventCompletionTimeoutError } from '../errors/event-completion-timeout.error';
+import { UnrecoverableJobError } from '../errors/unrecoverable-job.error';
+import { PackageConfig, NotificationContext } from '../types/interfaces';
+
+describe('QueueManagerService', () => {
+  const config: PackageConfig = {
+    mode: 'api',
+    eventTypes: {
+      'user.created': { description: 'User created', channels: ['email'] }
+    } as any
+  };
+
+  const context: NotificationContext = {
+    eventId: 'evt_1',
+    correlationId: 'cor_1',
+    eventType: 'user.created',
+    attempt: 1
+  };
+
+  let orchestrator: any;
+  let handlerManager: any;
+  let service: QueueManagerService;
+
+  beforeEach(() => {
+    orchestrator = {
+      processEvent: jest.fn().mockResolvedValue([
+        { channel: 'email', provider: 'EmailProvider', status: 'sent' }
+      ])
+    };
+    handlerManager = {
+      executeHandlers: jest.fn().mockResolvedValue([
+        { handler: 'AuditHandler', status: 'completed', processing: 'sync' }
+      ])
+    };
+    service = new QueueManagerService(config, orchestrator, undefined, handlerManager);
+  });
+
+  it('should run notifications and handlers on immediate processing', async () => {
+    const result = await service.processEvent('user.created', { id: 1 }, context);
+
+    expect(orchestrator.processEvent).toHaveBeenCalledWith('user.created', { id: 1 }, context);
+    expect(handlerManager.executeHandlers).toHaveBeenCalledWith(
+      'user.created',
+      { id: 1 },
+      expect.objectContaining({ eventId: 'evt_1', correlationId: 'cor_1', attempt: 1 })
+    );
+    expect(result.results).toHaveLength(1);
+    expect(result.handlerResults).toEqual([
+      { handler: 'AuditHandler', status: 'completed', processing: 'sync' }
+    ]);
+  });
+
+  it('should return an empty handler list when no handler manager is available', async () => {
+    service = new QueueManagerService(config, orchestrator);
+
+    const result = await service.processEvent('user.created', { id: 1 }, context);
+
+    expect(result.handlerResults).toEqual([]);
+  });
+
+  describe('status tracking', () => {
+    const queueConfig: PackageConfig = {
+      ...config,
+      mode: 'hybrid',
+      queue: { redis: { host: 'localhost', port: 6379 } }
+    };
+
+    let statusService: EventStatusService;
+    let queueProvider: any;
+
+    beforeEach(() => {
+      statusService = new EventStatusService(new InMemoryEventStatusStore());
+      queueProvider = {
+        add: jest.fn().mockResolvedValue({ id: 'job_1' }),
+        process: jest.fn(),
+        isHealthy: jest.fn().mockResolvedValue(true)
+      };
+    });
+
+    it('should record completion of immediate processing', async () => {
+      service = new QueueManagerService(config, orchestrator, undefined, handlerManager, undefined, statusService);
+
+      await service.processEvent('user.created', { id: 1 }, context);
+
+      const status = await statusService.getStatus('evt_1');
+      expect(status.status).toBe('completed');
+      expect(status.results).toHaveLength(1);
+    });
+
+    it('should mark queued events and wait for the worker result', async () => {
+      service = new QueueManagerService(queueConfig, orchestrator, queueProvider, handlerManager, undefined, statusService);
+
+      // Le worker (autre instance partageant le store) traite le job peu après
+      queueProvider.add.mockImplementation(async () => {
+        expect((await statusService.getStatus('evt_1')).status).toBe('queued');
+        setTimeout(async () => {
+          await statusService.markProcessing('user.created', context, 1);
+          await statusService.markCompleted('user.created', context, [
+            { channel: 'email', provider: 'EmailProvider', status: 'sent' } as any
+          ], []);
+        }, 20);
+        return { id: 'job_1' };
+      });
+
+      const result = await service.processEvent('user.created', { id: 1 }, context, { waitForResult: true, timeout: 1000 });
+
+      expect(result.waitedForResult).toBe(true);
+      expect(result.results).toEqual([{ channel: 'email', provider: 'EmailProvider', status: 'sent' }]);
+      expect((await statusService.getStatus('evt_1')).attempts).toBe(1);
+    });
+
+    it('should fail invalid payloads on the worker without retry', async () => {
+      const workerConfig = {
+        ...queueConfig,
+        mode: 'worker',
+        eventTypes: { 'user.created': { description: 'User created', channels: ['email'], schema: { type: 'object', required: ['id'] } } }
+      } as unknown as PackageConfig;
+      service = new QueueManagerService(workerConfig, orchestrator, queueProvider, handlerManager, undefined, statusService);
+      await (service as any).startWorkerMode();
+      const [, processor] = queueProvider.process.mock.calls.find(([name]: [string]) => name === 'process-notification');
+
+      const job = { id: 'job_1', attemptsMade: 0, opts: { attempts: 3 }, data: { eventId: 'evt_1', correlationId: 'cor_1', eventType: 'user.created', payload: {} } };
+      await expect(processor(job)).rejects.toBeInstanceOf(UnrecoverableJobError);
+
+      expect(orchestrator.processEvent).not.toHaveBeenCalled();
+      expect(await statusService.getStatus('evt_1')).toMatchObject({ status: 'failed', error: expect.stringContaining('Invalid payload') });
+    });
+
+    it('should run handlers only on the worker attempt whose notifications succeed', async () => {
+      service = new QueueManagerService({ ...queueConfig, mode: 'worker' }, orchestrator, queueProvider, handlerManager, undefined, statusService);
+      await (service as any).startWorkerMode();
+      const [, processor] = queueProvider.process.mock.calls.find(([name]: [string]) => name === 'process-notification');
+      const data = { eventId: 'evt_1', correlationId: 'cor_1', eventType: 'user.created', payload: { id: 1 } };
+      orchestrator.processEvent.mockRejectedValueOnce(new Error('Recipient loader unavailable'));
+
+      await expect(processor({ id: 'job_1', attemptsMade: 0, opts: { attempts: 3 }, data })).rejects.toThrow('Recipient loader unavailable');
+      expect(handlerManager.executeHandlers).not.toHaveBeenCalled();
+      expect((await statusService.getStatus('evt_1')).status).toBe('queued');
+
+      await processor({ id: 'job_1', attemptsMade: 1, opts: { attempts: 3 }, data });
+      expect(handlerManager.executeHandlers).toHaveBeenCalledTimes(1);
+      expect((await statusService.getStatus('evt_1')).status).toBe('completed');
+    });
+
+    it('should not retry a worker job whose handlers ran when its status cannot be recorded', async () => {
+      service = new QueueManagerService({ ...queueConfig, mode: 'worker' }, orchestrator, queueProvider, handlerManager, undefined, statusService);
+      await (service as any).startWorkerMode();
+      const [, processor] = queueProvider.process.mock.calls.find(([name]: [string]) => name === 'process-notification');
+      jest.spyOn(statusService, 'markCompleted').mockRejectedValue(new Error('Status store unavailable'));
+
+      const result = await processor({
+        id: 'job_1', attemptsMade: 0, opts: { attempts: 3 },
+        data: { eventId: 'evt_1', correlationId: 'cor_1', eventType: 'user.created', payload: { id: 1 } }
+      });
+
+      expect(result.handlerResults).toHaveLength(1);
+      expect(handlerManager.executeHandlers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out when no worker completes the event', async () => {
+      service = new QueueManagerService(queueConfig, orchestrator, queueProvider, handlerManager, undefined, statusService);
+
+      await expect(
+        service.processEvent('user.created', { id: 1 }, context, { waitForResult: true, timeout: 50 })
+      ).rejects.toBeInstanceOf(EventCompletionTimeoutError);
+      expect((await statusService.getStatus('evt_1')).status).toBe('queued');
+    });
+  });
+
+  describe('cancellation', () => {
+    const queueConfig: PackageConfig = {
+      ...config,
+      mode: 'hybrid',
+      queue: { redis: { host: 'localhost', port: 6379 } }
+    };
+
+    let statusService: EventStatusService;
+    let queueProvider: any;
+
+    beforeEach(async () => {
+      statusService = new EventStatusService(new InMemoryEventStatusStore());
+      queueProvider = {
+        add: jest.fn().mockResolvedValue({ id: 'evt_1' }),
+        process: jest.fn(),
+        isHealthy: jest.fn().mockResolvedValue(true),
+        remove: jest.fn().mockResolvedValue('removed')
+      };
+      service = new QueueManagerService(queueConfig, orchestrator, queueProvider, handlerManager, undefined, statusService);
+      await service.processEvent('user.created', { id: 1 }, context, { delay: 60000 });
+    });
+
+    it('should remove a pending job and mark it cancelled', async () => {
+      const result = await service.cancelEvent('evt_1');
+
+      expect(result).toEqual({ eventId: 'evt_1', status: 'cancelled' });
+      expect(queueProvider.remove).toHaveBeenCalledWith('evt_1');
+      expect((await statusService.getStatus('evt_1')).status).toBe('cancelled');
+    });
+
+    it('should report events already picked up by a worker', async () => {
+      await statusService.markProcessing('user.created', context, 1);
+
+      const result = await service.cancelEvent('evt_1');
+
+      expect(result.status).toBe('started');
+      expect(queueProvider.remove).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown events as not found', async () => {
+      queueProvider.remove.mockResolvedValue('not_found');
+
+      expect(await service.cancelEvent('evt_unknown')).toEqual({ eventId: 'evt_unknown', status: 'not_found' });
+    });
+  });
+});
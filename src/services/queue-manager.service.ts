@@ -6,10 +6,19 @@ import {
     EventEmissionResult,
     NotificationContext,
     EmitOptions,
-    PackageConfig, QueueProvider
+    PackageConfig, QueueProvider, NotificationResult, QueueBulkJob, EventCancellationResult, EventTypeConfig,
+    NotificationRedelivery, NotificationEscalation
 } from '../types/interfaces';
+import { HandlerExecutionResult } from '../types/handler-queue.types';
 import { NotificationOrchestratorService } from './notification-orchestrator.service';
-import { EVENT_NOTIFICATIONS_CONFIG, QUEUE_PROVIDER_TOKEN } from '../module/event-notifications.module';
+import { EventHandlerManagerService } from './event-handler-manager.service';
+import { EventStatusService } from './event-status.service';
+import { EventTypeConfigService } from './event-type-config.service';
+import { EscalationService } from './escalation.service';
+import { EVENT_NOTIFICATIONS_CONFIG, EVENT_STORE_TOKEN, QUEUE_PROVIDER_TOKEN } from '../module/event-notifications.module';
+import { assertValidPayload } from '../validation/payload-validator';
+import { UnrecoverableJobError } from '../errors/unrecoverable-job.error';
+import { EventStore } from '../event-store/event-store.interface';
 
 
 /**
@@ -29,7 +38,12 @@ export class QueueManagerService {
     constructor(
         @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
         @Inject(forwardRef(() => NotificationOrchestratorService)) private readonly orchestrator: NotificationOrchestratorService,
-        @Optional() @Inject(forwardRef(() => QUEUE_PROVIDER_TOKEN)) private readonly queueProvider?: QueueProvider
+        @Optional() @Inject(forwardRef(() => QUEUE_PROVIDER_TOKEN)) private readonly queueProvider?: QueueProvider,
+        @Optional() @Inject(forwardRef(() => EventHandlerManagerService)) private readonly handlerManager?: EventHandlerManagerService,
+        @Optional() @Inject(forwardRef(() => EVENT_STORE_TOKEN)) private readonly eventStore?: EventStore,
+        @Optional() @Inject(forwardRef(() => EventStatusService)) private readonly statusService?: EventStatusService,
+        @Optional() @Inject(forwardRef(() => EventTypeConfigService)) private readonly eventTypeConfigs?: EventTypeConfigService,
+        @Optional() @Inject(forwardRef(() => EscalationService)) private readonly escalationService?: EscalationService
     ) {
         this.mode = this.config.mode || 'api';
         this.queueConfig = this.config.queue;
@@ -137,6 +151,8 @@ export class QueueManagerService {
     ): Promise<EventEmissionResult> {
         const startTime = Date.now();
 
+        await this.recordEvents([this.toQueuedEvent(eventType, payload, context, options)]);
+
         // Détermine le mode de traitement
         const processingMode = this.determineProcessingMode(eventType, options);
 
@@ -149,8 +165,12 @@ export class QueueManagerService {
             case 'immediate':
                 return await this.processImmediate(eventType, payload, context, startTime);
 
-            case 'queued':
-                return await this.processQueued(eventType, payload, context, options, startTime);
+            case 'queued': {
+                const queuedResult = await this.processQueued(eventType, payload, context, options, startTime);
+                return options.waitForResult
+                    ? await this.waitForQueuedResult(queuedResult, options, startTime)
+                    : queuedResult;
+            }
 
             default:
                 throw new Error(`Mode de traitement non supporté: ${processingMode}`);
@@ -178,7 +198,7 @@ export class QueueManagerService {
             if (options.mode === 'async') return this.queueProvider ? 'queued' : 'immediate';
 
             // Configuration de l'événement
-            const eventConfig = (this.config.eventTypes as any)[eventType];
+            const eventConfig = this.getEventConfig(eventType);
             if (eventConfig?.defaultProcessing === 'sync') return 'immediate';
             if (eventConfig?.defaultProcessing === 'async') {
                 return this.queueProvider ? 'queued' : 'immediate';
@@ -204,15 +224,26 @@ export class QueueManagerService {
             throw new Error('NotificationOrchestratorService requis pour le traitement immédiat');
         }
 
-        const results = await this.orchestrator.processEvent(eventType, payload, context);
+        let dispatched: { results: NotificationResult[], handlerResults: HandlerExecutionResult[] };
+        try {
+            dispatched = await this.dispatchEvent(eventType, payload, context);
+        } catch (error) {
+            await this.statusService?.markFailed(eventType, context, error);
+            throw error;
+        }
+
+        const { results, handlerResults } = dispatched;
+        await this.statusService?.markCompleted(eventType, context, results, handlerResults);
         const processingDuration = Date.now() - startTime;
 
         return {
             eventId: context.eventId,
             correlationId: context.correlationId,
+            causationId: context.causationId,
             mode: 'sync',
             waitedForResult: true,
             results,
+            handlerResults,
             processedAt: new Date(),
             processingDuration
         };
@@ -232,38 +263,236 @@ export class QueueManagerService {
             throw new Error('Queue provider requis pour le traitement différé');
         }
 
-        const queuedEvent: QueuedEvent = {
-            eventId: context.eventId,
-            eventType,
-            payload,
-            correlationId: context.correlationId,
-            options,
-            attempt: context.attempt,
-            createdAt: new Date()
+        const job = this.buildQueueJob(eventType, payload, context, options);
+
+        // Enregistré avant l'ajout : un worker rapide ne doit pas voir son statut écrasé
+        await this.statusService?.markQueued(eventType, context);
+
+        try {
+            await this.queueProvider.add(job.name, job.data, job.options);
+        } catch (error) {
+            await this.statusService?.markFailed(eventType, context, error);
+            throw error;
+        }
+
+        this.logger.log(`Événement ${eventType} mis en queue avec délai ${job.options.delay}ms`);
+
+        return this.createQueuedResult(context, job.options, startTime);
+    }
+
+    /**
+     * Annule un événement encore en queue (différé ou en attente)
+     */
+    async cancelEvent(eventId: string): Promise<EventCancellationResult> {
+        const current = await this.statusService?.getStatus(eventId);
+        if (current && current.status !== 'queued') {
+            return { eventId, status: current.status === 'cancelled' ? 'cancelled' : 'started' };
+        }
+
+        if (!this.queueProvider) {
+            // Sans queue, les événements sont traités immédiatement
+            return { eventId, status: current ? 'started' : 'not_found' };
+        }
+
+        if (!this.queueProvider.remove) {
+            throw new Error('Le queue provider configuré ne supporte pas le retrait de jobs');
+        }
+
+        const removal = await this.queueProvider.remove(eventId);
+        if (removal === 'removed') {
+            await this.statusService?.markCancelled(eventId);
+            this.logger.log(`Événement ${eventId} annulé avant traitement`);
+            return { eventId, status: 'cancelled' };
+        }
+
+        return { eventId, status: removal };
+    }
+
+    /**
+     * Attend qu'un worker ait traité un événement mis en queue (EmitOptions.waitForResult)
+     */
+    private async waitForQueuedResult(
+        queuedResult: EventEmissionResult,
+        options: EmitOptions,
+        startTime: number
+    ): Promise<EventEmissionResult> {
+        if (!this.statusService) {
+            throw new Error('EventStatusService requis pour attendre le résultat d\'un événement en queue');
+        }
+
+        const status = await this.statusService.waitForCompletion(queuedResult.eventId, options.timeout);
+        if (status.status === 'failed') {
+            throw new Error(`Event "${queuedResult.eventId}" failed: ${status.error}`);
+        }
+
+        return {
+            ...queuedResult,
+            waitedForResult: true,
+            results: status.results,
+            handlerResults: status.handlerResults,
+            processedAt: status.completedAt,
+            processingDuration: Date.now() - startTime
         };
+    }
+
+    /**
+     * Traite un lot d'événements
+     * Les événements à mettre en queue sont ajoutés en un seul appel (addBulk si supporté),
+     * les autres sont traités immédiatement. Les erreurs sont rapportées par élément.
+     */
+    async processEventBatch(
+        events: Array<{ eventType: string, payload: any, context: NotificationContext, options?: EmitOptions }>
+    ): Promise<Array<{ result?: EventEmissionResult, error?: Error }>> {
+        const startTime = Date.now();
+        const outcomes: Array<{ result?: EventEmissionResult, error?: Error }> = new Array(events.length);
+        const queued: Array<{ index: number, job: QueueBulkJob }> = [];
+
+        await this.recordEvents(events.map(event =>
+            this.toQueuedEvent(event.eventType, event.payload, event.context, event.options || {})
+        ));
+
+        for (const [index, event] of events.entries()) {
+            const options = event.options || {};
+
+            if (this.determineProcessingMode(event.eventType, options) === 'queued' && this.queueProvider) {
+                queued.push({ index, job: this.buildQueueJob(event.eventType, event.payload, event.context, options) });
+                continue;
+            }
+
+            try {
+                outcomes[index] = {
+                    result: await this.processImmediate(event.eventType, event.payload, event.context, Date.now())
+                };
+            } catch (error) {
+                outcomes[index] = { error };
+            }
+        }
+
+        if (queued.length > 0) {
+            for (const { index } of queued) {
+                await this.statusService?.markQueued(events[index].eventType, events[index].context);
+            }
+
+            const errors = await this.addJobsInBulk(queued.map(entry => entry.job));
+
+            for (const [position, { index, job }] of queued.entries()) {
+                if (errors[position]) {
+                    await this.statusService?.markFailed(events[index].eventType, events[index].context, errors[position]);
+                    outcomes[index] = { error: errors[position] };
+                    continue;
+                }
+
+                outcomes[index] = { result: this.createQueuedResult(events[index].context, job.options, startTime) };
+            }
+
+            this.logger.log(`${queued.length} événement(s) mis en queue en lot`);
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Ajoute des jobs en un seul appel si le provider le supporte, un par un sinon
+     * Retourne l'erreur éventuelle de chaque job (undefined si ajouté)
+     */
+    private async addJobsInBulk(jobs: QueueBulkJob[]): Promise<Array<Error | undefined>> {
+        if (this.queueProvider.addBulk) {
+            try {
+                await this.queueProvider.addBulk(jobs);
+                return new Array<Error | undefined>(jobs.length).fill(undefined);
+            } catch (error) {
+                this.logger.error(`Échec de l'ajout en lot de ${jobs.length} job(s): ${error.message}`);
+                return new Array<Error | undefined>(jobs.length).fill(error);
+            }
+        }
+
+        const errors: Array<Error | undefined> = [];
+        for (const job of jobs) {
+            try {
+                await this.queueProvider.add(job.name, job.data, job.options);
+                errors.push(undefined);
+            } catch (error) {
+                errors.push(error);
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Construit le job 'process-notification' d'un événement
+     */
+    private buildQueueJob(
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        options: EmitOptions
+    ): QueueBulkJob {
+        const queuedEvent = this.toQueuedEvent(eventType, payload, context, options);
 
         // Options de la queue selon la config de l'événement
-        const eventConfig = (this.config.eventTypes as any)[eventType];
+        const eventConfig = this.getEventConfig(eventType);
         const queueOptions = {
             delay: options.delay || eventConfig?.delay || 0,
             attempts: options.retryAttempts || eventConfig?.retryAttempts || this.queueConfig?.defaultJobOptions?.attempts || 3,
             priority: this.getPriority(eventConfig?.priority),
-            ...this.queueConfig?.defaultJobOptions
+            ...this.queueConfig?.defaultJobOptions,
+            // L'ID du job est celui de l'événement, ce qui permet de l'annuler
+            jobId: context.eventId
         };
 
-        await this.queueProvider.add('process-notification', queuedEvent, queueOptions);
+        return { name: 'process-notification', data: queuedEvent, options: queueOptions };
+    }
 
-        const processingDuration = Date.now() - startTime;
+    /**
+     * Représentation persistée d'un événement (job de queue, EventStore)
+     */
+    private toQueuedEvent(
+        eventType: string,
+        payload: any,
+        context: NotificationContext,
+        options: EmitOptions
+    ): QueuedEvent {
+        return {
+            eventId: context.eventId,
+            eventType,
+            payload,
+            correlationId: context.correlationId,
+            causationId: context.causationId,
+            tenantId: context.tenantId,
+            options,
+            attempt: context.attempt,
+            createdAt: new Date()
+        };
+    }
+
+    /**
+     * Enregistre les événements dans l'EventStore (si configuré)
+     * Un échec d'enregistrement est journalisé sans bloquer l'émission
+     */
+    private async recordEvents(events: QueuedEvent[]): Promise<void> {
+        if (!this.eventStore || events.length === 0) {
+            return;
+        }
 
-        this.logger.log(`Événement ${eventType} mis en queue avec délai ${queueOptions.delay}ms`);
+        try {
+            await this.eventStore.append(events);
+        } catch (error) {
+            this.logger.error(`Échec de l'enregistrement de ${events.length} événement(s) dans l'EventStore: ${error.message}`);
+        }
+    }
 
+    /**
+     * Résultat d'émission d'un événement mis en queue
+     */
+    private createQueuedResult(context: NotificationContext, queueOptions: any, startTime: number): EventEmissionResult {
         return {
             eventId: context.eventId,
             correlationId: context.correlationId,
+            causationId: context.causationId,
             mode: 'async',
             waitedForResult: false,
             queuedAt: new Date(startTime),
-            processingDuration,
+            processingDuration: Date.now() - startTime,
             metadata: {
                 queueOptions,
                 queueMode: true
@@ -271,6 +500,38 @@ export class QueueManagerService {
         };
     }
 
+    /**
+     * Déclenche les notifications puis les handlers @InjectableHandler d'un événement
+     * Utilisé aussi bien en traitement immédiat qu'en mode worker
+     *
+     * Les handlers ne s'exécutent qu'une fois les notifications traitées : si l'orchestrateur échoue,
+     * aucun handler n'est exécuté et le job est retenté en entier (le DeliveryLedger évite de renotifier
+     * les destinataires déjà servis). Les handlers n'ont pas de suivi d'exécution propre : ils s'exécutent
+     * donc une seule fois, lors de la tentative où les notifications aboutissent.
+     */
+    private async dispatchEvent(
+        eventType: string,
+        payload: any,
+        context: NotificationContext
+    ): Promise<{ results: NotificationResult[], handlerResults: HandlerExecutionResult[] }> {
+        const results = await this.orchestrator.processEvent(eventType, payload, context);
+
+        const handlerResults = this.handlerManager
+            ? await this.handlerManager.executeHandlers(eventType, payload, {
+                eventId: context.eventId,
+                correlationId: context.correlationId,
+                causationId: context.causationId,
+                tenantId: context.tenantId,
+                eventType,
+                timestamp: new Date(),
+                attempt: context.attempt,
+                metadata: context.metadata
+            })
+            : [];
+
+        return { results, handlerResults };
+    }
+
     /**
      * Démarre le mode worker pour traiter les jobs de la queue
      */
@@ -289,7 +550,10 @@ export class QueueManagerService {
             const context: NotificationContext = {
                 eventId: queuedEvent.eventId,
                 correlationId: queuedEvent.correlationId,
+                causationId: queuedEvent.causationId,
+                tenantId: queuedEvent.tenantId,
                 eventType: queuedEvent.eventType,
+                priority: queuedEvent.options?.priority,
                 attempt: queuedEvent.attempt || 1,
                 metadata: {
                     jobId: job.id,
@@ -297,16 +561,92 @@ export class QueueManagerService {
                 }
             };
 
-            return await this.orchestrator.processEvent(
-                queuedEvent.eventType,
-                queuedEvent.payload,
-                context
+            await this.statusService?.markProcessing(queuedEvent.eventType, context, this.getJobAttempt(job));
+
+            // Re-valide le payload : un job ancien peut avoir une forme périmée.
+            // Une nouvelle tentative échouerait de la même façon : le job échoue définitivement.
+            try {
+                const eventConfig = this.getEventConfig(queuedEvent.eventType);
+                assertValidPayload(queuedEvent.eventType, eventConfig?.schema, queuedEvent.payload);
+            } catch (error) {
+                this.logger.error(`Job ${job.id} rejeté sans nouvelle tentative: ${error.message}`);
+                await this.statusService?.markFailed(queuedEvent.eventType, context, error, true);
+                throw new UnrecoverableJobError(error.message, error);
+            }
+
+            try {
+                const { results, handlerResults } = await this.dispatchEvent(
+                    queuedEvent.eventType,
+                    queuedEvent.payload,
+                    context
+                );
+
+                // Les handlers ont été exécutés : un échec d'enregistrement du statut ne doit pas relancer le job
+                await this.statusService?.markCompleted(queuedEvent.eventType, context, results, handlerResults)
+                    .catch(error => this.logger.error(`Statut de l'événement ${context.eventId} non enregistré: ${error.message}`));
+                return { results, handlerResults };
+            } catch (error) {
+                await this.statusService?.markFailed(queuedEvent.eventType, context, error, this.isLastAttempt(job));
+                throw error;
+            }
+        });
+
+        // Nouvelles tentatives d'un canal programmées par la RetryPolicy
+        await this.queueProvider.process('redeliver-notification', async (job: any) => {
+            const redelivery: NotificationRedelivery = job.data;
+
+            this.logger.log(
+                `Traitement job ${job.id}: tentative ${redelivery.context.attempt} sur le canal ` +
+                `'${redelivery.channel}' pour événement ${redelivery.eventType}`
+            );
+
+            const results = await this.orchestrator.redeliver(redelivery);
+            return { results };
+        });
+
+        // Étapes d'escalade des événements non acquittés
+        await this.queueProvider.process('escalate-notification', async (job: any) => {
+            const escalation: NotificationEscalation = job.data;
+
+            this.logger.log(
+                `Traitement job ${job.id}: étape d'escalade ${escalation.level} pour événement ${escalation.eventType}`
             );
+
+            const results = this.escalationService ? await this.escalationService.escalate(escalation) : [];
+            return { results };
         });
 
         this.logger.log('Mode worker démarré - traitement des jobs en cours');
     }
 
+    /**
+     * Configuration courante d'un type d'événement
+     */
+    private getEventConfig(eventType: string): EventTypeConfig | undefined {
+        return this.eventTypeConfigs
+            ? this.eventTypeConfigs.get(eventType)
+            : (this.config.eventTypes as any)[eventType];
+    }
+
+    /**
+     * Numéro de la tentative en cours d'un job
+     * FileQueueProvider incrémente `attempts` avant traitement, Bull/BullMQ exposent `attemptsMade`
+     */
+    private getJobAttempt(job: any): number {
+        if (typeof job.maxAttempts === 'number') {
+            return job.attempts;
+        }
+        return (job.attemptsMade ?? 0) + 1;
+    }
+
+    /**
+     * Indique si un échec du job sera définitif (plus de nouvelle tentative)
+     */
+    private isLastAttempt(job: any): boolean {
+        const maxAttempts = typeof job.maxAttempts === 'number' ? job.maxAttempts : job.opts?.attempts ?? 1;
+        return this.getJobAttempt(job) >= maxAttempts;
+    }
+
     /**
      * Convertit la priorité en valeur numérique pour la queue
      */
@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { SystemEvent } from '../types/interfaces';
+
+/**
+ * Écouteur d'événements système
+ */
+export type SystemEventListener = (event: SystemEvent) => void | Promise<void>;
+
+/**
+ * Diffusion des événements système (monitoring) dans le processus courant
+ * config.updated, provider.health.changed... Un écouteur en erreur n'affecte ni les autres ni l'émetteur.
+ */
+@Injectable()
+export class SystemEventService {
+    protected readonly logger = new Logger(SystemEventService.name);
+    private readonly events = new EventEmitter();
+
+    constructor() {
+        this.events.setMaxListeners(0);
+    }
+
+    /**
+     * Publie un événement système
+     */
+    publish(type: SystemEvent['type'], data: Record<string, any>, severity: SystemEvent['severity'] = 'info'): SystemEvent {
+        const event: SystemEvent = { type, timestamp: new Date(), data, severity };
+        this.events.emit('system-event', event);
+        return event;
+    }
+
+    /**
+     * Abonne un écouteur à tous les événements système, ou aux seuls types demandés
+     * Retourne la fonction de désabonnement
+     */
+    subscribe(listener: SystemEventListener, types?: Array<SystemEvent['type']>): () => void {
+        const wrapped = (event: SystemEvent) => {
+            if (types && !types.includes(event.type)) {
+                return;
+            }
+
+            Promise.resolve()
+                .then(() => listener(event))
+                .catch(error => this.logger.error(`Écouteur d'événement système ${event.type} en erreur: ${error.message}`));
+        };
+
+        this.events.on('system-event', wrapped);
+        return () => {
+            this.events.off('system-event', wrapped);
+        };
+    }
+}
@@ -0,0 +1,90 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { PackageConfig } from '../types/interfaces';
+import { EVENT_NOTIFICATIONS_CONFIG } from '../module/event-notifications.module';
+import { UnsubscribeTokenPayload, UnsubscribeTokenSigner, createUnsubscribeHelpers } from '../unsubscribe/unsubscribe-token';
+import { PreferenceService } from './preference.service';
+
+/**
+ * Liens de désinscription signés et enregistrement des désinscriptions dans les préférences
+ * Nécessite PackageConfig.unsubscribe (secret HMAC et URL de base).
+ */
+@Injectable()
+export class UnsubscribeService {
+    protected readonly logger = new Logger(UnsubscribeService.name);
+    private signer?: UnsubscribeTokenSigner;
+
+    constructor(
+        @Inject(forwardRef(() => EVENT_NOTIFICATIONS_CONFIG)) private readonly config: PackageConfig,
+        @Inject(forwardRef(() => PreferenceService)) private readonly preferences: PreferenceService
+    ) {}
+
+    /**
+     * Indique si les liens de désinscription sont configurés (PackageConfig.unsubscribe)
+     */
+    isEnabled(): boolean {
+        return !!this.config.unsubscribe;
+    }
+
+    /**
+     * Lien de désinscription d'un destinataire pour un type d'événement (ou sa catégorie) et un canal ('*' par défaut)
+     */
+    getUnsubscribeUrl(recipientId: string, eventType?: string, channel?: string, category?: string): string {
+        return this.getSigner().getUnsubscribeUrl(recipientId, eventType, channel, category);
+    }
+
+    /**
+     * Lien vers la page de gestion des préférences d'un destinataire
+     */
+    getManagePreferencesUrl(recipientId: string): string {
+        return this.getSigner().getManagePreferencesUrl(recipientId);
+    }
+
+    /**
+     * En-têtes List-Unsubscribe et List-Unsubscribe-Post à ajouter aux emails d'un destinataire
+     */
+    getListUnsubscribeHeaders(recipientId: string, eventType?: string, channel?: string, category?: string): Record<string, string> {
+        return this.getSigner().getListUnsubscribeHeaders(recipientId, eventType, channel, category);
+    }
+
+    /**
+     * Helpers {{unsubscribeUrl}} et {{managePreferencesUrl}} pour un moteur de template
+     */
+    getTemplateHelpers(): Record<string, Function> {
+        return createUnsubscribeHelpers(this.getSigner());
+    }
+
+    /**
+     * Vérifie un token sans l'appliquer (page de confirmation)
+     */
+    verify(token: string): UnsubscribeTokenPayload {
+        return this.getSigner().verify(token);
+    }
+
+    /**
+     * Vérifie un token et désactive le type d'événement (ou sa catégorie) sur le canal dans les préférences du destinataire
+     */
+    async unsubscribe(token: string): Promise<UnsubscribeTokenPayload> {
+        const payload = this.verify(token);
+        if (payload.category) {
+            await this.preferences.setCategoryPreference(payload.recipientId, payload.category, payload.channel, false);
+        } else {
+            await this.preferences.setPreference(payload.recipientId, payload.eventType, payload.channel, false);
+        }
+
+        this.logger.log(
+            `Désinscription de ${payload.recipientId} (${payload.category ? `catégorie: ${payload.category}` : `événement: ${payload.eventType}`}, ` +
+            `canal: ${payload.channel})`
+        );
+        return payload;
+    }
+
+    private getSigner(): UnsubscribeTokenSigner {
+        if (!this.signer) {
+            if (!this.config.unsubscribe) {
+                throw new Error('Unsubscribe links not configured. Provide the "unsubscribe" package option.');
+            }
+            this.signer = new UnsubscribeTokenSigner(this.config.unsubscribe);
+        }
+        return this.signer;
+    }
+}
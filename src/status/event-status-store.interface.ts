@@ -0,0 +1,62 @@
+import { NotificationResult } from '../types/interfaces';
+import { HandlerExecutionResult } from '../types/handler-queue.types';
+
+/**
+ * Statut de traitement d'un événement
+ */
+export type EventProcessingStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Suivi du traitement d'un événement, écrit par l'API (mise en queue) puis par le worker
+ */
+export interface EventStatusRecord {
+    eventId: string;
+    eventType: string;
+    correlationId: string;
+    status: EventProcessingStatus;
+
+    /** Nombre de tentatives de traitement effectuées */
+    attempts: number;
+
+    /** Résultats des notifications (une fois traité) */
+    results?: NotificationResult[];
+
+    /** Résultats des handlers @InjectableHandler (une fois traité) */
+    handlerResults?: HandlerExecutionResult[];
+
+    /** Message d'erreur si échec */
+    error?: string;
+
+    queuedAt?: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Canal de résultats partagé entre l'API et les workers
+ * Pour des workers sur d'autres machines, fournir une implémentation partagée (Redis, base de données...)
+ */
+export interface EventStatusStore {
+    /**
+     * Enregistre (ou remplace) le statut d'un événement
+     */
+    save(record: EventStatusRecord): Promise<void>;
+
+    /**
+     * Récupère le statut d'un événement
+     */
+    get(eventId: string): Promise<EventStatusRecord | undefined>;
+
+    /**
+     * Récupère les statuts des événements d'une même corrélation
+     */
+    findByCorrelationId(correlationId: string): Promise<EventStatusRecord[]>;
+}
+
+/**
+ * Indique si le traitement d'un événement est terminé
+ */
+export function isTerminalStatus(status: EventProcessingStatus): boolean {
+    return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
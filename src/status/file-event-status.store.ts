@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EventStatusRecord, EventStatusStore, isTerminalStatus } from './event-status-store.interface';
+import { withFileLock } from '../utils/file-lock';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/** Durée de conservation des statuts terminés (24h) */
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+/**
+ * Store de statuts basé sur un fichier JSON
+ * Partagé entre l'API et les workers utilisant le même répertoire de données (comme FileQueueProvider)
+ */
+@Injectable()
+export class FileEventStatusStore implements EventStatusStore {
+    private readonly logger = new Logger(FileEventStatusStore.name);
+    private readonly filePath: string;
+    private readonly lockPath: string;
+
+    constructor(
+        storeName: string = 'events',
+        private readonly dataDir: string = './queue-data',
+        private readonly retention: number = DEFAULT_RETENTION
+    ) {
+        this.filePath = path.join(dataDir, `${storeName}-status.json`);
+        this.lockPath = `${this.filePath}.lock`;
+    }
+
+    /**
+     * Lit les statuts depuis le fichier en restaurant les dates
+     */
+    private async readRecords(): Promise<Record<string, EventStatusRecord>> {
+        try {
+            const data = await fs.readFile(this.filePath, 'utf8');
+            return JSON.parse(data, (_key, value) =>
+                typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+            );
+        } catch (error) {
+            // Fichier n'existe pas encore ou vide
+            return {};
+        }
+    }
+
+    private async writeRecords(records: Record<string, EventStatusRecord>): Promise<void> {
+        try {
+            await fs.writeFile(this.filePath, JSON.stringify(records));
+        } catch (error) {
+            this.logger.error(`Failed to write event statuses: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async save(record: EventStatusRecord): Promise<void> {
+        await fs.mkdir(this.dataDir, { recursive: true });
+
+        await withFileLock(this.lockPath, async () => {
+            const records = await this.readRecords();
+            const threshold = Date.now() - this.retention;
+
+            // Purge des statuts terminés trop anciens
+            for (const [eventId, existing] of Object.entries(records)) {
+                if (isTerminalStatus(existing.status) && new Date(existing.updatedAt).getTime() < threshold) {
+                    delete records[eventId];
+                }
+            }
+
+            records[record.eventId] = record;
+            await this.writeRecords(records);
+        });
+    }
+
+    async get(eventId: string): Promise<EventStatusRecord | undefined> {
+        const records = await this.readRecords();
+        return records[eventId];
+    }
+
+    async findByCorrelationId(correlationId: string): Promise<EventStatusRecord[]> {
+        const records = await this.readRecords();
+        return Object.values(records).filter(record => record.correlationId === correlationId);
+    }
+
+    /**
+     * Factory method to create FileEventStatusStore
+     */
+    static create(storeName: string = 'events', dataDir: string = './queue-data'): FileEventStatusStore {
+        return new FileEventStatusStore(storeName, dataDir);
+    }
+}
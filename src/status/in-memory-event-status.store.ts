@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { EventStatusRecord, EventStatusStore, isTerminalStatus } from './event-status-store.interface';
+
+/** Durée de conservation des statuts terminés (24h) */
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+/**
+ * Store de statuts en mémoire
+ * Ne voit que les événements traités par le processus courant (modes api et hybrid sans worker séparé)
+ */
+@Injectable()
+export class InMemoryEventStatusStore implements EventStatusStore {
+    private readonly records = new Map<string, EventStatusRecord>();
+
+    constructor(private readonly retention: number = DEFAULT_RETENTION) {}
+
+    async save(record: EventStatusRecord): Promise<void> {
+        this.purgeExpired();
+        this.records.set(record.eventId, { ...record });
+    }
+
+    async get(eventId: string): Promise<EventStatusRecord | undefined> {
+        const record = this.records.get(eventId);
+        return record ? { ...record } : undefined;
+    }
+
+    async findByCorrelationId(correlationId: string): Promise<EventStatusRecord[]> {
+        return Array.from(this.records.values())
+            .filter(record => record.correlationId === correlationId)
+            .map(record => ({ ...record }));
+    }
+
+    /**
+     * Supprime les statuts terminés trop anciens pour borner la mémoire utilisée
+     */
+    private purgeExpired(): void {
+        const threshold = Date.now() - this.retention;
+        for (const [eventId, record] of this.records) {
+            if (isTerminalStatus(record.status) && record.updatedAt.getTime() < threshold) {
+                this.records.delete(eventId);
+            }
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { TemplateRenderer, TemplateEngineConfig } from '../interfaces/template-engine.interface';
+import { UnsubscribeTokenSigner, createUnsubscribeHelpers } from '../../unsubscribe/unsubscribe-token';
 
 /**
  * Moteur de rendu Handlebars
@@ -21,7 +22,14 @@ export class HandlebarsEngine implements TemplateRenderer {
         try {
             // Import dynamique de handlebars
             this.handlebars = await import('handlebars');
-            
+
+            // Enregistrer les helpers de désinscription
+            if (this.config.unsubscribe) {
+                Object.entries(createUnsubscribeHelpers(new UnsubscribeTokenSigner(this.config.unsubscribe))).forEach(([name, helper]) => {
+                    this.registerHelper(name, helper);
+                });
+            }
+
             // Enregistrer les helpers personnalisés
             if (this.config.helpers) {
                 Object.entries(this.config.helpers).forEach(([name, helper]) => {
@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { TemplateRenderer, TemplateEngineConfig } from '../interfaces/template-engine.interface';
+import { UnsubscribeTokenSigner, createUnsubscribeHelpers } from '../../unsubscribe/unsubscribe-token';
 
 /**
  * Moteur de rendu simple (substitution de variables)
  * Supporte les variables {{variable}} et les conditions simples {{#if condition}}...{{/if}}
+ * Un helper sans paramètre ({{unsubscribeUrl}}) est appelé lorsque aucune variable ne porte son nom
  */
 @Injectable()
 export class SimpleEngine implements TemplateRenderer {
@@ -23,6 +25,13 @@ export class SimpleEngine implements TemplateRenderer {
             this.registerHelper(name, helper);
         });
 
+        // Enregistrer les helpers de désinscription
+        if (this.config.unsubscribe) {
+            Object.entries(createUnsubscribeHelpers(new UnsubscribeTokenSigner(this.config.unsubscribe))).forEach(([name, helper]) => {
+                this.registerHelper(name, helper);
+            });
+        }
+
         // Enregistrer les helpers personnalisés
         if (this.config.helpers) {
             Object.entries(this.config.helpers).forEach(([name, helper]) => {
@@ -123,7 +132,11 @@ export class SimpleEngine implements TemplateRenderer {
      */
     private processVariables(template: string, data: any): string {
         return template.replace(/\{\{(\w+(?:\.\w+)*)\}\}/g, (match, path) => {
-            const value = this.getNestedValue(data, path);
+            let value = this.getNestedValue(data, path);
+
+            if (value === undefined && this.helpers.has(path)) {
+                value = this.helpers.get(path).apply(data, []);
+            }
             
             if (value === undefined || value === null) {
                 return '';
@@ -1,4 +1,5 @@
 import { NotificationContext } from '../../types/interfaces';
+import { UnsubscribeOptions } from '../../unsubscribe/unsubscribe-token';
 
 /**
  * Interface pour l'enrichissement des données avant le rendu
@@ -86,6 +87,9 @@ export interface TemplateEngineConfig {
     
     /** Partials personnalisés */
     partials?: Record<string, string>;
+
+    /** Liens de désinscription signés : active les helpers {{unsubscribeUrl}} et {{managePreferencesUrl}} */
+    unsubscribe?: UnsubscribeOptions;
     
     /** Options spécifiques au moteur */
     engineOptions?: Record<string, any>;
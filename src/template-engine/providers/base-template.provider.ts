@@ -11,6 +11,7 @@ import { HandlebarsEngine } from '../engines/handlebars.engine';
 import { SimpleEngine } from '../engines/simple.engine';
 import { FileTemplateLoader } from '../loaders/file-template.loader';
 import { FunctionTemplateLoader } from '../loaders/function-template.loader';
+import { getUnsubscribeScope, runWithUnsubscribeScope } from '../../unsubscribe/unsubscribe-token';
 
 /**
  * Token pour injecter la configuration du template
@@ -63,9 +64,9 @@ export abstract class BaseTemplateProvider<TPayload = any, TEnriched = any>
             this.logger.debug(`Enriching data for event: ${eventType}`);
             const enrichedData = await this.enrichData(payload, context);
 
-            // 2. Déléguer le rendu au provider spécifique
+            // 2. Déléguer le rendu au provider spécifique ({{unsubscribeUrl}} porte sur le type d'événement et le canal de l'envoi)
             this.logger.debug(`Rendering template for event: ${eventType}`);
-            const result = await this.renderTemplate(eventType, enrichedData);
+            const result = await runWithUnsubscribeScope(getUnsubscribeScope(context), () => this.renderTemplate(eventType, enrichedData));
 
             const duration = Date.now() - startTime;
             this.logger.debug(`Template rendered successfully in ${duration}ms for event: ${eventType}`);
@@ -0,0 +1,51 @@
+import { InjectionToken } from '@nestjs/common';
+import { EventTypeConfig, NotificationChannel } from '../types/interfaces';
+
+/**
+ * Surcharge de la configuration d'un type d'événement pour un tenant
+ */
+export type TenantEventTypeOverride = Partial<Pick<EventTypeConfig, 'channels' | 'loader' | 'fallbackChannels' | 'subject'>>;
+
+/**
+ * Configuration propre à un tenant
+ * Fusionnée avec EVENT_TYPES_CONFIG lors du traitement d'un événement portant ce tenantId
+ */
+export interface TenantConfig {
+    /** Surcharges par type d'événement */
+    eventTypes?: Record<string, TenantEventTypeOverride>;
+
+    /** RecipientLoader du tenant, utilisé lorsque le type d'événement n'en surcharge pas */
+    recipientLoader?: InjectionToken;
+
+    /** Configuration des providers par canal (identifiants, expéditeur...), exposée via context.metadata.providerConfig */
+    providers?: Record<NotificationChannel, Record<string, any>>;
+}
+
+/**
+ * Résout la configuration d'un tenant
+ * Appelé pour chaque événement traité (API comme worker) : mettre en cache si la source est coûteuse
+ */
+export interface TenantConfigResolver {
+    resolve(tenantId: string): Promise<TenantConfig | undefined>;
+}
+
+/**
+ * Applique les surcharges d'un tenant à la configuration d'un type d'événement
+ */
+export function applyTenantOverrides(
+    eventType: string,
+    eventConfig: EventTypeConfig | undefined,
+    tenantConfig: TenantConfig | undefined
+): EventTypeConfig | undefined {
+    if (!eventConfig || !tenantConfig) {
+        return eventConfig;
+    }
+
+    const override = tenantConfig.eventTypes?.[eventType] || {};
+
+    return {
+        ...eventConfig,
+        ...override,
+        loader: override.loader ?? tenantConfig.recipientLoader ?? eventConfig.loader
+    };
+}
@@ -78,6 +78,8 @@ export interface QueuedHandlerJob {
 export interface EventHandlerContext {
     eventId: string;
     correlationId: string;
+    causationId?: string;
+    tenantId?: string;
     eventType: string;
     timestamp: Date;
     attempt: number;
@@ -95,4 +97,33 @@ export interface EventHandlerContext {
     
     // Permet au handler d'accéder aux autres services si nécessaire
     getService?<T>(token: any): T;
-}
\ No newline at end of file
+}
+
+/**
+ * Résultat de l'exécution d'un handler pour un événement
+ */
+export interface HandlerExecutionResult {
+    /** Nom du handler */
+    handler: string;
+
+    /** Statut de l'exécution */
+    status: 'completed' | 'queued' | 'failed';
+
+    /** Mode de traitement utilisé */
+    processing: 'sync' | 'async' | 'delayed';
+
+    /** Valeur retournée par le handler (exécution directe) */
+    result?: any;
+
+    /** ID du job (exécution via queue) */
+    jobId?: string;
+
+    /** Message d'erreur si échec */
+    error?: string;
+
+    /** Date d'exécution */
+    executedAt?: Date;
+
+    /** Date de mise en queue */
+    queuedAt?: Date;
+}
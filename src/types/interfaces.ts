@@ -4,9 +4,20 @@
 
 
 
-import {RecipientDistribution, RecipientLoader} from "../loaders/recipient-loader.interface";
+import {RecipientDistribution, RecipientLoader, RecipientType} from "../loaders/recipient-loader.interface";
 import {InjectionToken, Provider, Type} from "@nestjs/common";
 import {Module} from "@nestjs/core/injector/module";
+import {HandlerExecutionResult} from "./handler-queue.types";
+import {IdempotencyStore} from "../idempotency/idempotency-store.interface";
+import {ScheduleStore} from "../scheduling/schedule-store.interface";
+import {EventStore} from "../event-store/event-store.interface";
+import {EventStatusStore} from "../status/event-status-store.interface";
+import {TenantConfigResolver} from "../tenancy/tenant-config-resolver.interface";
+import {EventTypeConfigSource} from "../event-types/event-type-config-source.interface";
+import {DeliveryLedger} from "../delivery/delivery-ledger.interface";
+import {PreferenceStore} from "../preferences/preference-store.interface";
+import {UnsubscribeOptions} from "../unsubscribe/unsubscribe-token";
+import {EscalationStore} from "../escalation/escalation-store.interface";
 
 /**
  * Interface de base que l'utilisateur étend pour définir ses types d'événements
@@ -23,6 +34,16 @@ export type NotificationModuleOptions<T extends EventPayloads = EventPayloads>
     imports?: any[],
     recipientLoader?: Type<RecipientLoader>;
     queueProvider?: Type<QueueProvider>;
+    idempotencyStore?: Type<IdempotencyStore> | IdempotencyStore;
+    scheduleStore?: Type<ScheduleStore> | ScheduleStore;
+    eventStore?: Type<EventStore> | EventStore;
+    eventStatusStore?: Type<EventStatusStore> | EventStatusStore;
+    tenantConfigResolver?: Type<TenantConfigResolver> | TenantConfigResolver;
+    eventTypeConfigSource?: Type<EventTypeConfigSource> | EventTypeConfigSource;
+    deliveryLedger?: Type<DeliveryLedger> | DeliveryLedger;
+    preferenceStore?: Type<PreferenceStore> | PreferenceStore;
+    escalationStore?: Type<EscalationStore> | EscalationStore;
+    unsubscribeController?: boolean;
 }
 
 export type NotificationModuleOptionsWithoutMode<T extends EventPayloads = EventPayloads>  = {
@@ -30,12 +51,32 @@ export type NotificationModuleOptionsWithoutMode<T extends EventPayloads = Event
     imports?: any[],
     recipientLoader?: Type<RecipientLoader>;
     queueProvider?: Type<QueueProvider>;
+    idempotencyStore?: Type<IdempotencyStore> | IdempotencyStore;
+    scheduleStore?: Type<ScheduleStore> | ScheduleStore;
+    eventStore?: Type<EventStore> | EventStore;
+    eventStatusStore?: Type<EventStatusStore> | EventStatusStore;
+    tenantConfigResolver?: Type<TenantConfigResolver> | TenantConfigResolver;
+    eventTypeConfigSource?: Type<EventTypeConfigSource> | EventTypeConfigSource;
+    deliveryLedger?: Type<DeliveryLedger> | DeliveryLedger;
+    preferenceStore?: Type<PreferenceStore> | PreferenceStore;
+    escalationStore?: Type<EscalationStore> | EscalationStore;
+    unsubscribeController?: boolean;
 }
 
 export type NotificationModuleAsyncOptions<T extends EventPayloads = EventPayloads>  = {
     useFactory: (...args: any[]) => Promise<PackageConfig<T>> | PackageConfig<T>;
     recipientLoader?: Type<RecipientLoader>;
     queueProvider?: Type<QueueProvider>;
+    idempotencyStore?: Type<IdempotencyStore> | IdempotencyStore;
+    scheduleStore?: Type<ScheduleStore> | ScheduleStore;
+    eventStore?: Type<EventStore> | EventStore;
+    eventStatusStore?: Type<EventStatusStore> | EventStatusStore;
+    tenantConfigResolver?: Type<TenantConfigResolver> | TenantConfigResolver;
+    eventTypeConfigSource?: Type<EventTypeConfigSource> | EventTypeConfigSource;
+    deliveryLedger?: Type<DeliveryLedger> | DeliveryLedger;
+    preferenceStore?: Type<PreferenceStore> | PreferenceStore;
+    escalationStore?: Type<EscalationStore> | EscalationStore;
+    unsubscribeController?: boolean;
     imports?: any[],
     mode?: PackageConfig['mode'],
     inject?: any [];
@@ -74,6 +115,9 @@ export interface EventTypeConfig {
     /** Canaux de notification à utiliser */
     channels: NotificationChannel[];
 
+    /** Catégorie (ex: 'marketing') : les désinscriptions et préférences de la catégorie couvrent ce type d'événement */
+    category?: string;
+
     /** Mode de traitement par défaut */
     defaultProcessing?: ProcessingMode;
 
@@ -83,6 +127,9 @@ export interface EventTypeConfig {
     /** Nombre de tentatives en cas d'échec */
     retryAttempts?: number;
 
+    /** Nouvelles tentatives par canal et par destinataire (complète global.retryPolicy) */
+    retryPolicy?: Partial<RetryPolicy>;
+
     /** Priorité de l'événement */
     priority?: EventPriority;
 
@@ -92,11 +139,103 @@ export interface EventTypeConfig {
     /** Timeout pour l'attente de résultat (en ms) */
     timeout?: number;
 
-    /** Validation des canaux (pour les canaux dynamiques) */
+    /** Vérifier au démarrage que les canaux ont un provider (false pour les canaux dynamiques) */
     validateChannels?: boolean;
 
     /** Canaux de fallback si les canaux principaux ne sont pas disponibles */
     fallbackChannels?: NotificationChannel[];
+
+    /** Déduplication des destinataires (remplace global.recipientDeduplication ; false la désactive) */
+    recipientDeduplication?: boolean | RecipientDeduplicationOptions;
+
+    /** Étapes d'escalade déclenchées tant que l'événement n'est pas acquitté (EscalationService.acknowledge) */
+    escalation?: EscalationStep[];
+
+    /** Schéma de validation du payload (JSON Schema ou fonction de validation) */
+    schema?: EventPayloadSchema;
+
+    /** Type d'événement actif (par défaut : true) ; désactivé, ses émissions sont ignorées */
+    enabled?: boolean;
+}
+
+/**
+ * Étape d'escalade : notifie d'autres destinataires lorsque l'événement n'a pas été acquitté à temps
+ */
+export interface EscalationStep {
+    /** Attente d'un acquittement depuis l'envoi initial ou l'étape précédente (en ms) */
+    after: number;
+
+    /** Canaux de l'étape */
+    channels: NotificationChannel[];
+
+    /** Loader des destinataires de l'étape (celui du type d'événement par défaut) */
+    loader?: InjectionToken;
+
+    /** Ne retenir que ces distributions (par nom) parmi celles retournées par le loader */
+    distributions?: string[];
+}
+
+/**
+ * Sous-ensemble de JSON Schema supporté pour la validation des payloads
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: any[];
+    const?: any;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: 'email' | 'date-time' | 'uri';
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    description?: string;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Problème détecté lors de la validation d'un payload
+ */
+export interface PayloadValidationIssue {
+    /** Chemin du champ en erreur (ex: 'items[0].price'), vide pour la racine */
+    path: string;
+
+    /** Description du problème */
+    message: string;
+}
+
+/**
+ * Fonction de validation personnalisée d'un payload
+ * Retourne true si valide, sinon false ou la liste des problèmes détectés
+ */
+export type PayloadValidatorFunction = (payload: any) => boolean | string[] | PayloadValidationIssue[];
+
+/**
+ * Schéma de payload d'un type d'événement
+ */
+export type EventPayloadSchema = JsonSchema | PayloadValidatorFunction;
+
+/**
+ * Problème de configuration détecté au démarrage (ConfigurationValidatorService)
+ */
+export interface ConfigurationIssue {
+    /** error : bloque le démarrage, warning : simplement journalisé */
+    severity: 'error' | 'warning';
+
+    /** Description du problème */
+    message: string;
+
+    /** Type d'événement concerné */
+    eventType?: string;
+
+    /** Canal concerné */
+    channel?: NotificationChannel;
 }
 
 /**
@@ -174,20 +313,68 @@ export interface PackageConfig<T extends EventPayloads = EventPayloads> {
         /** Nombre de tentatives par défaut */
         defaultRetryAttempts?: number;
 
+        /** Nouvelles tentatives par canal et par destinataire ; sans politique, un échec d'envoi est définitif */
+        retryPolicy?: Partial<RetryPolicy>;
+
         /** Activer les logs détaillés */
         enableDetailedLogs?: boolean;
 
-        /** Nombre maximum de notifications concurrentes */
+        /** Nombre maximum de notifications concurrentes, tous canaux confondus (10 par défaut) */
         maxConcurrentNotifications?: number;
 
-        /** Intervalle de health check (en ms) */
+        /** Nombre maximum de notifications concurrentes par canal (ex: { webhook: 2 }) */
+        maxConcurrentNotificationsPerChannel?: Record<NotificationChannel, number>;
+
+        /** Intervalle des health checks périodiques des providers (en ms), qui alimentent les circuit breakers */
         healthCheckInterval?: number;
 
-        /** Valider automatiquement les canaux dans les événements */
+        /** Circuit breaker par provider ; enabled: false rétablit le health check à chaque envoi */
+        circuitBreaker?: Partial<CircuitBreakerOptions> & { enabled?: boolean };
+
+        /** Seuils du circuit breaker par canal (ex: { webhook: { failureThreshold: 2 } }) */
+        circuitBreakerPerChannel?: Record<NotificationChannel, Partial<CircuitBreakerOptions>>;
+
+        /** Vérifier au démarrage que les canaux des événements ont un provider (true par défaut) */
         validateChannels?: boolean;
 
         /** Utiliser les canaux de fallback en cas d'échec */
         useFallbackChannels?: boolean;
+
+        /** Déduplication des destinataires avant l'envoi (par id par défaut ; false la désactive) */
+        recipientDeduplication?: boolean | RecipientDeduplicationOptions;
+
+        /** Fenêtre de déduplication des clés d'idempotence (en ms, 24h par défaut) */
+        idempotencyWindow?: number;
+    };
+
+    /** Liens de désinscription signés (UnsubscribeService, UnsubscribeController) */
+    unsubscribe?: UnsubscribeOptions;
+
+    /** Options du planificateur d'émissions (emitAt / scheduleRecurring) */
+    scheduler?: {
+        /** Déclencher les planifications échues sur cette instance (true par défaut) */
+        enabled?: boolean;
+
+        /** Intervalle de scrutation des planifications (en ms, 1000 par défaut) */
+        pollInterval?: number;
+    };
+
+    /** Outbox transactionnel (emitInTransaction), table `${tablePrefix}event_outbox` */
+    outbox?: {
+        /** Relayer l'outbox depuis cette instance (true par défaut) */
+        relayEnabled?: boolean;
+
+        /** Intervalle de scrutation de l'outbox (en ms, 1000 par défaut) */
+        pollInterval?: number;
+
+        /** Nombre maximum de lignes relayées par scrutation (100 par défaut) */
+        batchSize?: number;
+
+        /** Tentatives de relais avant passage en statut 'failed' (5 par défaut) */
+        maxAttempts?: number;
+
+        /** Durée de réservation d'une ligne par un relais (en ms, 30000 par défaut) */
+        lockTimeout?: number;
     };
 }
 
@@ -204,9 +391,15 @@ export interface EmitOptions {
     /** Alias pour mode (pour compatibilité) */
     processing?: ProcessingMode;
 
-    /** ID de corrélation personnalisé */
+    /** ID de corrélation personnalisé (par défaut : celui du contexte ambiant, sinon un nouveau) */
     correlationId?: string;
 
+    /** ID de l'événement ayant causé cette émission (par défaut : l'événement en cours de traitement) */
+    causationId?: string;
+
+    /** Tenant de l'émission (par défaut : celui du contexte ambiant) */
+    tenantId?: string;
+
     /** Timeout personnalisé (en ms) */
     timeout?: number;
 
@@ -221,6 +414,15 @@ export interface EmitOptions {
 
     /** Métadonnées additionnelles */
     metadata?: Record<string, any>;
+
+    /** Clé d'idempotence : une émission rejouée avec la même clé renvoie le résultat original */
+    idempotencyKey?: string;
+
+    /** Fenêtre de déduplication personnalisée pour cette émission (en ms) */
+    idempotencyWindow?: number;
+
+    /** Simuler l'émission : retourne le plan d'envoi sans rien envoyer ni mettre en queue */
+    dryRun?: boolean;
 }
 
 /**
@@ -250,6 +452,31 @@ export interface NotificationResult {
 
     /** Prochaine tentative prévue */
     nextRetryAt?: Date;
+
+    /** Canal d'origine lorsque l'envoi a été fait sur un canal de fallback */
+    fallbackFrom?: NotificationChannel;
+
+    /** Raison du passage au canal de fallback */
+    fallbackReason?: string;
+}
+
+/**
+ * Résultat de l'annulation d'un événement en attente
+ * - cancelled : retiré avant traitement (ou déjà annulé)
+ * - started : traitement déjà commencé ou terminé
+ * - not_found : événement inconnu
+ */
+export interface EventCancellationResult {
+    eventId: string;
+    status: 'cancelled' | 'started' | 'not_found';
+}
+
+/**
+ * Options de traitement d'un événement par l'orchestrateur
+ */
+export interface EventProcessingOptions {
+    /** Restreindre l'envoi à ces canaux (parmi ceux configurés pour l'événement) */
+    channels?: string[];
 }
 
 /**
@@ -262,6 +489,9 @@ export interface EventEmissionResult {
     /** ID de corrélation */
     correlationId: string;
 
+    /** ID de l'événement parent */
+    causationId?: string;
+
     /** Mode de traitement utilisé */
     mode: ProcessingMode;
 
@@ -271,6 +501,9 @@ export interface EventEmissionResult {
     /** Résultats des notifications (si disponibles) */
     results?: NotificationResult[];
 
+    /** Résultats des handlers @InjectableHandler (si disponibles) */
+    handlerResults?: HandlerExecutionResult[];
+
     /** Date de mise en queue */
     queuedAt?: Date;
 
@@ -282,6 +515,68 @@ export interface EventEmissionResult {
 
     /** Métadonnées additionnelles */
     metadata?: Record<string, any>;
+
+    /** Plan d'envoi (émissions en dryRun uniquement) */
+    plan?: EmissionPlan;
+}
+
+/**
+ * Élément d'une émission groupée
+ */
+export type BatchEmitItem<T extends EventPayloads = EventPayloads> = {
+    [K in keyof T]: {
+        /** Type d'événement */
+        eventType: K;
+
+        /** Payload de l'événement */
+        payload: T[K];
+
+        /** Options propres à cet élément (fusionnées avec les options du lot) */
+        options?: EmitOptions;
+    }
+}[keyof T];
+
+/**
+ * Résultat d'un élément d'une émission groupée
+ */
+export interface BatchEmissionItemResult {
+    /** Position de l'élément dans le lot */
+    index: number;
+
+    /** Type d'événement */
+    eventType: string;
+
+    /** emitted : traité ou mis en queue, rejected : payload invalide, failed : erreur de traitement */
+    status: 'emitted' | 'rejected' | 'failed';
+
+    /** Résultat de l'émission (si émis) */
+    result?: EventEmissionResult;
+
+    /** Message d'erreur (si rejeté ou échoué) */
+    error?: string;
+
+    /** Problèmes de validation du payload (si rejeté) */
+    validationIssues?: PayloadValidationIssue[];
+}
+
+/**
+ * Résultat d'une émission groupée
+ */
+export interface BatchEmissionResult {
+    /** Nombre total d'éléments */
+    total: number;
+
+    /** Nombre d'éléments émis */
+    emitted: number;
+
+    /** Nombre d'éléments rejetés à la validation */
+    rejected: number;
+
+    /** Nombre d'éléments en échec de traitement */
+    failed: number;
+
+    /** Résultats par élément, dans l'ordre du lot */
+    items: BatchEmissionItemResult[];
 }
 
 /**
@@ -297,6 +592,77 @@ export interface NotificationProvider {
 
     /** Valider la configuration */
     validateConfig(config: any): boolean | string[];
+
+    /**
+     * Aperçu de l'envoi sans effet de bord (dryRun) - optionnel
+     * Retourne le contenu rendu et la requête qui serait envoyée pour chaque destinataire
+     */
+    preview?(distribution: RecipientDistribution, payload: any, context: NotificationContext): Promise<NotificationPreview[]>;
+}
+
+/**
+ * Aperçu d'une notification pour un destinataire
+ */
+export interface NotificationPreview {
+    /** ID du destinataire */
+    recipientId?: string;
+
+    /** Adresse utilisée (email, numéro, chat ID...) */
+    address?: string;
+
+    /** Contenu rendu (sujet, corps...) */
+    content?: any;
+
+    /** Corps de la requête qui serait envoyée au service externe */
+    request?: any;
+
+    /** Raison pour laquelle ce destinataire serait ignoré */
+    skippedReason?: string;
+}
+
+/**
+ * Destinataire prévu sur un canal
+ */
+export interface PlannedRecipient {
+    recipientId: string;
+    name: string;
+    distribution: string;
+    type: RecipientType;
+}
+
+/**
+ * Plan d'envoi d'un canal
+ */
+export interface ChannelPlan {
+    channel: string;
+
+    /** Provider résolu via NotifierRegistry */
+    provider?: string;
+
+    /** Destinataires qui recevraient la notification */
+    recipients: PlannedRecipient[];
+
+    /** Aperçus fournis par le provider (si preview() est implémenté) */
+    previews?: NotificationPreview[];
+
+    /** Raison pour laquelle le canal entier serait ignoré */
+    skippedReason?: string;
+}
+
+/**
+ * Plan d'envoi d'un événement (dryRun)
+ */
+export interface EmissionPlan {
+    eventType: string;
+
+    /** Distributions retournées par le RecipientLoader */
+    distributions: RecipientDistribution[];
+
+    /** Plan par canal */
+    channels: ChannelPlan[];
+
+    /** Éléments ignorés et leur raison (canal, destinataire ou événement entier) */
+    skipped: Array<{ channel?: string, recipientId?: string, reason: string }>;
 }
 
 /**
@@ -309,9 +675,18 @@ export interface NotificationContext {
     /** ID de corrélation */
     correlationId: string;
 
+    /** ID de l'événement parent */
+    causationId?: string;
+
+    /** Tenant de l'événement (surcharges TenantConfigResolver) */
+    tenantId?: string;
+
     /** Type d'événement */
     eventType: string;
 
+    /** Priorité de l'émission (EmitOptions.priority), sinon celle du type d'événement */
+    priority?: EventPriority;
+
     /** Tentative actuelle */
     attempt: number;
 
@@ -335,6 +710,12 @@ export interface QueuedEvent {
     /** ID de corrélation */
     correlationId: string;
 
+    /** ID de l'événement parent */
+    causationId?: string;
+
+    /** Tenant de l'événement */
+    tenantId?: string;
+
     /** Options d'émission */
     options?: EmitOptions;
 
@@ -345,11 +726,52 @@ export interface QueuedEvent {
     createdAt: Date;
 }
 
+/**
+ * Nouvel envoi d'un canal aux destinataires en échec (job 'redeliver-notification')
+ */
+export interface NotificationRedelivery {
+    /** Type d'événement */
+    eventType: string;
+
+    /** Payload de l'événement */
+    payload: any;
+
+    /** Canal à réessayer */
+    channel: NotificationChannel;
+
+    /** Destinataires en échec, avec leur type (MAIN, COPY, BLIND) */
+    distributions: RecipientDistribution[];
+
+    /** Contexte de l'événement ; attempt est le numéro de la nouvelle tentative */
+    context: NotificationContext;
+
+    /** Canaux de fallback de l'événement, repris si le nouvel envoi échoue */
+    fallbackChannels?: NotificationChannel[];
+}
+
+/**
+ * Déclenchement d'une étape d'escalade (job 'escalate-notification')
+ */
+export interface NotificationEscalation {
+    /** Type d'événement */
+    eventType: string;
+
+    /** Payload de l'événement */
+    payload: any;
+
+    /** Numéro de l'étape à déclencher (à partir de 1) */
+    level: number;
+
+    /** Contexte de l'événement */
+    context: NotificationContext;
+}
+
 /**
  * Configuration pour la politique de retry
+ * Délai avant la tentative n+1 : initialDelay * backoffFactor^(n-1), plafonné à maxDelay
  */
 export interface RetryPolicy {
-    /** Nombre maximum de tentatives */
+    /** Nombre maximum de tentatives (envoi initial compris) */
     maxAttempts: number;
 
     /** Délai initial (en ms) */
@@ -365,6 +787,36 @@ export interface RetryPolicy {
     customDelayFunction?: (attempt: number) => number;
 }
 
+/**
+ * État d'un circuit breaker
+ * - closed : les envois passent
+ * - open : les envois sont court-circuités jusqu'à la fin de resetTimeout
+ * - half-open : des envois d'essai décident de la fermeture ou de la réouverture
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    /** Échecs consécutifs avant ouverture du circuit (5 par défaut) */
+    failureThreshold: number;
+
+    /** Durée d'ouverture avant un essai en half-open (en ms, 30000 par défaut) */
+    resetTimeout: number;
+
+    /** Succès consécutifs en half-open avant fermeture (1 par défaut) */
+    successThreshold: number;
+}
+
+/**
+ * Déduplication des destinataires d'un canal, toutes distributions confondues (précédence MAIN > COPY > BLIND)
+ */
+export interface RecipientDeduplicationOptions {
+    /**
+     * Clé de déduplication : 'id' (par défaut), ou propriété d'adresse du destinataire par canal
+     * (ex: { email: 'email', sms: 'phone' }) ; l'id est utilisé pour les autres canaux et sans adresse
+     */
+    by?: 'id' | Record<NotificationChannel, string>;
+}
+
 /**
  * Statistiques d'un provider
  */
@@ -399,7 +851,8 @@ export interface ProviderStats {
  */
 export interface SystemEvent {
     /** Type d'événement système */
-    type: 'provider.health.changed' | 'queue.full' | 'retry.exhausted' | 'config.updated';
+    type: 'provider.health.changed' | 'queue.full' | 'retry.exhausted' | 'config.updated'
+        | 'escalation.escalated' | 'escalation.acknowledged';
 
     /** Timestamp */
     timestamp: Date;
@@ -411,8 +864,27 @@ export interface SystemEvent {
     severity: 'info' | 'warning' | 'error' | 'critical';
 }
 
+/**
+ * Job à ajouter via QueueProvider.addBulk
+ */
+export interface QueueBulkJob {
+    name: string;
+    data: any;
+    options?: any;
+}
+
+/**
+ * Résultat du retrait d'un job de la queue
+ * - removed : le job en attente (ou différé) a été retiré
+ * - started : le job est déjà en cours ou terminé, il ne peut plus être retiré
+ * - not_found : aucun job avec cet ID
+ */
+export type JobRemovalResult = 'removed' | 'started' | 'not_found';
+
 export interface QueueProvider {
     add(jobName: string, data: any, options?: any): Promise<any>;
+    addBulk?(jobs: QueueBulkJob[]): Promise<any[]>;
+    remove?(jobId: string): Promise<JobRemovalResult>;
     process(jobName: string, processorOrConcurrency: number | ((job: any) => Promise<any>), processor?: (job: any) => Promise<any>): Promise<void>;
     isHealthy(): Promise<boolean>;
     close(): Promise<void>;
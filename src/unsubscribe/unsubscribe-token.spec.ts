@@ -0,0 +1,89 @@
+import { UnsubscribeTokenSigner, getUnsubscribeScope, runWithUnsubscribeScope } from './unsubscribe-token';
+import { InvalidUnsubscribeTokenError } from '../errors/invalid-unsubscribe-token.error';
+import { SimpleEngine } from '../template-engine/engines/simple.engine';
+import { HandlebarsEngine } from '../template-engine/engines/handlebars.engine';
+import { UnsubscribeService } from '../services/unsubscribe.service';
+import { PreferenceService } from '../services/preference.service';
+import { InMemoryPreferenceStore } from '../preferences/in-memory-preference.store';
+
+describe('unsubscribe links', () => {
+  const options = { secret: 'test-secret', baseUrl: 'https://app.example.com/unsubscribe' };
+  const signer = new UnsubscribeTokenSigner(options);
+
+  const tokenOf = (url: string) => decodeURIComponent(new URL(url).searchParams.get('token'));
+
+  it('should sign and verify tokens', () => {
+    const url = signer.getUnsubscribeUrl('u1', 'order.updated', 'email');
+
+    expect(url.startsWith('https://app.example.com/unsubscribe?token=')).toBe(true);
+    expect(signer.verify(tokenOf(url))).toEqual({ recipientId: 'u1', eventType: 'order.updated', channel: 'email' });
+    expect(signer.verify(tokenOf(signer.getManagePreferencesUrl('u1')))).toMatchObject({ eventType: '*', channel: '*' });
+  });
+
+  it('should reject tampered, foreign and expired tokens', () => {
+    const [encoded, signature] = signer.sign('u1', 'order.updated', 'email').split('.');
+    const forged = Buffer.from(JSON.stringify({ recipientId: 'u2', eventType: '*', channel: '*' })).toString('base64url');
+
+    expect(() => signer.verify(`${forged}.${signature}`)).toThrow(InvalidUnsubscribeTokenError);
+    expect(() => new UnsubscribeTokenSigner({ ...options, secret: 'other' }).verify(`${encoded}.${signature}`)).toThrow('bad signature');
+    expect(() => signer.verify('garbage')).toThrow('malformed token');
+
+    const expiring = new UnsubscribeTokenSigner({ ...options, ttl: -1 });
+    expect(() => expiring.verify(expiring.sign('u1'))).toThrow('token expired');
+  });
+
+  it('should build List-Unsubscribe headers', () => {
+    const headers = signer.getListUnsubscribeHeaders('u1', 'order.updated', 'email');
+
+    expect(headers['List-Unsubscribe']).toMatch(/^<https:\/\/app\.example\.com\/unsubscribe\?token=.+>$/);
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+  });
+
+  it('should expose {{unsubscribeUrl}} to the Simple and Handlebars engines, scoped to the delivery', async () => {
+    // eventType et channel des données du rendu ne changent pas la portée du lien
+    const data = { recipient: { id: 'u1' }, eventType: '*', channel: '*' };
+    const scope = getUnsubscribeScope({
+      eventId: 'evt_1', correlationId: 'cor_1', eventType: 'order.updated', attempt: 1, metadata: { channel: 'email' }
+    });
+    const simple = new SimpleEngine({ engine: 'simple', unsubscribe: options });
+    const handlebars = new HandlebarsEngine({ engine: 'handlebars', unsubscribe: options });
+
+    const fromSimple = await runWithUnsubscribeScope(scope, () => simple.render('{{unsubscribeUrl}}', data));
+    const fromHandlebars = await runWithUnsubscribeScope(scope, () => handlebars.render('{{{unsubscribeUrl}}}', data));
+
+    expect(signer.verify(tokenOf(fromSimple))).toEqual({ recipientId: 'u1', eventType: 'order.updated', channel: 'email' });
+    expect(fromHandlebars).toBe(fromSimple);
+  });
+
+  it('should never render a global opt-out link outside a delivery', async () => {
+    const simple = new SimpleEngine({ engine: 'simple', unsubscribe: options });
+
+    expect(await simple.render('[{{unsubscribeUrl}}]', { recipient: { id: 'u1' } })).toBe('[]');
+  });
+
+  it('should record the opt-out in the preferences', async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore());
+    const service = new UnsubscribeService({ eventTypes: {}, unsubscribe: options }, preferences);
+
+    await service.unsubscribe(tokenOf(service.getUnsubscribeUrl('u1', 'order.updated', 'email')));
+
+    expect(await preferences.isEnabled('u1', 'order.updated', 'email')).toBe(false);
+    expect(await preferences.isEnabled('u1', 'order.updated', 'sms')).toBe(true);
+  });
+
+  it('should opt out of the whole category of the event type', async () => {
+    const preferences = new PreferenceService(new InMemoryPreferenceStore());
+    const service = new UnsubscribeService({ eventTypes: {}, unsubscribe: options }, preferences);
+    const scope = getUnsubscribeScope({
+      eventId: 'evt_1', correlationId: 'cor_1', eventType: 'newsletter.weekly', attempt: 1,
+      metadata: { channel: 'email', config: { category: 'marketing' } }
+    });
+    const url = runWithUnsubscribeScope(scope, () => new SimpleEngine({ engine: 'simple', unsubscribe: options })
+      .render('{{unsubscribeUrl}}', { recipientId: 'u1' }));
+
+    expect(await service.unsubscribe(tokenOf(await url))).toMatchObject({ eventType: 'newsletter.weekly', category: 'marketing' });
+    expect(await preferences.isEnabled('u1', 'promo.launched', 'email', 'marketing')).toBe(false);
+    expect(await preferences.isEnabled('u1', 'promo.launched', 'sms', 'marketing')).toBe(true);
+    expect(await preferences.isEnabled('u1', 'order.updated', 'email')).toBe(true);
+  });
+});
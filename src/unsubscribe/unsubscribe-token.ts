@@ -0,0 +1,186 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { InvalidUnsubscribeTokenError } from '../errors/invalid-unsubscribe-token.error';
+import { ANY_PREFERENCE } from '../preferences/preference-store.interface';
+import { NotificationContext } from '../types/interfaces';
+
+/**
+ * Options des liens de désinscription (PackageConfig.unsubscribe, TemplateEngineConfig.unsubscribe)
+ */
+export interface UnsubscribeOptions {
+    /** Secret HMAC de signature des tokens */
+    secret: string;
+
+    /** URL de désinscription, complétée par ?token=... (ex: https://app.example.com/notifications/unsubscribe) */
+    baseUrl: string;
+
+    /** URL de la page de gestion des préférences, complétée par ?token=... (baseUrl par défaut) */
+    managePreferencesUrl?: string;
+
+    /** Durée de validité des tokens (en ms, sans expiration par défaut) */
+    ttl?: number;
+}
+
+/**
+ * Contenu signé d'un token de désinscription
+ * eventType et channel acceptent le joker '*' (tous les types d'événements, tous les canaux)
+ */
+export interface UnsubscribeTokenPayload {
+    recipientId: string;
+    eventType: string;
+    channel: string;
+    /** Catégorie du type d'événement : la désinscription porte alors sur toute la catégorie */
+    category?: string;
+    /** Date d'expiration (timestamp en ms) */
+    expiresAt?: number;
+}
+
+/**
+ * Portée des liens de désinscription d'un rendu : le type d'événement, le canal et la catégorie de l'envoi
+ */
+export interface UnsubscribeScope {
+    eventType: string;
+    channel: string;
+    category?: string;
+}
+
+const scopeStorage = new AsyncLocalStorage<UnsubscribeScope>();
+
+/**
+ * Exécute un rendu avec la portée de désinscription de son envoi
+ * Les helpers {{unsubscribeUrl}} appelés pendant le rendu signent leurs tokens pour cette portée.
+ */
+export function runWithUnsubscribeScope<R>(scope: UnsubscribeScope | undefined, callback: () => R): R {
+    return scope ? scopeStorage.run(scope, callback) : callback();
+}
+
+/**
+ * Portée de désinscription d'un envoi, lue dans son contexte (undefined si le canal est inconnu)
+ */
+export function getUnsubscribeScope(context: NotificationContext): UnsubscribeScope | undefined {
+    const channel = context?.metadata?.channel;
+    if (!context?.eventType || !channel) {
+        return undefined;
+    }
+    return { eventType: context.eventType, channel, category: context.metadata?.config?.category };
+}
+
+/**
+ * Signature et vérification des tokens de désinscription (HMAC-SHA256)
+ * Format : base64url(payload JSON).base64url(signature)
+ */
+export class UnsubscribeTokenSigner {
+    constructor(private readonly options: UnsubscribeOptions) {
+        if (!options?.secret) {
+            throw new Error('Unsubscribe links require a secret');
+        }
+        if (!options.baseUrl) {
+            throw new Error('Unsubscribe links require a baseUrl');
+        }
+    }
+
+    /**
+     * Signe un token pour un destinataire, un type d'événement (ou sa catégorie) et un canal
+     */
+    sign(recipientId: string, eventType: string = ANY_PREFERENCE, channel: string = ANY_PREFERENCE, category?: string): string {
+        const payload: UnsubscribeTokenPayload = { recipientId, eventType, channel };
+        if (category) {
+            payload.category = category;
+        }
+        if (this.options.ttl) {
+            payload.expiresAt = Date.now() + this.options.ttl;
+        }
+
+        const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+        return `${encoded}.${this.computeSignature(encoded)}`;
+    }
+
+    /**
+     * Vérifie la signature et l'expiration d'un token et retourne son contenu
+     */
+    verify(token: string): UnsubscribeTokenPayload {
+        const [encoded, signature, ...rest] = (token || '').split('.');
+        if (!encoded || !signature || rest.length > 0) {
+            throw new InvalidUnsubscribeTokenError('malformed token');
+        }
+
+        const expected = Buffer.from(this.computeSignature(encoded));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            throw new InvalidUnsubscribeTokenError('bad signature');
+        }
+
+        let payload: UnsubscribeTokenPayload;
+        try {
+            payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+        } catch (error) {
+            throw new InvalidUnsubscribeTokenError('malformed payload');
+        }
+
+        if (!payload?.recipientId || !payload.eventType || !payload.channel) {
+            throw new InvalidUnsubscribeTokenError('incomplete payload');
+        }
+        if (payload.expiresAt && payload.expiresAt < Date.now()) {
+            throw new InvalidUnsubscribeTokenError('token expired');
+        }
+
+        return payload;
+    }
+
+    /**
+     * Lien de désinscription en un clic
+     */
+    getUnsubscribeUrl(recipientId: string, eventType?: string, channel?: string, category?: string): string {
+        return this.buildUrl(this.options.baseUrl, this.sign(recipientId, eventType, channel, category));
+    }
+
+    /**
+     * Lien vers la page de gestion des préférences (token valable pour tous les types et canaux)
+     */
+    getManagePreferencesUrl(recipientId: string): string {
+        return this.buildUrl(this.options.managePreferencesUrl || this.options.baseUrl, this.sign(recipientId));
+    }
+
+    /**
+     * En-têtes List-Unsubscribe (RFC 2369) et désinscription en un clic (RFC 8058) pour les emails
+     */
+    getListUnsubscribeHeaders(recipientId: string, eventType?: string, channel?: string, category?: string): Record<string, string> {
+        return {
+            'List-Unsubscribe': `<${this.getUnsubscribeUrl(recipientId, eventType, channel, category)}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        };
+    }
+
+    private computeSignature(encoded: string): string {
+        return createHmac('sha256', this.options.secret).update(encoded).digest('base64url');
+    }
+
+    private buildUrl(baseUrl: string, token: string): string {
+        return `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+    }
+}
+
+/**
+ * Helpers de template {{unsubscribeUrl}} et {{managePreferencesUrl}}
+ * Le destinataire (recipientId ou recipient.id) est lu dans les données du rendu ; le type d'événement, le canal
+ * et la catégorie proviennent de l'envoi (runWithUnsubscribeScope). Hors envoi, {{unsubscribeUrl}} est vide
+ * plutôt qu'un lien de désinscription globale.
+ */
+export function createUnsubscribeHelpers(signer: UnsubscribeTokenSigner): Record<string, Function> {
+    const getRecipientId = (data: any): string | undefined => data?.recipientId ?? data?.recipient?.id;
+
+    return {
+        unsubscribeUrl: function(this: any) {
+            const recipientId = getRecipientId(this);
+            const scope = scopeStorage.getStore();
+            return recipientId && scope
+                ? signer.getUnsubscribeUrl(String(recipientId), scope.eventType, scope.channel, scope.category)
+                : '';
+        },
+
+        managePreferencesUrl: function(this: any) {
+            const recipientId = getRecipientId(this);
+            return recipientId ? signer.getManagePreferencesUrl(String(recipientId)) : '';
+        }
+    };
+}
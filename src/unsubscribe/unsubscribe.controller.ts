@@ -0,0 +1,37 @@
+import { BadRequestException, Controller, Get, HttpCode, Post, Query } from '@nestjs/common';
+import { UnsubscribeService } from '../services/unsubscribe.service';
+import { UnsubscribeTokenPayload } from './unsubscribe-token';
+import { InvalidUnsubscribeTokenError } from '../errors/invalid-unsubscribe-token.error';
+
+/**
+ * Endpoints de désinscription (option de module unsubscribeController)
+ * - GET  /notifications/unsubscribe?token=... : vérifie le token (page de confirmation), sans effet
+ * - POST /notifications/unsubscribe?token=... : désinscription en un clic (RFC 8058, List-Unsubscribe-Post)
+ */
+@Controller('notifications/unsubscribe')
+export class UnsubscribeController {
+    constructor(private readonly unsubscribeService: UnsubscribeService) {}
+
+    @Get()
+    verify(@Query('token') token: string): UnsubscribeTokenPayload {
+        try {
+            return this.unsubscribeService.verify(token);
+        } catch (error) {
+            throw this.toHttpError(error);
+        }
+    }
+
+    @Post()
+    @HttpCode(200)
+    async unsubscribe(@Query('token') token: string): Promise<UnsubscribeTokenPayload> {
+        try {
+            return await this.unsubscribeService.unsubscribe(token);
+        } catch (error) {
+            throw this.toHttpError(error);
+        }
+    }
+
+    private toHttpError(error: Error): Error {
+        return error instanceof InvalidUnsubscribeTokenError ? new BadRequestException(error.message) : error;
+    }
+}
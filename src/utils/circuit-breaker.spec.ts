@@ -0,0 +1,56 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 2, resetTimeout: 1000, successThreshold: 1 };
+  let transitions: string[];
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transitions = [];
+    breaker = new CircuitBreaker(options, (previous, state) => transitions.push(`${previous}>${state}`));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures and probe again after resetTimeout', () => {
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(transitions).toEqual(['closed>open', 'open>half-open', 'half-open>closed']);
+  });
+
+  it('should reopen when the half-open probe fails', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.canRequest();
+
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should follow health checks', () => {
+    breaker.recordHealthCheck(false);
+    expect(breaker.state).toBe('open');
+
+    breaker.recordHealthCheck(true);
+    expect(breaker.state).toBe('half-open');
+  });
+});
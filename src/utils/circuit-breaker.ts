@@ -0,0 +1,96 @@
+import { CircuitBreakerOptions, CircuitState } from '../types/interfaces';
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+    failureThreshold: 5,
+    resetTimeout: 30000,
+    successThreshold: 1
+};
+
+/**
+ * Raison (`metadata.reason`) d'un résultat en échec imputable au provider (transport, service indisponible...)
+ * Seuls ces échecs alimentent le circuit breaker
+ */
+export const PROVIDER_ERROR_REASON = 'provider-error';
+
+/**
+ * Appelé à chaque changement d'état
+ */
+export type CircuitStateListener = (previous: CircuitState, state: CircuitState, reason: string) => void;
+
+/**
+ * Circuit breaker alimenté par les résultats d'envoi et les health checks
+ */
+export class CircuitBreaker {
+    private currentState: CircuitState = 'closed';
+    private failures = 0;
+    private successes = 0;
+    private openedAt = 0;
+
+    constructor(
+        private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+        private readonly onStateChange?: CircuitStateListener
+    ) {}
+
+    get state(): CircuitState {
+        return this.currentState;
+    }
+
+    /** Échecs consécutifs enregistrés */
+    get failureCount(): number {
+        return this.failures;
+    }
+
+    /**
+     * Indique si un envoi peut être tenté
+     * Un circuit ouvert passe en half-open une fois resetTimeout écoulé
+     */
+    canRequest(): boolean {
+        if (this.currentState === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout) {
+            this.transition('half-open', `resetTimeout de ${this.options.resetTimeout}ms écoulé`);
+        }
+        return this.currentState !== 'open';
+    }
+
+    recordSuccess(): void {
+        this.failures = 0;
+
+        if (this.currentState === 'half-open' && ++this.successes >= this.options.successThreshold) {
+            this.transition('closed', 'envoi réussi');
+        }
+    }
+
+    recordFailure(reason: string = 'envoi en échec'): void {
+        this.failures++;
+
+        if (this.currentState === 'half-open' ||
+            (this.currentState === 'closed' && this.failures >= this.options.failureThreshold)) {
+            this.transition('open', reason);
+        }
+    }
+
+    /**
+     * Résultat d'un health check : un provider en mauvaise santé ouvre le circuit,
+     * un provider rétabli passe le circuit ouvert en half-open
+     */
+    recordHealthCheck(healthy: boolean): void {
+        if (!healthy && this.currentState !== 'open') {
+            this.transition('open', 'health check en échec');
+        } else if (healthy && this.currentState === 'open') {
+            this.transition('half-open', 'health check rétabli');
+        }
+    }
+
+    private transition(state: CircuitState, reason: string): void {
+        const previous = this.currentState;
+        this.currentState = state;
+        this.successes = 0;
+
+        if (state === 'open') {
+            this.openedAt = Date.now();
+        } else if (state === 'closed') {
+            this.failures = 0;
+        }
+
+        this.onStateChange?.(previous, state, reason);
+    }
+}
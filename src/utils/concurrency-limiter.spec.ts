@@ -0,0 +1,48 @@
+import { ConcurrencyLimiter } from './concurrency-limiter';
+
+describe('ConcurrencyLimiter', () => {
+  const deferred = () => {
+    let resolve: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+  };
+
+  it('should never run more tasks than the limit and start waiting tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) => limiter.run(async () => {
+      started.push(index);
+      await gate.promise;
+      return index;
+    }));
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.pendingCount).toBe(1);
+
+    gates[1].resolve();
+    await runs[1];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[0].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await limiter.run(async () => 'ok')).toBe('ok');
+  });
+
+  it('should be unbounded without a positive limit', () => {
+    expect(new ConcurrencyLimiter().limit).toBe(Infinity);
+    expect(new ConcurrencyLimiter(0).limit).toBe(Infinity);
+  });
+});
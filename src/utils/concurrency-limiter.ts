@@ -0,0 +1,57 @@
+/**
+ * Limite le nombre de tâches asynchrones exécutées simultanément
+ * Les tâches en attente démarrent dans l'ordre de soumission dès qu'un emplacement se libère.
+ */
+export class ConcurrencyLimiter {
+    readonly limit: number;
+    private active = 0;
+    private readonly waiting: Array<() => void> = [];
+
+    /**
+     * @param limit Nombre maximum de tâches simultanées (sans limite si absent ou <= 0)
+     */
+    constructor(limit?: number) {
+        this.limit = limit && limit > 0 ? limit : Infinity;
+    }
+
+    /**
+     * Exécute une tâche dès qu'un emplacement est disponible
+     */
+    async run<R>(task: () => Promise<R>): Promise<R> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    /** Nombre de tâches en cours d'exécution */
+    get activeCount(): number {
+        return this.active;
+    }
+
+    /** Nombre de tâches en attente d'un emplacement */
+    get pendingCount(): number {
+        return this.waiting.length;
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            // L'emplacement est transmis directement à la tâche suivante
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import * as fs from 'fs/promises';
+
+/** Délai au-delà duquel un verrou est considéré comme abandonné (en ms) */
+const STALE_LOCK_AGE = 30000;
+
+/** Délai entre deux tentatives d'acquisition (en ms) */
+const RETRY_DELAY = 20;
+
+/** Durée maximale d'attente du verrou (en ms) */
+const ACQUIRE_TIMEOUT = 10000;
+
+/**
+ * Exécute `fn` en détenant un verrou exclusif basé sur un fichier
+ * Permet à plusieurs processus partageant un répertoire de données
+ * d'effectuer des lectures-modifications-écritures atomiques.
+ */
+export async function withFileLock<R>(lockPath: string, fn: () => Promise<R>): Promise<R> {
+    const startedAt = Date.now();
+
+    while (!await tryAcquireLock(lockPath)) {
+        await removeStaleLock(lockPath);
+
+        if (Date.now() - startedAt > ACQUIRE_TIMEOUT) {
+            throw new Error(`Timeout while waiting for lock ${lockPath}`);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+    }
+
+    try {
+        return await fn();
+    } finally {
+        await removeLock(lockPath);
+    }
+}
+
+/**
+ * Tente de créer le fichier de verrou, false s'il existe déjà
+ */
+async function tryAcquireLock(lockPath: string): Promise<boolean> {
+    try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        return true;
+    } catch (error) {
+        if (error.code !== 'EEXIST') {
+            throw error;
+        }
+        return false;
+    }
+}
+
+async function removeLock(lockPath: string): Promise<void> {
+    try {
+        await fs.unlink(lockPath);
+    } catch (error) {
+        // Verrou déjà supprimé
+    }
+}
+
+/**
+ * Supprime un verrou laissé par un processus arrêté brutalement
+ */
+async function removeStaleLock(lockPath: string): Promise<void> {
+    try {
+        const stats = await fs.stat(lockPath);
+        if (Date.now() - stats.mtimeMs > STALE_LOCK_AGE) {
+            await fs.unlink(lockPath);
+        }
+    } catch (error) {
+        // Verrou déjà libéré entre-temps
+    }
+}
@@ -0,0 +1,30 @@
+import { deduplicateRecipients } from './recipient-deduplication';
+import { RecipientDistribution } from '../loaders/recipient-loader.interface';
+
+describe('deduplicateRecipients', () => {
+  const byId = (recipient: { id: string }) => recipient.id;
+
+  it('should keep the MAIN occurrence across distributions', () => {
+    const distributions: RecipientDistribution[] = [
+      { name: 'watchers', MAIN: [], COPY: [{ id: 'u1', name: 'Alice' }], BLIND: [{ id: 'u2', name: 'Bob' }] },
+      { name: 'owners', MAIN: [{ id: 'u1', name: 'Alice' }], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] }
+    ];
+
+    const { distributions: unique, duplicates } = deduplicateRecipients(distributions, byId);
+
+    expect(unique).toEqual([
+      { name: 'owners', MAIN: [{ id: 'u1', name: 'Alice' }], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] }
+    ]);
+    expect(duplicates.map(duplicate => `${duplicate.distribution}:${duplicate.type}:${duplicate.recipient.id}`)).toEqual([
+      'watchers:COPY:u1', 'watchers:BLIND:u2'
+    ]);
+  });
+
+  it('should return the distributions untouched without duplicates', () => {
+    const distributions: RecipientDistribution[] = [
+      { name: 'team', MAIN: [{ id: 'u1', name: 'Alice' }], COPY: [{ id: 'u2', name: 'Bob' }], BLIND: [] }
+    ];
+
+    expect(deduplicateRecipients(distributions, byId)).toEqual({ distributions, duplicates: [] });
+  });
+});
@@ -0,0 +1,61 @@
+import { Recipient, RecipientDistribution, RecipientType } from '../loaders/recipient-loader.interface';
+
+/** Ordre de précédence : un destinataire présent en MAIN et en COPY est conservé en MAIN */
+const TYPE_PRECEDENCE = [RecipientType.MAIN, RecipientType.COPY, RecipientType.BLIND];
+
+/**
+ * Destinataire retiré car déjà présent sous la même clé
+ */
+export interface RecipientDuplicate {
+    recipient: Recipient;
+    /** Destinataire conservé */
+    duplicateOf: Recipient;
+    /** Distribution et type d'origine du doublon */
+    distribution?: string;
+    type: RecipientType;
+}
+
+/**
+ * Retire les destinataires en double, toutes distributions confondues
+ * Les MAIN de toutes les distributions sont retenus avant les COPY, puis les BLIND ; à type égal,
+ * la première distribution l'emporte. Les distributions vidées sont retirées.
+ */
+export function deduplicateRecipients(
+    distributions: RecipientDistribution[],
+    keyOf: (recipient: Recipient) => string
+): { distributions: RecipientDistribution[], duplicates: RecipientDuplicate[] } {
+    const kept = new Map<string, Recipient>();
+    const duplicates: RecipientDuplicate[] = [];
+    const deduplicated = distributions.map((distribution): RecipientDistribution => ({
+        name: distribution.name,
+        [RecipientType.MAIN]: [],
+        [RecipientType.COPY]: [],
+        [RecipientType.BLIND]: []
+    }));
+
+    for (const type of TYPE_PRECEDENCE) {
+        distributions.forEach((distribution, index) => {
+            for (const recipient of distribution[type] || []) {
+                const key = keyOf(recipient);
+                const existing = kept.get(key);
+
+                if (existing) {
+                    duplicates.push({ recipient, duplicateOf: existing, distribution: distribution.name, type });
+                    continue;
+                }
+
+                kept.set(key, recipient);
+                deduplicated[index][type].push(recipient);
+            }
+        });
+    }
+
+    if (duplicates.length === 0) {
+        return { distributions, duplicates };
+    }
+
+    return {
+        distributions: deduplicated.filter(distribution => TYPE_PRECEDENCE.some(type => distribution[type].length > 0)),
+        duplicates
+    };
+}
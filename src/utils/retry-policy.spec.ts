@@ -0,0 +1,24 @@
+import { DEFAULT_RETRY_POLICY, getRetryDelay, resolveRetryPolicy } from './retry-policy';
+
+describe('retry policy', () => {
+  it('should merge configured policies over the defaults', () => {
+    expect(resolveRetryPolicy(undefined, undefined)).toBeUndefined();
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, { initialDelay: 200 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+      initialDelay: 200
+    });
+  });
+
+  it('should back off exponentially up to maxDelay', () => {
+    const policy = { maxAttempts: 6, initialDelay: 1000, backoffFactor: 3, maxDelay: 20000 };
+
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(policy, attempt))).toEqual([1000, 3000, 9000, 20000]);
+  });
+
+  it('should use the custom delay function when provided', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, customDelayFunction: (attempt: number) => attempt * 100 };
+
+    expect(getRetryDelay(policy, 4)).toBe(400);
+  });
+});
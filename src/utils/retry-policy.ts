@@ -0,0 +1,35 @@
+import { RetryPolicy } from '../types/interfaces';
+
+/**
+ * Valeurs par défaut complétant une politique partielle
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialDelay: 1000,
+    backoffFactor: 2,
+    maxDelay: 60000
+};
+
+/**
+ * Fusionne les politiques configurées (les dernières l'emportent)
+ * Retourne undefined si aucune politique n'est configurée
+ */
+export function resolveRetryPolicy(...policies: Array<Partial<RetryPolicy> | undefined>): RetryPolicy | undefined {
+    const configured = policies.filter(Boolean);
+    if (configured.length === 0) {
+        return undefined;
+    }
+
+    return Object.assign({}, DEFAULT_RETRY_POLICY, ...configured);
+}
+
+/**
+ * Délai (en ms) avant la tentative suivant l'échec de la tentative `attempt`
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+    const delay = policy.customDelayFunction
+        ? policy.customDelayFunction(attempt)
+        : policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1);
+
+    return Math.max(0, Math.min(delay, policy.maxDelay));
+}
@@ -0,0 +1,86 @@
+import { validatePayload, assertValidPayload } from './payload-validator';
+import { EventPayloadValidationError } from '../errors/event-payload-validation.error';
+import { JsonSchema } from '../types/interfaces';
+
+describe('Payload validator', () => {
+  const orderSchema: JsonSchema = {
+    type: 'object',
+    required: ['id', 'customerEmail', 'items'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      customerEmail: { type: 'string', format: 'email' },
+      total: { type: 'number', minimum: 0 },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['productId'],
+          properties: {
+            productId: { type: 'string' },
+            quantity: { type: 'integer', minimum: 1 }
+          }
+        }
+      }
+    }
+  };
+
+  it('should accept a valid payload', () => {
+    const issues = validatePayload(orderSchema, {
+      id: 'ord_1',
+      customerEmail: 'john@example.com',
+      total: 42,
+      items: [{ productId: 'p1', quantity: 2 }]
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report every offending field', () => {
+    const issues = validatePayload(orderSchema, {
+      customerEmail: 'not-an-email',
+      total: -1,
+      items: [{ quantity: 0 }]
+    });
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'id',
+      'customerEmail',
+      'total',
+      'items[0].productId',
+      'items[0].quantity'
+    ]);
+  });
+
+  it('should reject unknown properties when additionalProperties is false', () => {
+    const issues = validatePayload(
+      { type: 'object', properties: { id: { type: 'string' } }, additionalProperties: false },
+      { id: 'a', extra: true }
+    );
+
+    expect(issues).toEqual([{ path: 'extra', message: 'is not allowed' }]);
+  });
+
+  it('should support validator functions', () => {
+    expect(validatePayload(() => true, {})).toEqual([]);
+    expect(validatePayload(() => false, {})).toHaveLength(1);
+    expect(validatePayload(() => ['amount must be positive'], {})).toEqual([
+      { path: '', message: 'amount must be positive' }
+    ]);
+  });
+
+  it('should throw a typed error listing the issues', () => {
+    expect(() => assertValidPayload('order.created', orderSchema, {})).toThrow(EventPayloadValidationError);
+
+    try {
+      assertValidPayload('order.created', orderSchema, {});
+    } catch (error) {
+      expect(error.eventType).toBe('order.created');
+      expect(error.issues).toHaveLength(3);
+    }
+  });
+
+  it('should skip validation when no schema is configured', () => {
+    expect(() => assertValidPayload('order.created', undefined, null)).not.toThrow();
+  });
+});
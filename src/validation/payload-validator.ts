@@ -0,0 +1,194 @@
+import {
+    EventPayloadSchema,
+    JsonSchema,
+    JsonSchemaType,
+    PayloadValidationIssue
+} from '../types/interfaces';
+import { EventPayloadValidationError } from '../errors/event-payload-validation.error';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+
+/**
+ * Valide un payload contre le schéma d'un type d'événement
+ * Retourne la liste complète des problèmes (vide si le payload est valide)
+ */
+export function validatePayload(schema: EventPayloadSchema, payload: any): PayloadValidationIssue[] {
+    if (typeof schema === 'function') {
+        return normalizeValidatorResult(schema(payload));
+    }
+
+    return validateJsonSchema(schema, payload, '');
+}
+
+/**
+ * Vérifie un payload et lève une EventPayloadValidationError s'il est invalide
+ */
+export function assertValidPayload(eventType: string, schema: EventPayloadSchema | undefined, payload: any): void {
+    if (!schema) {
+        return;
+    }
+
+    const issues = validatePayload(schema, payload);
+    if (issues.length > 0) {
+        throw new EventPayloadValidationError(eventType, issues);
+    }
+}
+
+/**
+ * Convertit le retour d'une fonction de validation en liste de problèmes
+ */
+function normalizeValidatorResult(result: boolean | string[] | PayloadValidationIssue[]): PayloadValidationIssue[] {
+    if (result === true) {
+        return [];
+    }
+
+    if (result === false || result === undefined || result === null) {
+        return [{ path: '', message: 'payload rejected by validator' }];
+    }
+
+    return (result as Array<string | PayloadValidationIssue>).map(issue =>
+        typeof issue === 'string' ? { path: '', message: issue } : issue
+    );
+}
+
+/**
+ * Valide récursivement une valeur contre un JSON Schema
+ */
+function validateJsonSchema(schema: JsonSchema, value: any, path: string): PayloadValidationIssue[] {
+    const issues: PayloadValidationIssue[] = [];
+
+    if (schema.type) {
+        const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!expected.some(type => matchesType(type, value))) {
+            issues.push({ path, message: `expected ${expected.join(' | ')}, got ${describeType(value)}` });
+            // Inutile de valider le contenu d'une valeur du mauvais type
+            return issues;
+        }
+    }
+
+    if (schema.const !== undefined && value !== schema.const) {
+        issues.push({ path, message: `must be equal to ${JSON.stringify(schema.const)}` });
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+    }
+
+    if (typeof value === 'string') {
+        issues.push(...validateString(schema, value, path));
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path, message: `must be >= ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path, message: `must be <= ${schema.maximum}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            issues.push({ path, message: `must contain at most ${schema.maxItems} item(s)` });
+        }
+        if (schema.items) {
+            value.forEach((item, index) => {
+                issues.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`));
+            });
+        }
+    } else if (isPlainObject(value)) {
+        issues.push(...validateObject(schema, value, path));
+    }
+
+    return issues;
+}
+
+function validateString(schema: JsonSchema, value: string, path: string): PayloadValidationIssue[] {
+    const issues: PayloadValidationIssue[] = [];
+
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ path, message: `must be at least ${schema.minLength} character(s) long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push({ path, message: `must be at most ${schema.maxLength} character(s) long` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        issues.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+
+    switch (schema.format) {
+        case 'email':
+            if (!EMAIL_PATTERN.test(value)) issues.push({ path, message: 'must be a valid email' });
+            break;
+        case 'date-time':
+            if (isNaN(Date.parse(value))) issues.push({ path, message: 'must be a valid date-time' });
+            break;
+        case 'uri':
+            if (!URI_PATTERN.test(value)) issues.push({ path, message: 'must be a valid uri' });
+            break;
+    }
+
+    return issues;
+}
+
+function validateObject(schema: JsonSchema, value: Record<string, any>, path: string): PayloadValidationIssue[] {
+    const issues: PayloadValidationIssue[] = [];
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+            issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+        const propertySchema = properties[key];
+
+        if (propertySchema) {
+            if (propertyValue !== undefined) {
+                issues.push(...validateJsonSchema(propertySchema, propertyValue, joinPath(path, key)));
+            }
+        } else if (schema.additionalProperties === false) {
+            issues.push({ path: joinPath(path, key), message: 'is not allowed' });
+        } else if (typeof schema.additionalProperties === 'object') {
+            issues.push(...validateJsonSchema(schema.additionalProperties, propertyValue, joinPath(path, key)));
+        }
+    }
+
+    return issues;
+}
+
+function matchesType(type: JsonSchemaType, value: any): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return isPlainObject(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && !isNaN(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function describeType(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}